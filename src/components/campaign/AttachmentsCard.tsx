@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { errorMessage } from '@/lib/utils'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Paperclip, Upload, X, FileArchive } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  ATTACHMENT_EXTENSIONS,
+  MAX_MESSAGE_ATTACHMENT_BYTES,
+  MAX_ZIP_BYTES,
+  attachmentPath,
+  attachmentProblem,
+  cleanFilename,
+  formatBytes,
+  missingRecipientFiles,
+  type AttachmentFile,
+} from '@/lib/attachments'
+
+interface AttachmentsCardProps {
+  campaignId: string
+  csvHeaders: string[]
+  csvData: Record<string, string>[]
+  attachmentColumn: string
+  onAttachmentColumnChange: (column: string) => void
+}
+
+const AttachmentsCard: React.FC<AttachmentsCardProps> = ({
+  campaignId,
+  csvHeaders,
+  csvData,
+  attachmentColumn,
+  onAttachmentColumnChange
+}) => {
+  const [files, setFiles] = useState<AttachmentFile[]>([])
+  const [uploading, setUploading] = useState(false)
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const fetchFiles = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('campaign_attachments')
+      .select('id, kind, filename, storage_path, content_type, size_bytes')
+      .eq('campaign_id', campaignId)
+      .order('filename')
+
+    if (error) {
+      console.error('Error loading attachments:', error)
+      return
+    }
+
+    setFiles(data || [])
+  }, [campaignId])
+
+  useEffect(() => {
+    fetchFiles()
+  }, [campaignId, fetchFiles])
+
+  const uploadCampaignFiles = async (selected: FileList) => {
+    if (!user) return
+
+    setUploading(true)
+    try {
+      for (const file of Array.from(selected)) {
+        const problem = attachmentProblem(file)
+        if (problem) {
+          toast({ title: `${file.name} was not attached`, description: problem, variant: "destructive" })
+          continue
+        }
+
+        const path = attachmentPath(user.id, campaignId, 'campaign', cleanFilename(file.name))
+        const { error: uploadError } = await supabase.storage
+          .from('campaigns')
+          .upload(path, file, { upsert: true })
+
+        if (uploadError) throw uploadError
+
+        const { data, error } = await supabase.functions.invoke('campaign-attachments', {
+          body: { action: 'register', campaignId, path }
+        })
+
+        if (error || data?.error) {
+          toast({ title: `${file.name} was not attached`, description: data?.error || error?.message, variant: "destructive" })
+        }
+      }
+    } catch (error) {
+      toast({
+        title: "Error uploading attachment",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      await fetchFiles()
+      setUploading(false)
+    }
+  }
+
+  const uploadZip = async (zip: File) => {
+    if (!user) return
+
+    if (!zip.name.toLowerCase().endsWith('.zip')) {
+      toast({ title: "Invalid file type", description: "Please upload a .zip file.", variant: "destructive" })
+      return
+    }
+    if (zip.size > MAX_ZIP_BYTES) {
+      toast({ title: "Zip too large", description: `The zip must be ${formatBytes(MAX_ZIP_BYTES)} or smaller.`, variant: "destructive" })
+      return
+    }
+
+    setUploading(true)
+    try {
+      const path = `${user.id}/campaign-${campaignId}/recipient-files-${Date.now()}.zip`
+      const { error: uploadError } = await supabase.storage
+        .from('campaigns')
+        .upload(path, zip)
+
+      if (uploadError) throw uploadError
+
+      const { data, error } = await supabase.functions.invoke('campaign-attachments', {
+        body: { action: 'extract', campaignId, path }
+      })
+
+      if (error) throw error
+      if (data?.error) throw new Error(data.error)
+
+      const rejected: { filename: string, reason: string }[] = data.rejected
+      toast({
+        title: `Extracted ${data.added} file(s)`,
+        description: rejected.length > 0
+          ? `Skipped: ${rejected.map(file => `${file.filename} (${file.reason})`).join('; ')}`
+          : "Each recipient gets the file named in their row.",
+        variant: rejected.length > 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      toast({
+        title: "Error extracting zip",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      await fetchFiles()
+      setUploading(false)
+    }
+  }
+
+  const removeFile = async (file: AttachmentFile) => {
+    const { data, error } = await supabase.functions.invoke('campaign-attachments', {
+      body: { action: 'remove', campaignId, attachmentId: file.id }
+    })
+
+    if (error || data?.error) {
+      toast({
+        title: "Error removing attachment",
+        description: data?.error || error?.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setFiles(prev => prev.filter(f => f.id !== file.id))
+  }
+
+  const campaignFiles = files.filter(file => file.kind === 'campaign')
+  const recipientFiles = files.filter(file => file.kind === 'recipient')
+  const sharedBytes = campaignFiles.reduce((total, file) => total + file.size_bytes, 0)
+  const missing = missingRecipientFiles(csvData, attachmentColumn, files)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Paperclip className="h-5 w-5" />
+          Attachments
+        </CardTitle>
+        <CardDescription>
+          Optional. Attach files to every email, and a personal file per recipient from a zip. Allowed: {ATTACHMENT_EXTENSIONS.join(', ')}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <Label>Sent to everyone</Label>
+          {campaignFiles.length === 0 ? (
+            <p className="text-xs text-gray-500">No campaign-wide attachments.</p>
+          ) : (
+            <ul className="space-y-1">
+              {campaignFiles.map(file => (
+                <li key={file.id} className="flex items-center justify-between rounded border px-3 py-1 text-sm">
+                  <span className="truncate">{file.filename}</span>
+                  <span className="flex items-center gap-2 text-xs text-gray-500">
+                    {formatBytes(file.size_bytes)}
+                    <button onClick={() => removeFile(file)} className="hover:text-red-600" aria-label={`Remove ${file.filename}`}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {sharedBytes > MAX_MESSAGE_ATTACHMENT_BYTES && (
+            <p className="text-sm text-red-600">
+              Attachments add up to {formatBytes(sharedBytes)}; each email may carry at most {formatBytes(MAX_MESSAGE_ATTACHMENT_BYTES)}.
+            </p>
+          )}
+          <Button variant="outline" size="sm" disabled={uploading} asChild>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {uploading ? "Uploading..." : "Add Files"}
+              <input
+                type="file"
+                multiple
+                accept={ATTACHMENT_EXTENSIONS.map(extension => `.${extension}`).join(',')}
+                onChange={(e) => {
+                  if (e.target.files?.length) uploadCampaignFiles(e.target.files)
+                  e.target.value = ''
+                }}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Per-recipient file</Label>
+          <Select
+            value={attachmentColumn || 'none'}
+            onValueChange={(value) => onAttachmentColumnChange(value === 'none' ? '' : value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select CSV column" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No per-recipient file</SelectItem>
+              {csvHeaders.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {attachmentColumn && (
+            <>
+              <p className="text-xs text-gray-500">
+                Upload a zip holding the files named in the "{attachmentColumn}" column. A new zip replaces the previous files.
+                {recipientFiles.length > 0 && ` ${recipientFiles.length} file(s) uploaded.`}
+              </p>
+              <Button variant="outline" size="sm" disabled={uploading} asChild>
+                <label className="cursor-pointer">
+                  <FileArchive className="w-4 h-4 mr-2" />
+                  {uploading ? "Uploading..." : "Upload Zip"}
+                  <input
+                    type="file"
+                    accept=".zip"
+                    onChange={(e) => {
+                      if (e.target.files?.[0]) uploadZip(e.target.files[0])
+                      e.target.value = ''
+                    }}
+                    disabled={uploading}
+                className="hidden"
+                  />
+                </label>
+              </Button>
+              {missing.length > 0 && (
+                <p className="text-sm text-amber-700">
+                  {missing.length} file(s) named in the CSV are not uploaded yet: {missing.slice(0, 5).join(', ')}{missing.length > 5 ? ', …' : ''}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AttachmentsCard
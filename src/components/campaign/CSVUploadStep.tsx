@@ -8,8 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { Upload, FileText, ChevronRight, ChevronLeft, AlertCircle } from 'lucide-react'
+import { Upload, FileText, ChevronRight, ChevronLeft, AlertCircle, Globe, Users } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { isValidTimeZone } from '@/lib/schedule'
+import { ADDRESS_FIELDS, checkRecipientRow, recipientEmail, type AddressColumns } from '@/lib/addressing'
+import AttachmentsCard from './AttachmentsCard'
 import Papa from 'papaparse'
 
 interface CSVUploadStepProps {
@@ -29,6 +32,9 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
   const [csvHeaders, setCsvHeaders] = useState<string[]>([])
   const [placeholders, setPlaceholders] = useState<string[]>([])
   const [mappings, setMappings] = useState<Record<string, string>>({})
+  const [timezoneColumn, setTimezoneColumn] = useState('')
+  const [attachmentColumn, setAttachmentColumn] = useState('')
+  const [addressColumns, setAddressColumns] = useState<AddressColumns>({})
   const [loading, setLoading] = useState(false)
   const [dragActive, setDragActive] = useState(false)
   const [fileName, setFileName] = useState('')
@@ -74,6 +80,18 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
         .eq('id', campaignId)
         .single()
 
+      if (campaign?.timezone_column) {
+        setTimezoneColumn(campaign.timezone_column)
+      }
+
+      if (campaign?.attachment_column) {
+        setAttachmentColumn(campaign.attachment_column)
+      }
+
+      if (campaign?.address_columns) {
+        setAddressColumns(campaign.address_columns)
+      }
+
       if (campaign && 'csv_url' in campaign && campaign.csv_url) {
         // Load CSV data from storage
         const { data: csvFile } = await supabase.storage
@@ -214,7 +232,10 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
         .from('campaigns')
         .update({ 
           csv_url: csvFileName,
-          total_recipients: csvData.length
+          total_recipients: csvData.length,
+          timezone_column: timezoneColumn || null,
+          attachment_column: attachmentColumn || null,
+          address_columns: addressColumns
         })
         .eq('id', campaignId)
 
@@ -244,7 +265,10 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
       onDataChange({
         csvData,
         csvHeaders,
-        placeholderMappings: mappings
+        placeholderMappings: mappings,
+        timezoneColumn,
+        attachmentColumn,
+        addressColumns
       })
 
       toast({
@@ -264,6 +288,31 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
     }
   }
 
+  // Rows with a missing or unknown zone are sent on the delivery window's fallback time zone
+  const invalidTimeZones = timezoneColumn
+    ? csvData.filter(row => !row[timezoneColumn] || !isValidTimeZone(row[timezoneColumn].trim())).length
+    : 0
+
+  // Launch is refused while any row has an address the send functions would reject. Blank lines
+  // are dropped before sending, so they are not checked.
+  const addressProblems = csvData.flatMap((row: Record<string, string>, index) => {
+    if (!Object.values(row).some(value => value?.trim())) return []
+    const checked = checkRecipientRow(recipientEmail(row, mappings), row, addressColumns)
+    return typeof checked === 'string' ? [{ row: index + 2, problem: checked }] : []
+  })
+
+  const handleAddressColumnChange = (key: keyof AddressColumns, value: string) => {
+    setAddressColumns(prev => {
+      const next = { ...prev }
+      if (value === 'none') {
+        delete next[key]
+      } else {
+        next[key] = value
+      }
+      return next
+    })
+  }
+
   return (
     <div className="max-w-6xl mx-auto space-y-6">
       <motion.div
@@ -379,6 +428,103 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
         </Card>
       </div>
 
+      {csvData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Recipient Time Zone
+            </CardTitle>
+            <CardDescription>
+              Optional. Map a column with IANA time zones (e.g. America/New_York) to send within a delivery window in each recipient's local time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Select
+              value={timezoneColumn || 'none'}
+              onValueChange={(value) => setTimezoneColumn(value === 'none' ? '' : value)}
+            >
+              <SelectTrigger className="max-w-sm">
+                <SelectValue placeholder="Select CSV column" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No time zone column</SelectItem>
+                {csvHeaders.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {invalidTimeZones > 0 && (
+              <p className="text-sm text-amber-700">
+                {invalidTimeZones} row(s) have a missing or unrecognized time zone and will use the delivery window's default time zone.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {csvData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Recipient Addressing
+            </CardTitle>
+            <CardDescription>
+              Optional. Take CC, BCC, Reply-To or the sender from CSV columns, e.g. to send each row from its account owner.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {ADDRESS_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label>{field.label}</Label>
+                  <Select
+                    value={addressColumns[field.key] || 'none'}
+                    onValueChange={(value) => handleAddressColumnChange(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select CSV column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not used</SelectItem>
+                      {csvHeaders.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">{field.description}</p>
+                </div>
+              ))}
+            </div>
+            {addressProblems.length > 0 && (
+              <div className="text-sm text-red-600 space-y-1">
+                <p>{addressProblems.length} row(s) have addresses that will be rejected at launch:</p>
+                <ul className="list-disc pl-5 text-xs">
+                  {addressProblems.slice(0, 5).map(result => (
+                    <li key={result.row}>Row {result.row}: {result.problem}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {csvData.length > 0 && (
+        <AttachmentsCard
+          campaignId={campaignId}
+          csvHeaders={csvHeaders}
+          csvData={csvData}
+          attachmentColumn={attachmentColumn}
+          onAttachmentColumnChange={setAttachmentColumn}
+        />
+      )}
+
       {csvData.length > 0 && (
         <Card>
           <CardHeader>
@@ -426,7 +572,7 @@ const CSVUploadStep: React.FC<CSVUploadStepProps> = ({
         </Button>
         <Button
           onClick={saveMappings}
-          disabled={loading || !csvData.length || placeholders.some(p => !mappings[p])}
+          disabled={loading || !csvData.length || placeholders.some(p => !mappings[p]) || addressProblems.length > 0}
           className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700"
         >
           {loading ? "Saving..." : "Save Mappings"}
@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { errorMessage } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { Pause, Play, Ban } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+type CampaignAction = 'pause' | 'resume' | 'cancel'
+
+interface CampaignControlsProps {
+  campaignId: string
+  status: string
+  onStatusChange: (status: string) => void
+}
+
+const CampaignControls: React.FC<CampaignControlsProps> = ({
+  campaignId,
+  status,
+  onStatusChange
+}) => {
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const runAction = async (action: CampaignAction) => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('control-campaign', {
+        body: { campaignId, action }
+      })
+
+      if (error) throw error
+
+      onStatusChange(data.status)
+
+      toast({
+        title: action === 'pause' ? "Campaign paused" : action === 'resume' ? "Campaign resumed" : "Campaign cancelled",
+        description: action === 'pause'
+          ? "Sending stops after the email in flight. Resume it any time."
+          : action === 'resume'
+          ? "Sending continues with the recipients that are still pending."
+          : "All pending recipients were cancelled.",
+      })
+    } catch (error) {
+      toast({
+        title: `Error trying to ${action} campaign`,
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (status !== 'active' && status !== 'paused') {
+    return null
+  }
+
+  return (
+    <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
+      {status === 'active' ? (
+        <Button variant="outline" size="sm" onClick={() => runAction('pause')} disabled={loading}>
+          <Pause className="w-4 h-4 mr-2" />
+          Pause
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => runAction('resume')} disabled={loading}>
+          <Play className="w-4 h-4 mr-2" />
+          Resume
+        </Button>
+      )}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={loading} className="text-red-600">
+            <Ban className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Campaign</AlertDialogTitle>
+            <AlertDialogDescription>
+              Emails that were already sent stay sent. All pending recipients will be cancelled and the campaign cannot be resumed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Sending</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => runAction('cancel')}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Cancel Campaign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default CampaignControls
@@ -0,0 +1,41 @@
+import React from 'react'
+import { CheckCircle, XCircle, MinusCircle, AlertCircle } from 'lucide-react'
+import { ConnectionDiagnostic, DIAGNOSTIC_STEP_LABELS } from '@/lib/providers'
+
+interface ConnectionDiagnosticsProps {
+  diagnostic: ConnectionDiagnostic
+}
+
+const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({ diagnostic }) => {
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {diagnostic.steps.map((step, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            {step.status === 'passed' && <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />}
+            {step.status === 'failed' && <XCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />}
+            {step.status === 'skipped' && <MinusCircle className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />}
+            <div className="min-w-0">
+              <p className="font-medium">
+                {DIAGNOSTIC_STEP_LABELS[step.step]}
+                {step.code !== undefined && <span className="ml-2 font-mono text-xs text-gray-500">{step.code}</span>}
+                {step.status !== 'skipped' && <span className="ml-2 text-xs text-gray-400">{step.durationMs} ms</span>}
+              </p>
+              <p className="text-xs text-gray-600 break-words">{step.detail}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {diagnostic.ok ? (
+        <p className="text-sm text-green-700">The server accepted the connection{diagnostic.steps.some(s => s.step === 'auth' && s.status === 'passed') ? ' and your login' : ''}.</p>
+      ) : diagnostic.hint && (
+        <div className="flex items-start space-x-2 p-3 bg-red-50 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-600 mt-0.5" />
+          <p className="text-sm text-red-800">{diagnostic.hint}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ConnectionDiagnostics
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { DeliveryWindow, listTimeZones, WEEKDAY_LABELS } from '@/lib/schedule'
+
+interface DeliveryWindowFieldsProps {
+  window: DeliveryWindow
+  onChange: (window: DeliveryWindow) => void
+}
+
+const DeliveryWindowFields: React.FC<DeliveryWindowFieldsProps> = ({ window, onChange }) => {
+  const timeZones = useMemo(listTimeZones, [])
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="windowStart">From</Label>
+          <Input
+            id="windowStart"
+            type="time"
+            value={window.start}
+            onChange={(e) => onChange({ ...window, start: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="windowEnd">Until</Label>
+          <Input
+            id="windowEnd"
+            type="time"
+            value={window.end}
+            onChange={(e) => onChange({ ...window, end: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Days</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="justify-start"
+          value={window.days.map(String)}
+          onValueChange={(days) => onChange({ ...window, days: days.map(Number).sort() })}
+        >
+          {WEEKDAY_LABELS.map((label, day) => (
+            <ToggleGroupItem key={label} value={String(day)} size="sm">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="windowTimeZone">Default time zone</Label>
+        <Select value={window.timezone} onValueChange={(timezone) => onChange({ ...window, timezone })}>
+          <SelectTrigger id="windowTimeZone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeZones.map((zone) => (
+              <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">
+          Used for recipients without a recognized time zone in the CSV.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default DeliveryWindowFields
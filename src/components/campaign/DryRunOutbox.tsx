@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { errorMessage } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Download, FileText, Inbox } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface DryRunIssue {
+  row: number
+  email: string
+  kind: 'skipped' | 'invalid'
+  reason: string
+}
+
+interface DryRun {
+  id: string
+  status: 'running' | 'completed' | 'failed'
+  storage_path: string
+  total_rows: number
+  processed_rows: number
+  rendered_count: number
+  skipped_count: number
+  invalid_count: number
+  issues: DryRunIssue[]
+  sender_counts: Record<string, number>
+  error_message: string | null
+  created_at: string
+}
+
+interface DryRunOutboxProps {
+  campaignId: string
+  // Changes whenever a new dry run is started
+  runId: string | null
+}
+
+const LISTED_FILES = 100
+const LISTED_ISSUES = 50
+
+// The latest dry run of the campaign: progress while it renders, then the rows that would be
+// skipped or rejected and the .eml files written to the outbox folder
+const DryRunOutbox: React.FC<DryRunOutboxProps> = ({ campaignId, runId }) => {
+  const [run, setRun] = useState<DryRun | null>(null)
+  const [files, setFiles] = useState<string[]>([])
+  const { toast } = useToast()
+
+  const fetchRun = useCallback(async () => {
+    const { data } = await supabase
+      .from('campaign_dry_runs')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    setRun(data)
+  }, [campaignId])
+
+  const fetchFiles = useCallback(async (path: string) => {
+    const { data } = await supabase.storage
+      .from('campaigns')
+      .list(path, { limit: LISTED_FILES + 1, sortBy: { column: 'name', order: 'asc' } })
+
+    setFiles((data || []).map(file => file.name).filter(name => name.endsWith('.eml')))
+  }, [])
+
+  useEffect(() => {
+    fetchRun()
+  }, [fetchRun, runId])
+
+  useEffect(() => {
+    if (run?.status !== 'running') return
+    const interval = setInterval(fetchRun, 2000)
+    return () => clearInterval(interval)
+  }, [fetchRun, run?.id, run?.status])
+
+  // Files are listed once the run has completed
+  const outboxPath = run?.status === 'completed' ? run.storage_path : null
+
+  useEffect(() => {
+    if (outboxPath) {
+      fetchFiles(outboxPath)
+    } else {
+      setFiles([])
+    }
+  }, [fetchFiles, outboxPath])
+
+  const downloadFile = async (name: string) => {
+    if (!run) return
+    try {
+      const { data, error } = await supabase.storage
+        .from('campaigns')
+        .download(`${run.storage_path}/${name}`)
+
+      if (error) throw error
+
+      const url = window.URL.createObjectURL(data)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = name
+      a.click()
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: "Error downloading file",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (!run) return null
+
+  const senders = Object.entries(run.sender_counts)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Dry Run Outbox
+        </CardTitle>
+        <CardDescription>
+          {run.status === 'running'
+            ? 'Rendering every message without contacting a mail server...'
+            : `Started ${new Date(run.created_at).toLocaleString()}. Nothing was sent; unsubscribe and tracking links in these files change nothing.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {run.status === 'running' && (
+          <div className="space-y-2">
+            <Progress value={run.total_rows > 0 ? (run.processed_rows / run.total_rows) * 100 : 0} className="h-2" />
+            <p className="text-xs text-gray-500">
+              {run.total_rows > 0 ? `${run.processed_rows.toLocaleString()} of ${run.total_rows.toLocaleString()} rows` : 'Loading the campaign...'}
+            </p>
+          </div>
+        )}
+
+        {run.status === 'failed' && (
+          <div className="p-3 bg-red-50 rounded-lg text-sm text-red-700">
+            The dry run stopped: {run.error_message}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-3 bg-green-50 rounded-lg text-center">
+            <div className="text-xl font-bold text-green-700">{run.rendered_count.toLocaleString()}</div>
+            <div className="text-xs text-green-600">Rendered</div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded-lg text-center">
+            <div className="text-xl font-bold text-gray-700">{run.skipped_count.toLocaleString()}</div>
+            <div className="text-xs text-gray-600">Skipped</div>
+          </div>
+          <div className="p-3 bg-red-50 rounded-lg text-center">
+            <div className="text-xl font-bold text-red-700">{run.invalid_count.toLocaleString()}</div>
+            <div className="text-xs text-red-600">Invalid</div>
+          </div>
+        </div>
+
+        {senders.length > 1 && (
+          <div className="text-sm text-gray-600">
+            Sender split: {senders.map(([email, count]) => `${email} (${count.toLocaleString()})`).join(', ')}
+          </div>
+        )}
+
+        {run.issues.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm font-medium text-gray-700">Rows that would not be sent</div>
+            <div className="max-h-48 overflow-y-auto rounded border divide-y text-xs">
+              {run.issues.slice(0, LISTED_ISSUES).map(issue => (
+                <div key={issue.row} className="flex justify-between gap-3 p-2">
+                  <span className="text-gray-500 shrink-0">Row {issue.row}</span>
+                  <span className="truncate">{issue.email || '(no email)'}</span>
+                  <span className={issue.kind === 'invalid' ? 'text-red-600 text-right' : 'text-gray-600 text-right'}>
+                    {issue.reason}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {run.issues.length > LISTED_ISSUES && (
+              <p className="text-xs text-gray-500">
+                {(run.issues.length - LISTED_ISSUES).toLocaleString()} more in summary.json
+              </p>
+            )}
+          </div>
+        )}
+
+        {run.status === 'completed' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium text-gray-700">Messages</div>
+              <Button variant="outline" size="sm" onClick={() => downloadFile('summary.json')}>
+                <Download className="w-4 h-4 mr-2" />
+                Summary
+              </Button>
+            </div>
+            {files.length === 0 ? (
+              <p className="text-xs text-gray-500">No messages were rendered.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto rounded border divide-y">
+                {files.slice(0, LISTED_FILES).map(name => (
+                  <button
+                    key={name}
+                    type="button"
+                    className="flex w-full items-center gap-2 p-2 text-left text-xs hover:bg-gray-50"
+                    onClick={() => downloadFile(name)}
+                  >
+                    <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+                    <span className="truncate">{name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {run.rendered_count > LISTED_FILES && (
+              <p className="text-xs text-gray-500 break-all">
+                Showing the first {LISTED_FILES} of {run.rendered_count.toLocaleString()}. All files are in the campaigns bucket under {run.storage_path}.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default DryRunOutbox
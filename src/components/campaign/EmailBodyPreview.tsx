@@ -0,0 +1,35 @@
+import React from 'react'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface EmailBodyPreviewProps {
+  html: string
+  text: string
+}
+
+// Both parts of the multipart/alternative message. The HTML runs in a sandboxed frame so a
+// template's own styles and markup cannot leak into the app.
+const EmailBodyPreview: React.FC<EmailBodyPreviewProps> = ({ html, text }) => {
+  return (
+    <Tabs defaultValue="html">
+      <TabsList>
+        <TabsTrigger value="html">HTML</TabsTrigger>
+        <TabsTrigger value="text">Plain text</TabsTrigger>
+      </TabsList>
+      <TabsContent value="html">
+        <iframe
+          title="HTML preview"
+          sandbox=""
+          srcDoc={html}
+          className="w-full min-h-[300px] bg-white border rounded-lg"
+        />
+      </TabsContent>
+      <TabsContent value="text">
+        <div className="p-4 bg-white border rounded-lg min-h-[200px] whitespace-pre-wrap font-mono text-sm">
+          {text}
+        </div>
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+export default EmailBodyPreview
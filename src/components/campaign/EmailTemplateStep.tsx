@@ -9,8 +9,13 @@ import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
 import { Mail, Code, Eye, ChevronRight } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { BodyFormat, bodyToHtml, htmlToText } from '@shared/content.ts'
+import { UNSUBSCRIBE_PLACEHOLDER, UNSUBSCRIBE_PREVIEW_URL } from '@/lib/unsubscribe'
+import EmailBodyPreview from './EmailBodyPreview'
 
 interface EmailTemplateStepProps {
   campaignId: string
@@ -26,6 +31,10 @@ const EmailTemplateStep: React.FC<EmailTemplateStepProps> = ({
   const [templateName, setTemplateName] = useState('')
   const [subject, setSubject] = useState('')
   const [body, setBody] = useState('')
+  const [bodyFormat, setBodyFormat] = useState<BodyFormat>('text')
+  // Empty unless the user writes the plain-text part themselves
+  const [customText, setCustomText] = useState(false)
+  const [textBody, setTextBody] = useState('')
   const [placeholders, setPlaceholders] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [showPreview, setShowPreview] = useState(false)
@@ -37,13 +46,13 @@ const EmailTemplateStep: React.FC<EmailTemplateStepProps> = ({
   }, [campaignId])
 
   useEffect(() => {
-    // Detect placeholders in subject and body
-    const text = `${subject} ${body}`
+    // Detect placeholders in subject and both bodies
+    const text = `${subject} ${body} ${customText ? textBody : ''}`
     const placeholderRegex = /\{\{([^}]+)\}\}/g
     const matches = text.match(placeholderRegex) || []
-    const uniquePlaceholders = [...new Set(matches)]
+    const uniquePlaceholders = [...new Set(matches)].filter(p => p !== UNSUBSCRIBE_PLACEHOLDER)
     setPlaceholders(uniquePlaceholders)
-  }, [subject, body])
+  }, [subject, body, customText, textBody])
 
   const loadExistingTemplate = async () => {
     try {
@@ -58,6 +67,9 @@ const EmailTemplateStep: React.FC<EmailTemplateStepProps> = ({
         setTemplateName(data.name)
         setSubject(data.subject)
         setBody(data.body)
+        setBodyFormat(data.body_format || 'text')
+        setCustomText(!!data.text_body)
+        setTextBody(data.text_body || '')
       }
     } catch (error) {
       // Template doesn't exist yet, which is fine
@@ -82,6 +94,8 @@ const EmailTemplateStep: React.FC<EmailTemplateStepProps> = ({
         name: templateName,
         subject: subject,
         body: body,
+        body_format: bodyFormat,
+        text_body: customText && textBody.trim() ? textBody : null,
         placeholders: placeholders
       }
 
@@ -114,6 +128,8 @@ const EmailTemplateStep: React.FC<EmailTemplateStepProps> = ({
         name: templateName,
         subject: subject,
         body: body,
+        bodyFormat,
+        textBody: customText && textBody.trim() ? textBody : null,
         placeholders: placeholders
       })
 
@@ -173,6 +189,7 @@ Best,
     setTemplateName(template.name)
     setSubject(template.subject)
     setBody(template.body)
+    setBodyFormat('text')
   }
 
   const renderPreview = () => {
@@ -180,10 +197,13 @@ Best,
       return `[${placeholder.toUpperCase()}]`
     })
     
-    const previewBody = body.replace(/\{\{([^}]+)\}\}/g, (match, placeholder) => {
-      return `[${placeholder.toUpperCase()}]`
+    const fillPlaceholders = (text: string) => text.replace(/\{\{([^}]+)\}\}/g, (match, placeholder) => {
+      return match === UNSUBSCRIBE_PLACEHOLDER ? UNSUBSCRIBE_PREVIEW_URL : `[${placeholder.toUpperCase()}]`
     })
 
+    const previewHtml = bodyToHtml(fillPlaceholders(body), bodyFormat)
+    const previewText = customText && textBody.trim() ? fillPlaceholders(textBody) : htmlToText(previewHtml)
+
     return (
       <div className="border rounded-lg p-4 bg-gray-50">
         <div className="mb-4">
@@ -194,8 +214,8 @@ Best,
         </div>
         <div>
           <Label className="text-sm font-medium text-gray-700">Body Preview:</Label>
-          <div className="mt-1 p-3 bg-white border rounded text-sm whitespace-pre-wrap">
-            {previewBody}
+          <div className="mt-1">
+            <EmailBodyPreview html={previewHtml} text={previewText} />
           </div>
         </div>
       </div>
@@ -244,17 +264,59 @@ Best,
                 />
               </div>
 
+              <div>
+                <Label htmlFor="bodyFormat">Body Format</Label>
+                <Select value={bodyFormat} onValueChange={(value) => setBodyFormat(value as BodyFormat)}>
+                  <SelectTrigger id="bodyFormat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text">Plain text (line breaks are kept)</SelectItem>
+                    <SelectItem value="markdown">Markdown</SelectItem>
+                    <SelectItem value="html">HTML</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <Label htmlFor="body">Email Body</Label>
                 <Textarea
                   id="body"
-                  placeholder="Enter email body (use {{placeholders}})"
+                  placeholder={
+                    bodyFormat === 'html' ? "Enter the HTML body (use {{placeholders}})"
+                      : bodyFormat === 'markdown' ? "Enter the body in Markdown, e.g. **bold** and [links](https://example.com)"
+                      : "Enter email body (use {{placeholders}})"
+                  }
                   value={body}
                   onChange={(e) => setBody(e.target.value)}
                   rows={10}
+                  className={bodyFormat === 'html' ? 'font-mono text-sm' : undefined}
                 />
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="customText">Write the plain-text version myself</Label>
+                    <p className="text-xs text-gray-500">Otherwise it is generated from the body, with links listed as footnotes</p>
+                  </div>
+                  <Switch id="customText" checked={customText} onCheckedChange={setCustomText} />
+                </div>
+                {customText && (
+                  <Textarea
+                    id="textBody"
+                    placeholder="Plain-text version (use {{placeholders}})"
+                    value={textBody}
+                    onChange={(e) => setTextBody(e.target.value)}
+                    rows={8}
+                  />
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {`Use ${UNSUBSCRIBE_PLACEHOLDER} for each recipient's unsubscribe link. Every email also carries a one-click List-Unsubscribe header.`}
+              </p>
+
               {placeholders.length > 0 && (
                 <div>
                   <Label>Detected Placeholders</Label>
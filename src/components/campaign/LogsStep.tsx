@@ -10,8 +10,13 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { BarChart3, Download, RefreshCw, Search, ChevronLeft, CheckCircle, XCircle, Clock } from 'lucide-react'
+import { BarChart3, Download, RefreshCw, Search, ChevronLeft, CheckCircle, XCircle, Clock, Archive } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import CampaignControls from '@/components/campaign/CampaignControls'
+import RecipientTimeline from '@/components/campaign/RecipientTimeline'
+import { DeliveryWindow, formatDeliveryWindow, msUntilWindow } from '@/lib/schedule'
+import { errorMessage } from '@/lib/utils'
+import type { FailureRecord } from '@shared/history.ts'
 
 interface LogsStepProps {
   campaignId: string
@@ -20,13 +25,29 @@ interface LogsStepProps {
 
 interface EmailLog {
   id: string
-  recipient_email: string
-  status: 'sent' | 'failed' | 'pending'
+  email: string
+  status: 'sent' | 'delivered' | 'bounced' | 'complained' | 'failed' | 'pending' | 'sending' | 'cancelled' | 'skipped'
   error_message?: string
+  attempts: number
+  error_history?: FailureRecord[]
+  failure_kind?: 'transient' | 'permanent' | 'unknown'
+  next_attempt_at?: string
+  timezone?: string | null
+  cc?: string[]
+  bcc?: string[]
+  reply_to?: string | null
+  from_email?: string | null
+  from_name?: string | null
+  provider_message_id?: string | null
+  // The pool sender the message went out through
+  sender_email?: string | null
   sent_at?: string
   created_at: string
 }
 
+// Accepted by the provider; webhooks may later move a recipient to one of the other three
+const SENT_STATUSES = ['sent', 'delivered', 'bounced', 'complained']
+
 const LogsStep: React.FC<LogsStepProps> = ({
   campaignId,
   onPrev
@@ -34,15 +55,26 @@ const LogsStep: React.FC<LogsStepProps> = ({
   const [logs, setLogs] = useState<EmailLog[]>([])
   const [filteredLogs, setFilteredLogs] = useState<EmailLog[]>([])
   const [loading, setLoading] = useState(true)
+  const [campaignStatus, setCampaignStatus] = useState('')
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow | null>(null)
   const [stats, setStats] = useState({
     total: 0,
     sent: 0,
     failed: 0,
     pending: 0,
+    skipped: 0,
+    delivered: 0,
+    bounced: 0,
+    complained: 0,
     successRate: 0
   })
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
+  // Looked up in the refreshed logs, so the drawer follows status changes
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null)
+  // Set while leftover recipients wait for the sender's daily allowance to reset
+  const [waiting, setWaiting] = useState<{ until: string, reason: 'warmup' | 'quota' } | null>(null)
+  const [exporting, setExporting] = useState(false)
   const { user } = useAuth()
   const { toast } = useToast()
 
@@ -54,10 +86,24 @@ const LogsStep: React.FC<LogsStepProps> = ({
 
   useEffect(() => {
     filterLogs()
-  }, [logs, searchTerm, statusFilter])
+  }, [logs, searchTerm, statusFilter, deliveryWindow])
 
   const fetchLogs = async () => {
     try {
+      const { data: campaign } = await supabase
+        .from('campaigns')
+        .select('status, delivery_window, waiting_until, waiting_reason')
+        .eq('id', campaignId)
+        .single()
+
+      if (campaign) {
+        setCampaignStatus(campaign.status)
+        setDeliveryWindow(campaign.delivery_window || null)
+        setWaiting(campaign.status === 'active' && campaign.waiting_until && new Date(campaign.waiting_until).getTime() > Date.now()
+          ? { until: campaign.waiting_until, reason: campaign.waiting_reason ?? 'quota' }
+          : null)
+      }
+
       const { data, error } = await supabase
         .from('recipients')
         .select('*')
@@ -71,12 +117,18 @@ const LogsStep: React.FC<LogsStepProps> = ({
       
       // Calculate stats
       const total = data?.length || 0
-      const sent = data?.filter(log => log.status === 'sent').length || 0
+      const sent = data?.filter(log => SENT_STATUSES.includes(log.status)).length || 0
       const failed = data?.filter(log => log.status === 'failed').length || 0
-      const pending = data?.filter(log => log.status === 'pending').length || 0
-      const successRate = total > 0 ? Math.round((sent / total) * 100) : 0
+      const pending = data?.filter(log => log.status === 'pending' || log.status === 'sending').length || 0
+      // Suppressed recipients were never attempted, so they do not count against the success rate
+      const skipped = data?.filter(log => log.status === 'skipped').length || 0
+      const successRate = total - skipped > 0 ? Math.round((sent / (total - skipped)) * 100) : 0
 
-      setStats({ total, sent, failed, pending, successRate })
+      const delivered = data?.filter(log => log.status === 'delivered').length || 0
+      const bounced = data?.filter(log => log.status === 'bounced').length || 0
+      const complained = data?.filter(log => log.status === 'complained').length || 0
+
+      setStats({ total, sent, failed, pending, skipped, delivered, bounced, complained, successRate })
     } catch (error: any) {
       toast({
         title: "Error loading logs",
@@ -88,17 +140,31 @@ const LogsStep: React.FC<LogsStepProps> = ({
     }
   }
 
+  // Pending recipients whose local delivery window is closed are held by the worker
+  const windowWait = (log: EmailLog) =>
+    log.status === 'pending' && deliveryWindow ? msUntilWindow(deliveryWindow, log.timezone ?? null) : 0
+
+  const displayStatus = (log: EmailLog) => windowWait(log) !== 0 ? 'waiting for window' : log.status
+
+  // CC, BCC, Reply-To and sender taken from the CSV for this recipient
+  const addressDetails = (log: EmailLog) => [
+    log.from_email || log.from_name ? `From: ${[log.from_name, log.from_email && `<${log.from_email}>`].filter(Boolean).join(' ')}` : '',
+    log.reply_to ? `Reply-To: ${log.reply_to}` : '',
+    log.cc?.length ? `CC: ${log.cc.join(', ')}` : '',
+    log.bcc?.length ? `BCC: ${log.bcc.join(', ')}` : '',
+  ].filter(Boolean)
+
   const filterLogs = () => {
     let filtered = logs
 
     if (searchTerm) {
       filtered = filtered.filter(log =>
-        log.recipient_email.toLowerCase().includes(searchTerm.toLowerCase())
+        log.email.toLowerCase().includes(searchTerm.toLowerCase())
       )
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(log => log.status === statusFilter)
+      filtered = filtered.filter(log => displayStatus(log) === statusFilter)
     }
 
     setFilteredLogs(filtered)
@@ -106,15 +172,17 @@ const LogsStep: React.FC<LogsStepProps> = ({
 
   const retryFailedEmails = async () => {
     try {
-      const { error } = await supabase.functions.invoke('retry-failed-emails', {
+      const { data, error } = await supabase.functions.invoke('retry-failed-emails', {
         body: { campaignId }
       })
 
       if (error) throw error
 
+      const skipped = data.skippedPermanent + data.skippedUnknown + data.skippedExhausted
       toast({
-        title: "Retry initiated",
-        description: "Failed emails are being retried.",
+        title: data.requeued > 0 ? "Retry initiated" : "Nothing to retry",
+        description: `${data.requeued} email(s) requeued with backoff.` +
+          (skipped > 0 ? ` ${skipped} skipped (permanent failures, unknown delivery or too many attempts).` : ''),
       })
 
       fetchLogs()
@@ -129,12 +197,18 @@ const LogsStep: React.FC<LogsStepProps> = ({
 
   const exportLogs = () => {
     const csvContent = [
-      ['Email', 'Status', 'Error Message', 'Sent At', 'Created At'],
+      ['Email', 'CC', 'BCC', 'Reply-To', 'From', 'Status', 'Attempts', 'Error Message', 'Sent At', 'Sent Via', 'Created At'],
       ...logs.map(log => [
-        log.recipient_email,
-        log.status,
+        log.email,
+        (log.cc || []).join(' '),
+        (log.bcc || []).join(' '),
+        log.reply_to || '',
+        log.from_email || '',
+        displayStatus(log),
+        log.attempts,
         log.error_message || '',
         log.sent_at || '',
+        log.sender_email || '',
         log.created_at
       ])
     ].map(row => row.join(',')).join('\n')
@@ -148,11 +222,41 @@ const LogsStep: React.FC<LogsStepProps> = ({
     window.URL.revokeObjectURL(url)
   }
 
+  // Copies of every email that went out, rebuilt with the headers they were sent with
+  const exportMessages = async (format: 'eml' | 'mbox') => {
+    setExporting(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('export-campaign-messages', {
+        body: { campaignId, format }
+      })
+
+      if (error) throw error
+
+      const url = window.URL.createObjectURL(data)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `campaign-${campaignId}-messages.${format === 'mbox' ? 'mbox' : 'zip'}`
+      a.click()
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: "Error exporting emails",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'sent':
+      case 'delivered':
         return <CheckCircle className="w-4 h-4 text-green-600" />
       case 'failed':
+      case 'bounced':
+      case 'complained':
         return <XCircle className="w-4 h-4 text-red-600" />
       default:
         return <Clock className="w-4 h-4 text-yellow-600" />
@@ -163,8 +267,18 @@ const LogsStep: React.FC<LogsStepProps> = ({
     switch (status) {
       case 'sent':
         return 'bg-green-100 text-green-800'
+      case 'delivered':
+        return 'bg-emerald-100 text-emerald-800'
+      case 'bounced':
+      case 'complained':
+        return 'bg-orange-100 text-orange-800'
       case 'failed':
         return 'bg-red-100 text-red-800'
+      case 'cancelled':
+      case 'skipped':
+        return 'bg-gray-100 text-gray-800'
+      case 'waiting for window':
+        return 'bg-purple-100 text-purple-800'
       default:
         return 'bg-yellow-100 text-yellow-800'
     }
@@ -232,11 +346,24 @@ const LogsStep: React.FC<LogsStepProps> = ({
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            <Progress value={stats.total > 0 ? ((stats.sent + stats.failed) / stats.total) * 100 : 0} className="h-3" />
+            <Progress value={stats.total > 0 ? ((stats.sent + stats.failed + stats.skipped) / stats.total) * 100 : 0} className="h-3" />
             <div className="flex justify-between text-sm text-gray-600">
-              <span>{stats.sent + stats.failed} of {stats.total} processed</span>
+              <span>
+                {stats.sent + stats.failed + stats.skipped} of {stats.total} processed
+                {stats.skipped > 0 && ` (${stats.skipped} skipped as suppressed)`}
+              </span>
               <span>{stats.pending} pending</span>
             </div>
+            {stats.delivered + stats.bounced + stats.complained > 0 && (
+              <div className="text-sm text-gray-600">
+                Provider reports: {stats.delivered} delivered, {stats.bounced} bounced, {stats.complained} spam complaints
+              </div>
+            )}
+            {stats.sent > 0 && (
+              <p className="text-xs text-gray-500">
+                Delivered, bounced and complained statuses only arrive for emails sent through Resend. SMTP servers do not report them, so those emails stay "sent".
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -247,9 +374,21 @@ const LogsStep: React.FC<LogsStepProps> = ({
           <div className="flex justify-between items-center">
             <div>
               <CardTitle>Email Logs</CardTitle>
-              <CardDescription>Detailed sending results</CardDescription>
+              <CardDescription>
+                Detailed sending results; select a row for its full timeline
+                {deliveryWindow && ` · Delivery window: ${formatDeliveryWindow(deliveryWindow)}`}
+                {waiting && ` · ${waiting.reason === 'quota' ? 'Daily quota' : 'Warm-up cap'} used up, resuming ${formatDate(waiting.until)}`}
+              </CardDescription>
             </div>
             <div className="flex space-x-2">
+              <CampaignControls
+                campaignId={campaignId}
+                status={campaignStatus}
+                onStatusChange={(status) => {
+                  setCampaignStatus(status)
+                  fetchLogs()
+                }}
+              />
               <Button variant="outline" size="sm" onClick={fetchLogs}>
                 <RefreshCw className="w-4 h-4 mr-2" />
                 Refresh
@@ -264,6 +403,18 @@ const LogsStep: React.FC<LogsStepProps> = ({
                 <Download className="w-4 h-4 mr-2" />
                 Export CSV
               </Button>
+              {(campaignStatus === 'completed' || campaignStatus === 'cancelled') && stats.sent > 0 && (
+                <>
+                  <Button variant="outline" size="sm" disabled={exporting} onClick={() => exportMessages('eml')}>
+                    <Archive className="w-4 h-4 mr-2" />
+                    {exporting ? "Exporting..." : "Export .eml (zip)"}
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={exporting} onClick={() => exportMessages('mbox')}>
+                    <Archive className="w-4 h-4 mr-2" />
+                    Export .mbox
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -287,8 +438,14 @@ const LogsStep: React.FC<LogsStepProps> = ({
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="bounced">Bounced</SelectItem>
+                <SelectItem value="complained">Complained</SelectItem>
                 <SelectItem value="failed">Failed</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                {deliveryWindow && <SelectItem value="waiting for window">Waiting for window</SelectItem>}
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="skipped">Skipped</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -299,6 +456,7 @@ const LogsStep: React.FC<LogsStepProps> = ({
                 <TableRow>
                   <TableHead>Email Address</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
                   <TableHead>Error Message</TableHead>
                   <TableHead>Sent At</TableHead>
                 </TableRow>
@@ -306,37 +464,58 @@ const LogsStep: React.FC<LogsStepProps> = ({
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8">
+                    <TableCell colSpan={5} className="text-center py-8">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-2"></div>
                       Loading logs...
                     </TableCell>
                   </TableRow>
                 ) : filteredLogs.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={5} className="text-center py-8 text-gray-500">
                       No logs found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredLogs.map((log) => (
-                    <TableRow key={log.id}>
-                      <TableCell className="font-medium">{log.recipient_email}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center space-x-2">
-                          {getStatusIcon(log.status)}
-                          <Badge className={getStatusColor(log.status)}>
-                            {log.status}
-                          </Badge>
-                        </div>
-                      </TableCell>
-                      <TableCell className="max-w-xs truncate">
-                        {log.error_message || '-'}
-                      </TableCell>
-                      <TableCell>
-                        {log.sent_at ? formatDate(log.sent_at) : '-'}
-                      </TableCell>
-                    </TableRow>
-                  ))
+                  filteredLogs.map((log) => {
+                    const wait = windowWait(log)
+                    return (
+                      <TableRow key={log.id} className="cursor-pointer" onClick={() => setSelectedLogId(log.id)}>
+                        <TableCell>
+                          <div className="font-medium">{log.email}</div>
+                          {addressDetails(log).map(detail => (
+                            <div key={detail} className="text-xs text-gray-500">{detail}</div>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            {getStatusIcon(log.status)}
+                            <Badge className={getStatusColor(displayStatus(log))}>
+                              {displayStatus(log)}
+                            </Badge>
+                          </div>
+                        </TableCell>
+                        <TableCell>{log.attempts}</TableCell>
+                        <TableCell className="max-w-xs truncate" title={log.error_message}>
+                          {log.failure_kind && (
+                            <Badge variant="outline" className="mr-2 text-xs">
+                              {log.failure_kind}
+                            </Badge>
+                          )}
+                          {wait
+                            ? `Window opens ${formatDate(new Date(Date.now() + wait).toISOString())}${log.timezone ? ` (${log.timezone})` : ''}`
+                            : log.status === 'pending' && log.next_attempt_at && log.attempts > 0
+                            ? `Retrying after ${formatDate(log.next_attempt_at)}`
+                            : log.error_message || '-'}
+                        </TableCell>
+                        <TableCell>
+                          {log.sent_at ? formatDate(log.sent_at) : '-'}
+                          {log.sender_email && (
+                            <div className="text-xs text-gray-500">via {log.sender_email}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
                 )}
               </TableBody>
             </Table>
@@ -344,6 +523,13 @@ const LogsStep: React.FC<LogsStepProps> = ({
         </CardContent>
       </Card>
 
+      <RecipientTimeline
+        campaignId={campaignId}
+        userId={user?.id}
+        recipient={logs.find(log => log.id === selectedLogId) ?? null}
+        onClose={() => setSelectedLogId(null)}
+      />
+
       <div className="flex justify-between">
         <Button variant="outline" onClick={onPrev}>
           <ChevronLeft className="w-4 h-4 mr-2" />
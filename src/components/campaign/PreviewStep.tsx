@@ -1,10 +1,17 @@
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Eye, ChevronRight, ChevronLeft, AlertTriangle, CheckCircle } from 'lucide-react'
+import { Eye, ChevronRight, ChevronLeft, AlertTriangle, CheckCircle, Shuffle, Paperclip } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { bodyToHtml, htmlToText } from '@shared/content.ts'
+import { checkRecipientRow, recipientEmail } from '@/lib/addressing'
+import { UNSUBSCRIBE_PLACEHOLDER, UNSUBSCRIBE_PREVIEW_URL } from '@/lib/unsubscribe'
+import { formatBytes, missingRecipientFiles, recipientAttachmentName, type AttachmentFile } from '@/lib/attachments'
+import EmailBodyPreview from './EmailBodyPreview'
+import TestSendCard from './TestSendCard'
 
 interface PreviewStepProps {
   campaignId: string
@@ -21,18 +28,39 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
 }) => {
   const [previewData, setPreviewData] = useState<any>(null)
   const [unmappedPlaceholders, setUnmappedPlaceholders] = useState<string[]>([])
+  const [rowIndex, setRowIndex] = useState(0)
+  const [attachments, setAttachments] = useState<AttachmentFile[]>([])
 
-  useEffect(() => {
-    generatePreview()
-  }, [campaignData])
+  // Blank lines are dropped before sending, so they are not offered as samples either
+  const rows: Record<string, string>[] = useMemo(() => (campaignData.csvData || []).filter(
+    (row: Record<string, string>) => Object.values(row).some(value => value?.trim())
+  ), [campaignData.csvData])
+
+  const fetchAttachments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('campaign_attachments')
+      .select('id, kind, filename, storage_path, content_type, size_bytes')
+      .eq('campaign_id', campaignId)
+      .order('filename')
 
-  const generatePreview = () => {
-    if (!campaignData.template || !campaignData.csvData || !campaignData.placeholderMappings) {
+    if (error) {
+      console.error('Error loading attachments:', error)
       return
     }
 
-    // Get a random row from CSV data
-    const randomRow = campaignData.csvData[Math.floor(Math.random() * campaignData.csvData.length)]
+    setAttachments(data || [])
+  }, [campaignId])
+
+  const pickRandomRow = useCallback(() => {
+    setRowIndex(Math.floor(Math.random() * rows.length))
+  }, [rows])
+
+  const generatePreview = useCallback(() => {
+    if (!campaignData.template || !rows.length || !campaignData.placeholderMappings) {
+      return
+    }
+
+    const sampleRow = rows[Math.min(rowIndex, rows.length - 1)]
     
     // Check for unmapped placeholders
     const placeholders = campaignData.template.placeholders || []
@@ -42,24 +70,70 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
     // Replace placeholders in subject and body
     let previewSubject = campaignData.template.subject
     let previewBody = campaignData.template.body
+    let previewText = campaignData.template.textBody || ''
 
+    // Same substitution as the send functions: empty values blank the placeholder out
     placeholders.forEach((placeholder: string) => {
       const mappedHeader = campaignData.placeholderMappings[placeholder]
-      if (mappedHeader && randomRow[mappedHeader]) {
+      if (mappedHeader) {
         const regex = new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
-        previewSubject = previewSubject.replace(regex, randomRow[mappedHeader])
-        previewBody = previewBody.replace(regex, randomRow[mappedHeader])
+        const value = sampleRow[mappedHeader] || ''
+        previewSubject = previewSubject.replace(regex, () => value)
+        previewBody = previewBody.replace(regex, () => value)
+        previewText = previewText.replace(regex, () => value)
       }
     })
 
+    previewSubject = previewSubject.split(UNSUBSCRIBE_PLACEHOLDER).join(UNSUBSCRIBE_PREVIEW_URL)
+    previewBody = previewBody.split(UNSUBSCRIBE_PLACEHOLDER).join(UNSUBSCRIBE_PREVIEW_URL)
+    previewText = previewText.split(UNSUBSCRIBE_PLACEHOLDER).join(UNSUBSCRIBE_PREVIEW_URL)
+
+    // Converted after the values are filled in, as the send functions do
+    const html = bodyToHtml(previewBody, campaignData.template.bodyFormat)
+    // Rows a launch would reject are flagged on the CSV step; their headers are not shown here
+    const addressing = checkRecipientRow(
+      recipientEmail(sampleRow, campaignData.placeholderMappings),
+      sampleRow,
+      campaignData.addressColumns || {}
+    )
     setPreviewData({
       subject: previewSubject,
-      body: previewBody,
-      sampleRow: randomRow
+      html,
+      text: previewText.trim() ? previewText : htmlToText(html),
+      addressing: typeof addressing === 'string' ? null : addressing,
+      sampleRow
     })
-  }
+  }, [campaignData, rows, rowIndex])
 
-  const canProceed = unmappedPlaceholders.length === 0 && campaignData.smtpConfig
+  useEffect(() => {
+    pickRandomRow()
+  }, [pickRandomRow])
+
+  useEffect(() => {
+    fetchAttachments()
+  }, [fetchAttachments])
+
+  useEffect(() => {
+    generatePreview()
+  }, [generatePreview])
+
+  const campaignFiles = attachments.filter(file => file.kind === 'campaign')
+  const missingFiles = missingRecipientFiles(rows, campaignData.attachmentColumn, attachments)
+  const rowFileName = previewData ? recipientAttachmentName(previewData.sampleRow, campaignData.attachmentColumn) : null
+  const rowFile = attachments.find(file => file.kind === 'recipient' && file.filename === rowFileName)
+
+  // Only the headers the CSV changes for this row; the rest come from the SMTP step
+  const addressing = previewData?.addressing
+  const addressLines = addressing ? [
+    ['From', addressing.from_email || addressing.from_name
+      ? `${addressing.from_name || (addressing.from_email ? '' : campaignData.smtpConfig?.senderName || '')} <${addressing.from_email || campaignData.smtpConfig?.senderEmail || ''}>`.trim()
+      : ''],
+    ['Reply-To', addressing.reply_to],
+    ['CC', addressing.cc.join(', ')],
+    ['BCC', addressing.bcc.join(', ')],
+  ].filter(([, value]) => value) : []
+
+  const canProceed = unmappedPlaceholders.length === 0 && missingFiles.length === 0 && campaignData.smtpConfig
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -85,6 +159,16 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
             <CardContent>
               {previewData ? (
                 <div className="space-y-4">
+                  {addressLines.length > 0 && (
+                    <div className="text-sm space-y-1">
+                      {addressLines.map(([label, value]) => (
+                        <div key={label} className="flex gap-2">
+                          <span className="font-medium text-gray-700 w-20">{label}:</span>
+                          <span className="text-gray-900">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div>
                     <div className="text-sm font-medium text-gray-700 mb-2">Subject:</div>
                     <div className="p-3 bg-gray-50 rounded-lg border">
@@ -93,9 +177,7 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
                   </div>
                   <div>
                     <div className="text-sm font-medium text-gray-700 mb-2">Body:</div>
-                    <div className="p-4 bg-white border rounded-lg min-h-[200px] whitespace-pre-wrap">
-                      {previewData.body}
-                    </div>
+                    <EmailBodyPreview html={previewData.html} text={previewData.text} />
                   </div>
                 </div>
               ) : (
@@ -110,8 +192,24 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
           {previewData && (
             <Card>
               <CardHeader>
-                <CardTitle>Sample Data Used</CardTitle>
-                <CardDescription>The CSV row used for this preview</CardDescription>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <CardTitle>Sample Data Used</CardTitle>
+                    <CardDescription>The CSV row used for this preview</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setRowIndex(rowIndex - 1)} disabled={rowIndex === 0}>
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm text-gray-600 whitespace-nowrap">Row {rowIndex + 1} of {rows.length}</span>
+                    <Button variant="outline" size="sm" onClick={() => setRowIndex(rowIndex + 1)} disabled={rowIndex >= rows.length - 1}>
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={pickRandomRow} title="Random row">
+                      <Shuffle className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-2 gap-4">
@@ -125,6 +223,48 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
               </CardContent>
             </Card>
           )}
+
+          {previewData && (campaignFiles.length > 0 || campaignData.attachmentColumn) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Paperclip className="h-5 w-5" />
+                  Attachments
+                </CardTitle>
+                <CardDescription>Files attached to the email for this row</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {campaignFiles.map(file => (
+                    <li key={file.id} className="flex justify-between py-1 border-b border-gray-100">
+                      <span>{file.filename}</span>
+                      <span className="text-gray-500">{formatBytes(file.size_bytes)}</span>
+                    </li>
+                  ))}
+                  {rowFileName && (
+                    <li className="flex justify-between py-1 border-b border-gray-100">
+                      <span>
+                        {rowFileName}
+                        <Badge variant="outline" className="ml-2 text-xs">This recipient</Badge>
+                      </span>
+                      {rowFile ? (
+                        <span className="text-gray-500">{formatBytes(rowFile.size_bytes)}</span>
+                      ) : (
+                        <Badge variant="destructive">Missing</Badge>
+                      )}
+                    </li>
+                  )}
+                  {campaignData.attachmentColumn && !rowFileName && (
+                    <li className="py-1 text-gray-500">No per-recipient file for this row</li>
+                  )}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {previewData && (
+            <TestSendCard campaignId={campaignId} row={previewData.sampleRow} />
+          )}
         </div>
 
         <div className="space-y-6">
@@ -161,7 +301,7 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
             </CardContent>
           </Card>
 
-          {unmappedPlaceholders.length > 0 && (
+          {(unmappedPlaceholders.length > 0 || missingFiles.length > 0) && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center text-amber-600">
@@ -170,20 +310,30 @@ const PreviewStep: React.FC<PreviewStepProps> = ({
                 </CardTitle>
                 <CardDescription>These issues need to be resolved before proceeding</CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p className="text-sm font-medium text-amber-800">Unmapped placeholders:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {unmappedPlaceholders.map((placeholder, index) => (
-                      <Badge key={index} variant="destructive">
-                        {placeholder}
-                      </Badge>
-                    ))}
+              <CardContent className="space-y-4">
+                {unmappedPlaceholders.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-amber-800">Unmapped placeholders:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {unmappedPlaceholders.map((placeholder, index) => (
+                        <Badge key={index} variant="destructive">
+                          {placeholder}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-amber-700 mt-2">
+                      Go back to the CSV upload step to map these placeholders to CSV columns.
+                    </p>
                   </div>
-                  <p className="text-xs text-amber-700 mt-2">
-                    Go back to the CSV upload step to map these placeholders to CSV columns.
-                  </p>
-                </div>
+                )}
+                {missingFiles.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-amber-800">Missing attachments:</p>
+                    <p className="text-xs text-amber-700">
+                      {missingFiles.length} file(s) named in the "{campaignData.attachmentColumn}" column are not uploaded: {missingFiles.slice(0, 5).join(', ')}{missingFiles.length > 5 ? ', …' : ''}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { formatBytes } from '@/lib/attachments'
+import type { FailureRecord } from '@shared/history.ts'
+import EmailBodyPreview from './EmailBodyPreview'
+
+export interface TimelineRecipient {
+  id: string
+  email: string
+  status: string
+  error_message?: string
+  attempts: number
+  error_history?: FailureRecord[]
+  next_attempt_at?: string
+  provider_message_id?: string | null
+  sender_email?: string | null
+  sent_at?: string
+  created_at: string
+}
+
+interface RecipientEvent {
+  id: string
+  type: 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked'
+  provider: string
+  detail: Record<string, string | undefined>
+  occurred_at: string
+}
+
+interface SentMessage {
+  message_id: string | null
+  from_email: string
+  from_name: string | null
+  subject: string
+  html_body: string
+  text_body: string
+  headers: Record<string, string>
+  attachments: { filename: string, content_type: string, size_bytes: number }[]
+  content_hash: string
+  provider_response: string | null
+  sent_at: string
+}
+
+interface TimelineEntry {
+  // Entries without a time, such as a cancellation, go last
+  at: string | null
+  title: string
+  detail?: string
+  tone: 'neutral' | 'success' | 'warning' | 'error'
+}
+
+interface RecipientTimelineProps {
+  campaignId: string
+  userId?: string
+  recipient: TimelineRecipient | null
+  onClose: () => void
+}
+
+const TONE_COLORS: Record<TimelineEntry['tone'], string> = {
+  neutral: 'bg-gray-400',
+  success: 'bg-green-500',
+  warning: 'bg-amber-500',
+  error: 'bg-red-500',
+}
+
+const SUPPRESSION_TITLES: Record<string, string> = {
+  unsubscribe: 'Unsubscribed',
+  bounce: 'Suppressed after a permanent bounce',
+  complaint: 'Suppressed after a spam complaint',
+  manual: 'Added to the suppression list',
+}
+
+function eventEntry(event: RecipientEvent): TimelineEntry {
+  const source = event.provider === 'tracking' ? '' : ` (${event.provider})`
+  switch (event.type) {
+    case 'delivered':
+      return { at: event.occurred_at, title: `Delivered${source}`, tone: 'success' }
+    case 'bounced':
+      return {
+        at: event.occurred_at,
+        title: `Bounced${source}`,
+        detail: [event.detail.type, event.detail.subType, event.detail.message].filter(Boolean).join(' · '),
+        tone: 'error',
+      }
+    case 'complained':
+      return { at: event.occurred_at, title: `Marked as spam${source}`, tone: 'error' }
+    case 'opened':
+      return { at: event.occurred_at, title: `Opened${source}`, detail: event.detail.user_agent, tone: 'neutral' }
+    case 'clicked':
+      return { at: event.occurred_at, title: `Clicked${source}`, detail: event.detail.url || event.detail.link, tone: 'neutral' }
+  }
+}
+
+// Everything known about one recipient of a campaign, oldest first, with the copy of the email
+// that was sent to them
+const RecipientTimeline: React.FC<RecipientTimelineProps> = ({
+  campaignId,
+  userId,
+  recipient,
+  onClose
+}) => {
+  const [events, setEvents] = useState<RecipientEvent[]>([])
+  const [suppression, setSuppression] = useState<{ reason: string, created_at: string } | null>(null)
+  const [sentMessage, setSentMessage] = useState<SentMessage | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchActivity = useCallback(async (recipientId: string, email: string) => {
+    setLoading(true)
+    setEvents([])
+    setSentMessage(null)
+    setSuppression(null)
+    try {
+      const { data: eventRows, error: eventsError } = await supabase
+        .from('recipient_events')
+        .select('id, type, provider, detail, occurred_at')
+        .eq('recipient_id', recipientId)
+        .order('occurred_at', { ascending: true })
+
+      if (eventsError) throw eventsError
+
+      const { data: message, error: messageError } = await supabase
+        .from('sent_messages')
+        .select('*')
+        .eq('recipient_id', recipientId)
+        .maybeSingle()
+
+      if (messageError) throw messageError
+
+      const { data: suppressions, error: suppressionError } = await supabase
+        .from('suppressions')
+        .select('reason, created_at')
+        .eq('user_id', userId)
+        .eq('email', email.toLowerCase())
+        .eq('campaign_id', campaignId)
+
+      if (suppressionError) throw suppressionError
+
+      setEvents(eventRows || [])
+      setSentMessage(message)
+      setSuppression(suppressions?.[0] ?? null)
+    } catch (error) {
+      console.error('Error loading recipient activity:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [campaignId, userId])
+
+  // Keyed on the recipient, not the row object, which the log refresh replaces every few seconds
+  const recipientId = recipient?.id
+  const recipientAddress = recipient?.email
+
+  useEffect(() => {
+    if (recipientId && recipientAddress) {
+      fetchActivity(recipientId, recipientAddress)
+    }
+  }, [fetchActivity, recipientId, recipientAddress])
+
+  const buildTimeline = (target: TimelineRecipient): TimelineEntry[] => {
+    const entries: TimelineEntry[] = [{ at: target.created_at, title: 'Queued', tone: 'neutral' }]
+
+    if (target.status === 'skipped') {
+      entries.push({ at: target.created_at, title: 'Skipped', detail: target.error_message, tone: 'neutral' })
+    }
+
+    (target.error_history || []).forEach(failure => {
+      entries.push({
+        at: failure.at,
+        title: `Attempt ${failure.attempt} failed (${failure.kind})`,
+        detail: failure.code ? `${failure.code} ${failure.message}` : failure.message,
+        tone: 'warning',
+      })
+    })
+
+    if (target.sent_at) {
+      entries.push({
+        at: target.sent_at,
+        title: `Attempt ${target.attempts} accepted`,
+        detail: [
+          target.sender_email && `Sent via ${target.sender_email}`,
+          sentMessage?.provider_response,
+          target.provider_message_id && `Message id ${target.provider_message_id}`,
+        ].filter(Boolean).join(' · '),
+        tone: 'success',
+      })
+    }
+
+    events.forEach(event => entries.push(eventEntry(event)))
+
+    if (suppression) {
+      entries.push({
+        at: suppression.created_at,
+        title: SUPPRESSION_TITLES[suppression.reason] || 'Suppressed',
+        tone: suppression.reason === 'unsubscribe' || suppression.reason === 'manual' ? 'neutral' : 'error',
+      })
+    }
+
+    if (target.status === 'pending' && target.next_attempt_at) {
+      entries.push({ at: target.next_attempt_at, title: 'Next attempt scheduled', tone: 'neutral' })
+    } else if (target.status === 'cancelled') {
+      entries.push({ at: null, title: 'Cancelled before sending', tone: 'neutral' })
+    }
+
+    return entries.sort((a, b) => {
+      if (!a.at || !b.at) return a.at ? -1 : b.at ? 1 : 0
+      return new Date(a.at).getTime() - new Date(b.at).getTime()
+    })
+  }
+
+  return (
+    <Sheet open={!!recipient} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {recipient && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{recipient.email}</SheetTitle>
+              <SheetDescription>Status: {recipient.status}</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Timeline</h3>
+                {loading ? (
+                  <p className="text-sm text-gray-500">Loading activity...</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                    {buildTimeline(recipient).map((entry, index) => (
+                      <li key={index} className="ml-4">
+                        <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${TONE_COLORS[entry.tone]}`} />
+                        <div className="text-sm font-medium">{entry.title}</div>
+                        {entry.at && (
+                          <div className="text-xs text-gray-500">{new Date(entry.at).toLocaleString()}</div>
+                        )}
+                        {entry.detail && (
+                          <div className="text-xs text-gray-600 break-all">{entry.detail}</div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Sent email</h3>
+                {!sentMessage ? (
+                  <p className="text-sm text-gray-500">
+                    No copy is stored for this recipient. Copies are kept for emails accepted by the provider.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="text-sm space-y-1">
+                      <div>
+                        <span className="text-gray-500">From: </span>
+                        {sentMessage.from_name ? `${sentMessage.from_name} <${sentMessage.from_email}>` : sentMessage.from_email}
+                      </div>
+                      <div><span className="text-gray-500">Subject: </span>{sentMessage.subject}</div>
+                      {sentMessage.attachments.length > 0 && (
+                        <div>
+                          <span className="text-gray-500">Attachments: </span>
+                          {sentMessage.attachments.map(file => `${file.filename} (${formatBytes(file.size_bytes)})`).join(', ')}
+                        </div>
+                      )}
+                      {Object.entries(sentMessage.headers).map(([name, value]) => (
+                        <div key={name} className="break-all">
+                          <span className="text-gray-500">{name}: </span>{value}
+                        </div>
+                      ))}
+                      <div className="text-xs text-gray-500 break-all">SHA-256: {sentMessage.content_hash}</div>
+                    </div>
+                    <EmailBodyPreview html={sentMessage.html_body} text={sentMessage.text_body} />
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default RecipientTimeline
@@ -7,8 +7,16 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
-import { Mail, Send, ChevronRight, ChevronLeft, Shield, AlertCircle } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Mail, Send, ChevronRight, ChevronLeft, Shield, AlertCircle, PlugZap } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import ConnectionDiagnostics from './ConnectionDiagnostics'
+import SenderPoolFields from './SenderPoolFields'
+import WarmupPlanFields from '@/components/settings/WarmupPlanFields'
+import DailyQuotaField from '@/components/settings/DailyQuotaField'
+import { dailyCap, warmupDay, WarmupPlan, warmupProblem } from '@/lib/warmup'
+import { ConnectionDiagnostic, describeProfileTest, PoolMember, poolMembers, securityForPort, SENDER_PROFILE_COLUMNS, SenderProfile, SenderStrategy, SmtpProvider, smtpProviders } from '@/lib/providers'
+import { errorMessage } from '@/lib/utils'
 
 interface SMTPConfigStepProps {
   campaignId: string
@@ -28,9 +36,23 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
   const [senderEmail, setSenderEmail] = useState('')
   const [senderName, setSenderName] = useState('')
   const [appPassword, setAppPassword] = useState('')
+  // Only what the credential vault exposes; the password itself never comes back to the browser
+  const [savedPassword, setSavedPassword] = useState<{ last4: string, updatedAt: string } | null>(null)
+  const [transport, setTransport] = useState<'smtp' | 'resend'>('smtp')
+  const [security, setSecurity] = useState<'starttls' | 'tls' | 'none'>('starttls')
+  const [username, setUsername] = useState('')
+  const [warmup, setWarmup] = useState<WarmupPlan | null>(null)
+  const [dailyQuota, setDailyQuota] = useState<number | null>(null)
+  const [profiles, setProfiles] = useState<SenderProfile[]>([])
+  // 'custom' keeps the server settings on this campaign's own config
+  const [profileId, setProfileId] = useState('custom')
+  const [pool, setPool] = useState<PoolMember[]>([])
+  const [senderStrategy, setSenderStrategy] = useState<SenderStrategy>('round_robin')
   const [testEmail, setTestEmail] = useState('')
   const [loading, setLoading] = useState(false)
   const [testLoading, setTestLoading] = useState(false)
+  const [verifyLoading, setVerifyLoading] = useState(false)
+  const [diagnostic, setDiagnostic] = useState<ConnectionDiagnostic | null>(null)
   const [configLoading, setConfigLoading] = useState(true) // Add loading state for initial load
   const { user } = useAuth()
   const { toast } = useToast()
@@ -44,9 +66,20 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
   const loadExistingConfig = async () => {
     try {
       setConfigLoading(true)
+      const { data: profileRows, error: profilesError } = await supabase
+        .from('sender_profiles')
+        .select(SENDER_PROFILE_COLUMNS)
+        .eq('user_id', user?.id)
+        .order('name')
+
+      if (profilesError) {
+        console.error('Error loading sender profiles:', profilesError)
+      }
+      setProfiles(profileRows || [])
+
       const { data, error } = await supabase
         .from('smtp_configs')
-        .select('*')
+        .select('id, host, port, email, sender_name, transport, security, username, sender_profile_id, warmup, daily_quota, sender_strategy')
         .eq('campaign_id', campaignId)
         .eq('user_id', user?.id)
         .single()
@@ -62,20 +95,61 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
       }
 
       if (data) {
+        const profile = (profileRows || []).find((p: SenderProfile) => p.id === data.sender_profile_id)
+        if (profile) {
+          setProfileId(profile.id)
+          setSenderName(data.sender_name || '')
+          setSenderStrategy(data.sender_strategy || 'round_robin')
+
+          const { data: members } = await supabase
+            .from('campaign_senders')
+            .select('sender_profile_id, weight')
+            .eq('campaign_id', campaignId)
+            .order('position')
+
+          setPool((members || []).map(member => ({ profileId: member.sender_profile_id, weight: member.weight })))
+          onDataChange({
+            host: profile.host || '',
+            port: profile.port,
+            senderEmail: profile.email,
+            senderName: data.sender_name || profile.sender_name,
+            transport: profile.transport,
+            security: profile.security,
+            username: profile.username || '',
+            senderProfileId: profile.id
+          })
+          return
+        }
+
         setHost(data.host || '')
         setPort(data.port || 587)
-        setSenderEmail(data.sender_email || data.email || '') // Handle both field names
+        setSenderEmail(data.email || '')
         setSenderName(data.sender_name || '')
-        // Don't load the password for security reasons
-        setAppPassword('') // Always require re-entering password
-        
+        setTransport(data.transport || 'smtp')
+        setSecurity(data.security || 'starttls')
+        setUsername(data.username || '')
+        setWarmup(data.warmup ?? null)
+        setDailyQuota(data.daily_quota ?? null)
+        setAppPassword('')
+
+        const { data: credential } = await supabase
+          .from('smtp_credentials')
+          .select('last4, updated_at')
+          .eq('smtp_config_id', data.id)
+          .maybeSingle()
+
+        setSavedPassword(credential ? { last4: credential.last4, updatedAt: credential.updated_at } : null)
+
+
         // Pass existing data to parent component
         onDataChange({
           host: data.host || '',
           port: data.port || 587,
-          senderEmail: data.sender_email || data.email || '',
+          senderEmail: data.email || '',
           senderName: data.sender_name || '',
-          appPassword: '' // Don't pass saved password
+          transport: data.transport || 'smtp',
+          security: data.security || 'starttls',
+          username: data.username || ''
         })
       }
     } catch (error: any) {
@@ -90,8 +164,145 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
     }
   }
 
+  // Resend delivers with the server-side API key, so only SMTP needs host and password
+  const usesSmtp = transport === 'smtp'
+  const selectedProfile = profiles.find(p => p.id === profileId) || null
+  const serverConfigured = selectedProfile !== null ||
+    (!usesSmtp || (host.trim() !== '' && (appPassword.trim() !== '' || savedPassword !== null)))
+  // A profile brings its own sender; the name on this step only overrides it
+  const senderReady = selectedProfile !== null || (senderEmail.trim() !== '' && senderName.trim() !== '')
+
+  // Updates the campaign's config row or creates it, returning its id
+  const persistConfig = async (configData: Record<string, unknown>): Promise<string> => {
+    const { data: existingConfig, error: fetchError } = await supabase
+      .from('smtp_configs')
+      .select('id')
+      .eq('campaign_id', campaignId)
+      .eq('user_id', user?.id)
+      .single()
+
+    if (fetchError && fetchError.code !== 'PGRST116') {
+      throw fetchError
+    }
+
+    let result
+    if (existingConfig) {
+      // Update existing config
+      result = await supabase
+        .from('smtp_configs')
+        .update(configData)
+        .eq('id', existingConfig.id)
+        .select('id')
+        .single()
+    } else {
+      // Create new config
+      result = await supabase
+        .from('smtp_configs')
+        .insert([configData])
+        .select('id')
+        .single()
+    }
+
+    if (result.error) {
+      throw result.error
+    }
+
+    return result.data.id
+  }
+
+  // Replaces the campaign's sender pool. Pools only apply to campaigns sending through a
+  // profile, and a single member is no pool at all.
+  const saveSenderPool = async (primaryId: string | null) => {
+    const { error: deleteError } = await supabase
+      .from('campaign_senders')
+      .delete()
+      .eq('campaign_id', campaignId)
+
+    if (deleteError) throw deleteError
+
+    const members = primaryId
+      ? poolMembers(primaryId, pool).filter(member => profiles.some(p => p.id === member.profileId))
+      : []
+    if (members.length < 2) return
+
+    const { error } = await supabase
+      .from('campaign_senders')
+      .insert(members.map((member, position) => ({
+        campaign_id: campaignId,
+        user_id: user?.id,
+        sender_profile_id: member.profileId,
+        weight: member.weight,
+        position
+      })))
+
+    if (error) throw error
+  }
+
+  const saveProfileConfig = async (profile: SenderProfile) => {
+    setLoading(true)
+    try {
+      await persistConfig({
+        campaign_id: campaignId,
+        user_id: user?.id,
+        sender_profile_id: profile.id,
+        sender_name: senderName.trim() || null,
+        host: null,
+        port: null,
+        email: null,
+        username: null,
+        warmup: null,
+        daily_quota: null,
+        sender_strategy: senderStrategy
+      })
+      await saveSenderPool(profile.id)
+
+      onDataChange({
+        host: profile.host || '',
+        port: profile.port,
+        senderEmail: profile.email,
+        senderName: senderName.trim() || profile.sender_name,
+        transport: profile.transport,
+        security: profile.security,
+        username: profile.username || '',
+        senderProfileId: profile.id
+      })
+
+      toast({
+        title: "SMTP configuration saved!",
+        description: poolMembers(profile.id, pool).length > 1
+          ? `This campaign will send through "${profile.name}" and ${poolMembers(profile.id, pool).length - 1} more profile(s).`
+          : `This campaign will send through "${profile.name}".`,
+      })
+
+      onNext()
+    } catch (error) {
+      console.error('Error saving SMTP config:', error)
+      toast({
+        title: "Error saving configuration",
+        description: errorMessage(error) || "An unexpected error occurred while saving your configuration.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const saveConfig = async () => {
-    if (!host.trim() || !senderEmail.trim() || !senderName.trim() || !appPassword.trim()) {
+    if (selectedProfile) {
+      await saveProfileConfig(selectedProfile)
+      return
+    }
+
+    if (warmup && warmupProblem(warmup)) {
+      toast({
+        title: "Invalid warm-up plan",
+        description: warmupProblem(warmup),
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!serverConfigured || !senderReady) {
       toast({
         title: "Missing required fields",
         description: "Please fill in all required fields.",
@@ -130,39 +341,27 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
         port,
         email: senderEmail.trim(), // Use consistent field name
         sender_name: senderName.trim(),
-        password: appPassword.trim()
+        transport,
+        security,
+        username: username.trim() || null,
+        sender_profile_id: null,
+        warmup,
+        daily_quota: dailyQuota
       }
 
-      // Check if config exists
-      const { data: existingConfig, error: fetchError } = await supabase
-        .from('smtp_configs')
-        .select('id')
-        .eq('campaign_id', campaignId)
-        .eq('user_id', user?.id)
-        .single()
+      await persistConfig(configData)
+      await saveSenderPool(null)
 
-      if (fetchError && fetchError.code !== 'PGRST116') {
-        throw fetchError
-      }
+      // The password goes to the credentials function, which encrypts it before storing
+      if (usesSmtp && appPassword.trim()) {
+        const { data: credential, error: credentialError } = await supabase.functions.invoke('smtp-credentials', {
+          body: { action: 'set', campaignId, password: appPassword.trim() }
+        })
 
-      let result
-      if (existingConfig) {
-        // Update existing config
-        result = await supabase
-          .from('smtp_configs')
-          .update(configData)
-          .eq('id', existingConfig.id)
-          .select()
-      } else {
-        // Create new config
-        result = await supabase
-          .from('smtp_configs')
-          .insert([configData])
-          .select()
-      }
+        if (credentialError) throw credentialError
 
-      if (result.error) {
-        throw result.error
+        setSavedPassword({ last4: credential.last4, updatedAt: credential.updatedAt })
+        setAppPassword('')
       }
 
       // Pass data to parent component
@@ -171,7 +370,9 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
         port,
         senderEmail: senderEmail.trim(),
         senderName: senderName.trim(),
-        appPassword: appPassword.trim() // In production, this should be handled more securely
+        transport,
+        security,
+        username: username.trim()
       })
 
       toast({
@@ -213,7 +414,7 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
       return
     }
 
-    if (!host.trim() || !senderEmail.trim() || !appPassword.trim()) {
+    if (!serverConfigured || !senderReady) {
       toast({
         title: "SMTP configuration incomplete",
         description: "Please fill in all SMTP settings before sending a test email.",
@@ -229,11 +430,16 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
         body: {
           campaignId,
           testEmail: testEmail.trim(),
+          senderProfileId: selectedProfile?.id,
           smtpConfig: {
             host: host.trim(),
             port,
             senderEmail: senderEmail.trim(),
             senderName: senderName.trim(),
+            transport,
+            security,
+            username: username.trim(),
+            // Empty means "use the saved password"
             appPassword: appPassword.trim()
           }
         }
@@ -241,6 +447,13 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
 
       if (error) throw error
 
+      if (selectedProfile) {
+        const testedAt = new Date().toISOString()
+        setProfiles(prev => prev.map(p => p.id === selectedProfile.id
+          ? { ...p, last_tested_at: testedAt, last_test_ok: true, last_test_error: null }
+          : p))
+      }
+
       toast({
         title: "Test email sent!",
         description: `Test email sent successfully to ${testEmail.trim()}`,
@@ -257,36 +470,55 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
     }
   }
 
-  const smtpProviders = [
-    {
-      name: "Gmail",
-      host: "smtp.gmail.com",
-      port: 587,
-      instructions: "Use your Gmail address and an App Password (not your regular password)"
-    },
-    {
-      name: "Outlook",
-      host: "smtp-mail.outlook.com",
-      port: 587,
-      instructions: "Use your Outlook/Hotmail address and password"
-    },
-    {
-      name: "Yahoo",
-      host: "smtp.mail.yahoo.com",
-      port: 587,
-      instructions: "Use your Yahoo address and an App Password"
-    },
-    {
-      name: "SendGrid",
-      host: "smtp.sendgrid.net",
-      port: 587,
-      instructions: "Use 'apikey' as username and your API key as password"
+  const verifyConnection = async () => {
+    setVerifyLoading(true)
+    setDiagnostic(null)
+    try {
+      const { data, error } = await supabase.functions.invoke('verify-smtp-connection', {
+        body: selectedProfile ? { senderProfileId: selectedProfile.id } : {
+          campaignId,
+          smtpConfig: {
+            host: host.trim(),
+            port,
+            senderEmail: senderEmail.trim(),
+            senderName: senderName.trim(),
+            transport,
+            security,
+            username: username.trim(),
+            // Empty means "use the saved password"
+            appPassword: appPassword.trim()
+          }
+        }
+      })
+
+      if (error) throw error
+
+      setDiagnostic(data)
+    } catch (error) {
+      console.error('Connection check error:', error)
+      toast({
+        title: "Connection check failed",
+        description: errorMessage(error) || "Could not run the connection check.",
+        variant: "destructive",
+      })
+    } finally {
+      setVerifyLoading(false)
     }
-  ]
+  }
 
-  const selectProvider = (provider: any) => {
+  const selectProvider = (provider: SmtpProvider) => {
+    setProfileId('custom')
+    setTransport('smtp')
     setHost(provider.host)
     setPort(provider.port)
+    setSecurity(provider.security)
+    setUsername(provider.username || '')
+    setDailyQuota(provider.dailyQuota ?? null)
+  }
+
+  const changePort = (value: number) => {
+    setPort(value)
+    setSecurity(securityForPort(value, security))
   }
 
   // Show loading state while fetching existing config
@@ -329,73 +561,193 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
               <CardDescription>Enter your email server settings</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="host">SMTP Host *</Label>
-                  <Input
-                    id="host"
-                    placeholder="smtp.gmail.com"
-                    value={host}
-                    onChange={(e) => setHost(e.target.value)}s
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="port">Port *</Label>
-                  <Input
-                    id="port"
-                    type="number"
-                    placeholder="587"
-                    value={port}
-                    onChange={(e) => setPort(parseInt(e.target.value) || 587)}
-                    min="1"
-                    max="65535"
-                  />
-                </div>
-              </div>
-
               <div className="space-y-2">
-                <Label htmlFor="senderEmail">Sender Email *</Label>
-                <Input
-                  id="senderEmail"
-                  type="email"
-                  placeholder="your-email@gmail.com"
-                  value={senderEmail}
-                  onChange={(e) => setSenderEmail(e.target.value)}
-                />
+                <Label htmlFor="senderProfile">Sender Profile</Label>
+                <Select value={profileId} onValueChange={setProfileId}>
+                  <SelectTrigger id="senderProfile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">Custom settings for this campaign</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {profiles.length === 0 && (
+                  <p className="text-xs text-gray-500">Save server settings you reuse as sender profiles in Settings.</p>
+                )}
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="senderName">Sender Name *</Label>
-                <Input
-                  id="senderName"
-                  placeholder="Your Name or Company"
-                  value={senderName}
-                  onChange={(e) => setSenderName(e.target.value)}
-                />
-              </div>
+              {selectedProfile ? (
+                <>
+                  <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+                    <p className="font-medium">{selectedProfile.sender_name} &lt;{selectedProfile.email}&gt;</p>
+                    <p className="text-gray-600">
+                      {selectedProfile.transport === 'resend' ? 'Resend API' : `${selectedProfile.host}:${selectedProfile.port}`}
+                    </p>
+                    <p className={selectedProfile.last_test_ok === false ? 'text-red-600' : 'text-gray-500'}>
+                      {describeProfileTest(selectedProfile)}
+                    </p>
+                    {selectedProfile.daily_quota && (
+                      <p className="text-gray-500">
+                        Provider quota: {selectedProfile.daily_quota.toLocaleString()} emails a day
+                      </p>
+                    )}
+                    {selectedProfile.warmup && (
+                      <p className="text-gray-500">
+                        Warming up: day {warmupDay(selectedProfile.warmup, new Date())}, up to {dailyCap(selectedProfile.warmup, new Date()).toLocaleString()} emails today
+                      </p>
+                    )}
+                  </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="appPassword">
-                  <div className="flex items-center">
-                    App Password *
-                    <Shield className="w-4 h-4 ml-1 text-amber-500" />
+                  <div className="space-y-2">
+                    <Label htmlFor="senderNameOverride">Sender Name</Label>
+                    <Input
+                      id="senderNameOverride"
+                      placeholder={selectedProfile.sender_name}
+                      value={senderName}
+                      onChange={(e) => setSenderName(e.target.value)}
+                    />
+                    <p className="text-xs text-gray-500">Leave blank to use the profile's sender name.</p>
                   </div>
-                </Label>
-                <Input
-                  id="appPassword"
-                  type="password"
-                  placeholder="Your app password"
-                  value={appPassword}
-                  onChange={(e) => setAppPassword(e.target.value)}
-                />
-                <div className="flex items-start space-x-2 p-3 bg-amber-50 rounded-lg">
-                  <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5" />
-                  <div className="text-sm text-amber-800">
-                    <p className="font-medium">Security Note:</p>
-                    <p>Use an App Password, not your regular account password. App passwords are more secure and can be revoked if needed.</p>
+
+                  {profiles.length > 1 && (
+                    <SenderPoolFields
+                      profiles={profiles}
+                      primaryId={selectedProfile.id}
+                      members={pool}
+                      strategy={senderStrategy}
+                      onMembersChange={setPool}
+                      onStrategyChange={setSenderStrategy}
+                    />
+                  )}
+                </>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="transport">Delivery Method</Label>
+                    <Select value={transport} onValueChange={(value) => setTransport(value as 'smtp' | 'resend')}>
+                      <SelectTrigger id="transport">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="smtp">SMTP server</SelectItem>
+                        <SelectItem value="resend">Resend API</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                </div>
-              </div>
+
+                  {usesSmtp && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="host">SMTP Host *</Label>
+                          <Input
+                            id="host"
+                            placeholder="smtp.gmail.com"
+                            value={host}
+                            onChange={(e) => setHost(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="port">Port *</Label>
+                          <Input
+                            id="port"
+                            type="number"
+                            placeholder="587"
+                            value={port}
+                            onChange={(e) => changePort(parseInt(e.target.value) || 587)}
+                            min="1"
+                            max="65535"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="security">Connection Security</Label>
+                        <Select value={security} onValueChange={(value) => setSecurity(value as 'starttls' | 'tls' | 'none')}>
+                          <SelectTrigger id="security">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="starttls">STARTTLS (port 587)</SelectItem>
+                            <SelectItem value="tls">SSL/TLS (port 465)</SelectItem>
+                            <SelectItem value="none">None (local testing only)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="senderEmail">Sender Email *</Label>
+                    <Input
+                      id="senderEmail"
+                      type="email"
+                      placeholder="your-email@gmail.com"
+                      value={senderEmail}
+                      onChange={(e) => setSenderEmail(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="senderName">Sender Name *</Label>
+                    <Input
+                      id="senderName"
+                      placeholder="Your Name or Company"
+                      value={senderName}
+                      onChange={(e) => setSenderName(e.target.value)}
+                    />
+                  </div>
+
+                  {usesSmtp && (
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        placeholder="Defaults to the sender email"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                      />
+                    </div>
+                  )}
+
+                  {usesSmtp && (
+                    <div className="space-y-2">
+                      <Label htmlFor="appPassword">
+                        <div className="flex items-center">
+                          App Password *
+                          <Shield className="w-4 h-4 ml-1 text-amber-500" />
+                        </div>
+                      </Label>
+                      <Input
+                        id="appPassword"
+                        type="password"
+                        placeholder={savedPassword ? "Leave blank to keep the saved password" : "Your app password"}
+                        value={appPassword}
+                        onChange={(e) => setAppPassword(e.target.value)}
+                      />
+                      {savedPassword && (
+                        <p className="text-xs text-gray-600">
+                          Saved password ending in ••••{savedPassword.last4}, updated {new Date(savedPassword.updatedAt).toLocaleString()}. It is stored encrypted and never shown again.
+                        </p>
+                      )}
+                      <div className="flex items-start space-x-2 p-3 bg-amber-50 rounded-lg">
+                        <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5" />
+                        <div className="text-sm text-amber-800">
+                          <p className="font-medium">Security Note:</p>
+                          <p>Use an App Password, not your regular account password. App passwords are more secure and can be revoked if needed.</p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  <DailyQuotaField quota={dailyQuota} onChange={setDailyQuota} idPrefix="config" />
+
+                  <WarmupPlanFields plan={warmup} onChange={setWarmup} idPrefix="config" />
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -405,6 +757,24 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
               <CardDescription>Send a test email to verify your settings</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {(selectedProfile ? selectedProfile.transport === 'smtp' : usesSmtp) && (
+                <>
+                  <Button
+                    onClick={verifyConnection}
+                    disabled={verifyLoading || !serverConfigured}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <PlugZap className="w-4 h-4 mr-2" />
+                    {verifyLoading ? "Checking..." : "Verify Connection"}
+                  </Button>
+                  <p className="text-xs text-gray-500">
+                    Connects and logs in to the server without sending an email, and shows where it fails.
+                  </p>
+                  {diagnostic && <ConnectionDiagnostics diagnostic={diagnostic} />}
+                  <Separator />
+                </>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="testEmail">Test Email Address</Label>
                 <Input
@@ -417,7 +787,7 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
               </div>
               <Button
                 onClick={sendTestEmail}
-                disabled={testLoading || !host.trim() || !senderEmail.trim() || !appPassword.trim() || !testEmail.trim()}
+                disabled={testLoading || !serverConfigured || !senderReady || !testEmail.trim()}
                 variant="outline"
                 className="w-full"
               >
@@ -444,7 +814,10 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
                     <div className="flex items-center justify-between">
                       <div>
                         <div className="font-medium text-sm">{provider.name}</div>
-                        <div className="text-xs text-gray-600">{provider.host}:{provider.port}</div>
+                        <div className="text-xs text-gray-600">
+                          {provider.host}:{provider.port}
+                          {provider.dailyQuota && ` · ${provider.dailyQuota.toLocaleString()} emails/day`}
+                        </div>
                       </div>
                       <Button variant="ghost" size="sm">
                         Use
@@ -497,7 +870,7 @@ const SMTPConfigStep: React.FC<SMTPConfigStepProps> = ({
         </Button>
         <Button
           onClick={saveConfig}
-          disabled={loading || !host.trim() || !senderEmail.trim() || !senderName.trim() || !appPassword.trim()}
+          disabled={loading || !serverConfigured || !senderReady}
           className="bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700"
         >
           {loading ? "Saving..." : "Save Configuration"}
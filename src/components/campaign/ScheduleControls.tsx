@@ -0,0 +1,132 @@
+import React, { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { CalendarClock, CalendarX } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { browserTimeZone, utcToZonedInput, zonedTimeToUtc } from '@/lib/schedule'
+import { errorMessage } from '@/lib/utils'
+import ScheduleFields from './ScheduleFields'
+
+interface ScheduleControlsProps {
+  campaignId: string
+  scheduledAt: string
+  timeZone: string | null
+  onScheduleChange: (changes: { status: string, scheduled_at: string | null, schedule_timezone: string | null }) => void
+}
+
+const ScheduleControls: React.FC<ScheduleControlsProps> = ({
+  campaignId,
+  scheduledAt,
+  timeZone,
+  onScheduleChange
+}) => {
+  const [loading, setLoading] = useState(false)
+  const [showDialog, setShowDialog] = useState(false)
+  const [zone, setZone] = useState(timeZone || browserTimeZone())
+  const [localDateTime, setLocalDateTime] = useState(utcToZonedInput(scheduledAt, timeZone || browserTimeZone()))
+  const { toast } = useToast()
+
+  const reschedule = async () => {
+    setLoading(true)
+    try {
+      const target = zonedTimeToUtc(localDateTime, zone)
+      if (target.getTime() <= Date.now()) {
+        throw new Error('Pick a time in the future')
+      }
+
+      const { data, error } = await supabase.functions.invoke('control-campaign', {
+        body: {
+          campaignId,
+          action: 'reschedule',
+          schedule: { scheduledAt: target.toISOString(), timezone: zone }
+        }
+      })
+
+      if (error) throw error
+
+      onScheduleChange({ status: data.status, scheduled_at: target.toISOString(), schedule_timezone: zone })
+      setShowDialog(false)
+
+      toast({
+        title: "Campaign rescheduled",
+        description: `Sending will start ${target.toLocaleString()}.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error rescheduling campaign",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const unschedule = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('control-campaign', {
+        body: { campaignId, action: 'unschedule' }
+      })
+
+      if (error) throw error
+
+      onScheduleChange({ status: data.status, scheduled_at: null, schedule_timezone: null })
+
+      toast({
+        title: "Campaign unscheduled",
+        description: "The campaign is back in draft. Launch or schedule it again from the editor.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error unscheduling campaign",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={loading}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Reschedule
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule Campaign</DialogTitle>
+            <DialogDescription>Choose a new time for sending to start.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <ScheduleFields
+              localDateTime={localDateTime}
+              timeZone={zone}
+              onLocalDateTimeChange={setLocalDateTime}
+              onTimeZoneChange={setZone}
+            />
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={reschedule} disabled={loading || !localDateTime}>
+                {loading ? "Saving..." : "Reschedule"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <Button variant="outline" size="sm" onClick={unschedule} disabled={loading} className="text-red-600">
+        <CalendarX className="w-4 h-4 mr-2" />
+        Unschedule
+      </Button>
+    </div>
+  )
+}
+
+export default ScheduleControls
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { listTimeZones } from '@/lib/schedule'
+
+interface ScheduleFieldsProps {
+  localDateTime: string
+  timeZone: string
+  onLocalDateTimeChange: (value: string) => void
+  onTimeZoneChange: (value: string) => void
+}
+
+const ScheduleFields: React.FC<ScheduleFieldsProps> = ({
+  localDateTime,
+  timeZone,
+  onLocalDateTimeChange,
+  onTimeZoneChange
+}) => {
+  const timeZones = useMemo(listTimeZones, [])
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="scheduledAt">Send at</Label>
+        <Input
+          id="scheduledAt"
+          type="datetime-local"
+          value={localDateTime}
+          onChange={(e) => onLocalDateTimeChange(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="scheduleTimeZone">Time zone</Label>
+        <Select value={timeZone} onValueChange={onTimeZoneChange}>
+          <SelectTrigger id="scheduleTimeZone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeZones.map((zone) => (
+              <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
+
+export default ScheduleFields
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
@@ -7,8 +7,19 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
-import { Send, ChevronRight, ChevronLeft, AlertTriangle, Rocket } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Send, ChevronRight, ChevronLeft, AlertTriangle, Rocket, Gauge, Plus, Trash2, CalendarClock, Globe, MousePointerClick, FlaskConical } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import { defaultSendingSettings, estimateSendMinutes, formatDuration, recipientDomain, recipientEmail, SendingSettings } from '@/lib/sending'
+import { browserTimeZone, defaultDeliveryWindow, DeliveryWindow, deliveryWindowProblem, formatDeliveryWindow, formatInTimeZone, zonedTimeToUtc } from '@/lib/schedule'
+import { utcDay } from '@/lib/warmup'
+import { accountKey, DailyAllowance, dailyLimit, daysToSend, hasDailyLimit, leftToday } from '@/lib/quota'
+import { errorMessage } from '@/lib/utils'
+import ScheduleFields from './ScheduleFields'
+import DeliveryWindowFields from './DeliveryWindowFields'
+import DryRunOutbox from './DryRunOutbox'
 
 interface SendEmailsStepProps {
   campaignId: string
@@ -25,33 +36,193 @@ const SendEmailsStep: React.FC<SendEmailsStepProps> = ({
 }) => {
   const [loading, setLoading] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
+  const [settings, setSettings] = useState<SendingSettings>(defaultSendingSettings)
+  const [domainLimits, setDomainLimits] = useState<{ domain: string, limit: number }[]>([])
+  const [scheduleLater, setScheduleLater] = useState(false)
+  const [scheduleLocal, setScheduleLocal] = useState('')
+  const [scheduleTimeZone, setScheduleTimeZone] = useState(browserTimeZone())
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow | null>(null)
+  const [savedRecipientCount, setSavedRecipientCount] = useState(0)
+  const [trackOpens, setTrackOpens] = useState(false)
+  const [trackClicks, setTrackClicks] = useState(false)
+  const [allowances, setAllowances] = useState<DailyAllowance[]>([])
+  const [dryRunId, setDryRunId] = useState<string | null>(null)
+  const [startingDryRun, setStartingDryRun] = useState(false)
   const { user } = useAuth()
   const { toast } = useToast()
 
+  const loadSendingSettings = useCallback(async () => {
+    const { data } = await supabase
+      .from('campaigns')
+      .select('messages_per_minute, max_concurrency, domain_limits, delivery_window, total_recipients, track_opens, track_clicks')
+      .eq('id', campaignId)
+      .single()
+
+    if (data) {
+      setSettings({
+        messagesPerMinute: data.messages_per_minute ?? defaultSendingSettings.messagesPerMinute,
+        maxConcurrency: data.max_concurrency ?? defaultSendingSettings.maxConcurrency,
+        domainLimits: data.domain_limits || {}
+      })
+      setDomainLimits(Object.entries(data.domain_limits || {}).map(([domain, limit]) => ({ domain, limit: limit as number })))
+      setDeliveryWindow(data.delivery_window || null)
+      setSavedRecipientCount(data.total_recipients || 0)
+      setTrackOpens(data.track_opens ?? false)
+      setTrackClicks(data.track_clicks ?? false)
+    }
+  }, [campaignId])
+
+  // Each sender's warm-up plan and quota, and what today's share of each already went to
+  const loadAllowances = useCallback(async () => {
+    const { data: config } = await supabase
+      .from('smtp_configs')
+      .select('id, sender_profile_id, warmup, daily_quota, transport, host, email, username')
+      .eq('campaign_id', campaignId)
+      .single()
+
+    if (!config || !user) return
+
+    const { data: members } = await supabase
+      .from('campaign_senders')
+      .select('sender_profile_id')
+      .eq('campaign_id', campaignId)
+
+    const profileIds = members?.length
+      ? members.map(member => member.sender_profile_id)
+      : config.sender_profile_id ? [config.sender_profile_id] : []
+
+    let senders = [{ warmupKey: `config:${config.id}`, sender: config }]
+    if (profileIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('sender_profiles')
+        .select('id, warmup, daily_quota, transport, host, email, username')
+        .in('id', profileIds)
+      if (!profiles) return
+      senders = profiles.map(profile => ({ warmupKey: `profile:${profile.id}`, sender: { ...config, ...profile } }))
+    }
+
+    const keyed = senders.map(({ warmupKey, sender }) => ({ warmupKey, quotaKey: accountKey(user.id, sender), sender }))
+    const { data: usage } = await supabase
+      .from('sender_daily_usage')
+      .select('sender_key, sent')
+      .in('sender_key', keyed.flatMap(({ warmupKey, quotaKey }) => [warmupKey, quotaKey]))
+      .eq('day', utcDay(new Date()))
+
+    const sentByKey = new Map((usage || []).map(row => [row.sender_key, row.sent]))
+    setAllowances(keyed.map(({ warmupKey, quotaKey, sender }) => ({
+      warmup: sender.warmup ?? null,
+      warmupSentToday: sentByKey.get(warmupKey) ?? 0,
+      dailyQuota: sender.daily_quota ?? null,
+      quotaSentToday: sentByKey.get(quotaKey) ?? 0,
+    })))
+  }, [campaignId, user])
+
+  useEffect(() => {
+    loadSendingSettings()
+    loadAllowances()
+  }, [loadSendingSettings, loadAllowances])
+
+  const updateDomainLimit = (index: number, changes: Partial<{ domain: string, limit: number }>) => {
+    const next = domainLimits.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    setDomainLimits(next)
+    setSettings(prev => ({
+      ...prev,
+      domainLimits: Object.fromEntries(
+        next.filter(entry => entry.domain.trim() && entry.limit > 0)
+          .map(entry => [recipientDomain(entry.domain), entry.limit])
+      )
+    }))
+  }
+
+  const removeDomainLimit = (index: number) => {
+    setDomainLimits(prev => prev.filter((_, i) => i !== index))
+    setSettings(prev => {
+      const { [recipientDomain(domainLimits[index].domain)]: _removed, ...rest } = prev.domainLimits
+      return { ...prev, domainLimits: rest }
+    })
+  }
+
+  const scheduledAt = scheduleLater && scheduleLocal ? zonedTimeToUtc(scheduleLocal, scheduleTimeZone) : null
+
+  // The launch and dry-run functions read these from the campaign row
+  const saveLaunchSettings = async () => {
+    const windowProblem = deliveryWindow ? deliveryWindowProblem(deliveryWindow) : null
+    if (windowProblem) {
+      throw new Error(windowProblem)
+    }
+
+    // The launch function sets the status, so a scheduled campaign is never briefly active
+    const { error: campaignError } = await supabase
+      .from('campaigns')
+      .update({
+        messages_per_minute: settings.messagesPerMinute,
+        max_concurrency: settings.maxConcurrency,
+        domain_limits: settings.domainLimits,
+        delivery_window: deliveryWindow,
+        track_opens: trackOpens,
+        track_clicks: trackClicks
+      })
+      .eq('id', campaignId)
+
+    if (campaignError) throw campaignError
+  }
+
+  // Renders every message into an outbox folder without contacting a mail server
+  const startDryRun = async () => {
+    setStartingDryRun(true)
+    try {
+      await saveLaunchSettings()
+
+      const { data, error } = await supabase.functions.invoke('dry-run-campaign', {
+        body: { campaignId }
+      })
+
+      if (error) throw error
+
+      setDryRunId(data.runId)
+      toast({
+        title: "Dry run started",
+        description: "The messages are being rendered. Nothing will be sent.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error starting dry run",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setStartingDryRun(false)
+    }
+  }
+
   const sendCampaign = async () => {
     setLoading(true)
     try {
-      // Update campaign status to active
-      const { error: campaignError } = await supabase
-        .from('campaigns')
-        .update({ status: 'active' })
-        .eq('id', campaignId)
+      if (scheduleLater && (!scheduledAt || scheduledAt.getTime() <= Date.now())) {
+        throw new Error('Pick a launch time in the future')
+      }
 
-      if (campaignError) throw campaignError
+      await saveLaunchSettings()
 
-      // Call Supabase Edge Function to start sending emails
+      // The function loads the template, recipient list and SMTP settings saved in the previous steps
       const { data, error } = await supabase.functions.invoke('send-campaign-emails', {
         body: {
           campaignId,
-          campaignData
+          schedule: scheduledAt ? { scheduledAt: scheduledAt.toISOString(), timezone: scheduleTimeZone } : undefined
         }
       })
 
       if (error) throw error
 
-      toast({
+      const skipped = data?.skippedRecipients
+        ? ` ${data.skippedRecipients} suppressed recipient(s) will be skipped.`
+        : ''
+      toast(scheduledAt ? {
+        title: "Campaign scheduled!",
+        description: `Sending starts ${formatInTimeZone(scheduledAt.toISOString(), scheduleTimeZone)}.${skipped}`,
+      } : {
         title: "Campaign launched!",
-        description: "Your email campaign has been started. Monitor progress in the logs section.",
+        description: `Your email campaign has been started. Monitor progress in the logs section.${skipped}`,
       })
 
       onNext()
@@ -67,8 +238,16 @@ const SendEmailsStep: React.FC<SendEmailsStepProps> = ({
     }
   }
 
-  const emailCount = campaignData.csvData?.length || 0
+  const emailCount = campaignData.csvData?.length || savedRecipientCount
   const placeholderCount = Object.keys(campaignData.placeholderMappings || {}).length
+  const recipientEmails = (campaignData.csvData || []).map((row: Record<string, string>) =>
+    recipientEmail(row, campaignData.placeholderMappings || {}))
+  const estimatedMinutes = estimateSendMinutes(recipientEmails, settings)
+  const estimatedCompletion = new Date((scheduledAt?.getTime() ?? Date.now()) + estimatedMinutes * 60 * 1000)
+  const launchDate = scheduledAt ?? new Date()
+  // Without a daily limit on every sender, the unlimited ones pick up whatever the others cannot
+  const limited = allowances.length > 0 && allowances.every(hasDailyLimit)
+  const sendingDays = daysToSend(allowances, emailCount, launchDate)
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -115,6 +294,38 @@ const SendEmailsStep: React.FC<SendEmailsStepProps> = ({
                 <span className="text-sm text-gray-600">SMTP Server:</span>
                 <span className="text-sm font-medium">{campaignData.smtpConfig?.host}</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Estimated duration:</span>
+                <span className="text-sm font-medium">{formatDuration(estimatedMinutes)}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600">Estimated completion:</span>
+                <span className="text-sm font-medium">
+                  {deliveryWindow ? 'Depends on the delivery window' : sendingDays > 1 ? `In about ${sendingDays} days` : estimatedCompletion.toLocaleString()}
+                </span>
+              </div>
+              {allowances.length > 1 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Sender pool:</span>
+                  <span className="text-sm font-medium">{allowances.length} profiles</span>
+                </div>
+              )}
+              {limited && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">
+                    {allowances.length > 1
+                      ? 'Pool allowance today:'
+                      : allowances[0].warmup && dailyLimit(allowances[0], new Date()) !== allowances[0].dailyQuota
+                      ? 'Warm-up cap today:'
+                      : 'Daily quota today:'}
+                  </span>
+                  <span className="text-sm font-medium">
+                    {allowances.reduce((sum, allowance) => sum + leftToday(allowance), 0).toLocaleString()} of{' '}
+                    {allowances.reduce((sum, allowance) => sum + dailyLimit(allowance, new Date()), 0).toLocaleString()} left
+                    {sendingDays > 1 && `, spread over ${sendingDays} days`}
+                  </span>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -153,6 +364,147 @@ const SendEmailsStep: React.FC<SendEmailsStepProps> = ({
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Sending Rate
+          </CardTitle>
+          <CardDescription>Match these to what your email provider allows</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="messagesPerMinute">Messages per minute</Label>
+              <Input
+                id="messagesPerMinute"
+                type="number"
+                min="1"
+                value={settings.messagesPerMinute}
+                onChange={(e) => setSettings(prev => ({ ...prev, messagesPerMinute: Math.max(1, parseInt(e.target.value) || 1) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxConcurrency">Parallel connections</Label>
+              <Input
+                id="maxConcurrency"
+                type="number"
+                min="1"
+                max="20"
+                value={settings.maxConcurrency}
+                onChange={(e) => setSettings(prev => ({ ...prev, maxConcurrency: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Per-domain limits (messages per minute)</Label>
+            {domainLimits.map((entry, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  placeholder="gmail.com"
+                  value={entry.domain}
+                  onChange={(e) => updateDomainLimit(index, { domain: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-28"
+                  value={entry.limit}
+                  onChange={(e) => updateDomainLimit(index, { limit: parseInt(e.target.value) || 0 })}
+                />
+                <Button variant="ghost" size="sm" onClick={() => removeDomainLimit(index)}>
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDomainLimits(prev => [...prev, { domain: '', limit: 20 }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add domain limit
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Delivery Window
+          </CardTitle>
+          <CardDescription>
+            Hold each email until a time of day in the recipient's own time zone
+            {!campaignData.timezoneColumn && ' (map a time zone column on the CSV step, otherwise the default time zone is used)'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="useDeliveryWindow"
+              checked={!!deliveryWindow}
+              onCheckedChange={(checked) => setDeliveryWindow(checked ? defaultDeliveryWindow() : null)}
+            />
+            <Label htmlFor="useDeliveryWindow">Only send within a delivery window</Label>
+          </div>
+          {deliveryWindow && (
+            <DeliveryWindowFields window={deliveryWindow} onChange={setDeliveryWindow} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MousePointerClick className="h-5 w-5" />
+            Tracking
+          </CardTitle>
+          <CardDescription>Record opens and clicks for the Analytics page; links still lead to the same address</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch id="trackOpens" checked={trackOpens} onCheckedChange={setTrackOpens} />
+            <Label htmlFor="trackOpens">Track opens with an invisible image</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="trackClicks" checked={trackClicks} onCheckedChange={setTrackClicks} />
+            <Label htmlFor="trackClicks">Track clicks by routing links through a redirect</Label>
+          </div>
+          {(trackOpens || trackClicks) && (
+            <p className="text-xs text-gray-500">
+              Only the HTML part is tracked. Many mail clients block or preload images, so open counts are an estimate.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Launch Time
+          </CardTitle>
+          <CardDescription>Send now or pick a time for sending to start</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch id="scheduleLater" checked={scheduleLater} onCheckedChange={setScheduleLater} />
+            <Label htmlFor="scheduleLater">Schedule for later</Label>
+          </div>
+          {scheduleLater && (
+            <ScheduleFields
+              localDateTime={scheduleLocal}
+              timeZone={scheduleTimeZone}
+              onLocalDateTimeChange={setScheduleLocal}
+              onTimeZoneChange={setScheduleTimeZone}
+            />
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Email Preview</CardTitle>
@@ -177,70 +529,91 @@ const SendEmailsStep: React.FC<SendEmailsStepProps> = ({
         </CardContent>
       </Card>
 
+      <DryRunOutbox campaignId={campaignId} runId={dryRunId} />
+
       <div className="flex justify-between">
         <Button variant="outline" onClick={onPrev}>
           <ChevronLeft className="w-4 h-4 mr-2" />
           Previous
         </Button>
         
-        <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
-          <DialogTrigger asChild>
-            <Button
-              className="bg-gradient-to-r from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700"
-              disabled={loading}
-            >
-              <Send className="w-4 h-4 mr-2" />
-              Launch Campaign
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Confirm Campaign Launch</DialogTitle>
-              <DialogDescription>
-                Are you ready to send {emailCount.toLocaleString()} emails?
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div className="p-4 bg-red-50 rounded-lg">
-                <div className="flex items-center space-x-2 mb-2">
-                  <AlertTriangle className="w-5 h-5 text-red-600" />
-                  <span className="font-medium text-red-800">Final Confirmation</span>
-                </div>
-                <p className="text-sm text-red-700">
-                  Once started, this campaign cannot be stopped. Make sure all details are correct.
-                </p>
-              </div>
-              
-              <div className="text-sm space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Total emails:</span>
-                  <span className="font-medium">{emailCount.toLocaleString()}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Template:</span>
-                  <span className="font-medium">{campaignData.template?.name}</span>
+        <div className="flex space-x-3">
+          <Button variant="outline" onClick={startDryRun} disabled={loading || startingDryRun}>
+            <FlaskConical className="w-4 h-4 mr-2" />
+            {startingDryRun ? "Starting..." : "Dry run"}
+          </Button>
+
+          <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
+            <DialogTrigger asChild>
+              <Button
+                className="bg-gradient-to-r from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700"
+                disabled={loading}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {scheduleLater ? "Schedule Campaign" : "Launch Campaign"}
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Confirm Campaign Launch</DialogTitle>
+                <DialogDescription>
+                  Are you ready to send {emailCount.toLocaleString()} emails?
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="p-4 bg-red-50 rounded-lg">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <AlertTriangle className="w-5 h-5 text-red-600" />
+                    <span className="font-medium text-red-800">Final Confirmation</span>
+                  </div>
+                  <p className="text-sm text-red-700">
+                    {scheduledAt
+                      ? `Sending starts ${formatInTimeZone(scheduledAt.toISOString(), scheduleTimeZone)}. Until then you can reschedule or unschedule it from the dashboard.`
+                      : "Sending starts immediately."} You can pause or cancel the campaign from the dashboard or the logs, but emails already sent cannot be recalled.
+                  </p>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">From:</span>
-                  <span className="font-medium">{campaignData.smtpConfig?.senderEmail}</span>
+                
+                <div className="text-sm space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total emails:</span>
+                    <span className="font-medium">{emailCount.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Template:</span>
+                    <span className="font-medium">{campaignData.template?.name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Estimated duration:</span>
+                    <span className="font-medium">{formatDuration(estimatedMinutes)}</span>
+                  </div>
+                  {deliveryWindow && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Delivery window:</span>
+                      <span className="font-medium">{formatDeliveryWindow(deliveryWindow)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">From:</span>
+                    <span className="font-medium">{campaignData.smtpConfig?.senderEmail}</span>
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex justify-end space-x-3">
-                <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
-                  Cancel
-                </Button>
-                <Button
-                  onClick={sendCampaign}
-                  disabled={loading}
-                  className="bg-red-600 hover:bg-red-700"
-                >
-                  {loading ? "Launching..." : "Yes, Send Emails"}
-                </Button>
+                <div className="flex justify-end space-x-3">
+                  <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={sendCampaign}
+                    disabled={loading}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    {loading ? "Launching..." : scheduledAt ? "Yes, Schedule Emails" : "Yes, Send Emails"}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,113 @@
+import React from 'react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { describeProfileTest, PoolMember, poolMembers, SENDER_STRATEGY_LABELS, SenderProfile, SenderStrategy } from '@/lib/providers'
+
+interface SenderPoolFieldsProps {
+  profiles: SenderProfile[]
+  // The campaign's own profile, always part of the pool
+  primaryId: string
+  members: PoolMember[]
+  strategy: SenderStrategy
+  onMembersChange: (members: PoolMember[]) => void
+  onStrategyChange: (strategy: SenderStrategy) => void
+}
+
+const SenderPoolFields: React.FC<SenderPoolFieldsProps> = ({
+  profiles,
+  primaryId,
+  members,
+  strategy,
+  onMembersChange,
+  onStrategyChange
+}) => {
+  const pool = poolMembers(primaryId, members)
+
+  const toggle = (profileId: string, checked: boolean) => {
+    onMembersChange(checked
+      ? [...pool, { profileId, weight: 1 }]
+      : pool.filter(member => member.profileId !== profileId))
+  }
+
+  const setWeight = (profileId: string, weight: number) => {
+    onMembersChange(pool.map(member => member.profileId === profileId ? { ...member, weight } : member))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Sender pool</Label>
+        <p className="text-xs text-gray-500">
+          Spread this campaign over more of your profiles. Each one keeps its own daily quota and warm-up cap,
+          and profiles whose last test failed are left out while others are healthy.
+        </p>
+      </div>
+
+      {profiles.map(profile => {
+        const member = pool.find(candidate => candidate.profileId === profile.id)
+        const primary = profile.id === primaryId
+        return (
+          <div key={profile.id} className="flex items-start gap-3 p-2 border rounded-lg">
+            <Checkbox
+              id={`pool-${profile.id}`}
+              className="mt-0.5"
+              checked={!!member}
+              disabled={primary}
+              onCheckedChange={(checked) => toggle(profile.id, checked === true)}
+            />
+            <div className="flex-1 min-w-0">
+              <Label htmlFor={`pool-${profile.id}`} className="text-sm">
+                {profile.name}{primary && ' (this campaign\'s profile)'}
+              </Label>
+              <div className="text-xs text-gray-500 truncate">
+                {profile.email}
+                {' · '}{profile.daily_quota ? `${profile.daily_quota.toLocaleString()} emails/day` : 'No daily quota'}
+                {profile.warmup && ' · warming up'}
+              </div>
+              <div className={`text-xs ${profile.last_test_ok === false ? 'text-red-600' : 'text-gray-500'}`}>
+                {describeProfileTest(profile)}
+              </div>
+            </div>
+            {member && strategy === 'weighted' && pool.length > 1 && (
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                aria-label={`Weight of ${profile.name}`}
+                value={member.weight}
+                onChange={(e) => setWeight(profile.id, Math.max(1, Math.round(Number(e.target.value)) || 1))}
+              />
+            )}
+          </div>
+        )
+      })}
+
+      {pool.length > 1 && (
+        <div className="space-y-2">
+          <Label htmlFor="senderStrategy">Distribution</Label>
+          <Select value={strategy} onValueChange={(value) => onStrategyChange(value as SenderStrategy)}>
+            <SelectTrigger id="senderStrategy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SENDER_STRATEGY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {strategy === 'weighted'
+              ? 'Each profile sends its weight\'s share of the emails.'
+              : strategy === 'domain'
+              ? 'Recipients at the same domain always hear from the same profile while it has allowance left.'
+              : 'Profiles take turns, one email each.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SenderPoolFields
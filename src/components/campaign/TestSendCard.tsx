@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { errorMessage } from '@/lib/utils'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Send, Plus, X } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface SeedAddress {
+  id: string
+  email: string
+}
+
+interface TestSendCardProps {
+  campaignId: string
+  // The CSV row shown in the preview; the test is personalized with it
+  row: Record<string, string> | null
+}
+
+const TestSendCard: React.FC<TestSendCardProps> = ({ campaignId, row }) => {
+  const [seeds, setSeeds] = useState<SeedAddress[]>([])
+  const [newSeed, setNewSeed] = useState('')
+  const [banner, setBanner] = useState(true)
+  const [sending, setSending] = useState(false)
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const fetchSeeds = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('seed_addresses')
+      .select('id, email')
+      .eq('user_id', user?.id)
+      .order('created_at')
+
+    if (error) {
+      console.error('Error loading seed addresses:', error)
+      return
+    }
+
+    setSeeds(data || [])
+  }, [user?.id])
+
+  useEffect(() => {
+    if (user) {
+      fetchSeeds()
+    }
+  }, [user, fetchSeeds])
+
+  const addSeed = async () => {
+    const email = newSeed.trim().toLowerCase()
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+    if (!emailRegex.test(email)) {
+      toast({
+        title: "Invalid email format",
+        description: "Please enter a valid email address.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('seed_addresses')
+      .insert([{ user_id: user?.id, email }])
+      .select('id, email')
+      .single()
+
+    if (error) {
+      toast({
+        title: "Error adding seed address",
+        description: error.code === '23505' ? `${email} is already on your seed list.` : error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSeeds(prev => [...prev, data])
+    setNewSeed('')
+  }
+
+  const removeSeed = async (seed: SeedAddress) => {
+    const { error } = await supabase
+      .from('seed_addresses')
+      .delete()
+      .eq('id', seed.id)
+
+    if (error) {
+      toast({
+        title: "Error removing seed address",
+        description: error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSeeds(prev => prev.filter(s => s.id !== seed.id))
+  }
+
+  const sendTest = async () => {
+    setSending(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('send-test-email', {
+        body: { campaignId, row, banner }
+      })
+
+      if (error) throw error
+
+      if (data.failed.length > 0) {
+        toast({
+          title: `Test sent to ${data.sent.length} of ${data.sent.length + data.failed.length} addresses`,
+          description: data.failed.map((f: { email: string, error: string }) => `${f.email}: ${f.error}`).join('\n'),
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Test email sent!",
+          description: `Sent to ${data.sent.join(', ')}`,
+        })
+      }
+    } catch (error) {
+      console.error('Test email error:', error)
+      toast({
+        title: "Test email failed",
+        description: errorMessage(error) || "Failed to send the test email.",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Send a Test</CardTitle>
+        <CardDescription>Send this exact email, personalized with the row above, to your seed list</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="newSeed">Seed List</Label>
+          {seeds.length === 0 ? (
+            <p className="text-xs text-gray-500">Add the internal addresses that should receive test sends.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {seeds.map(seed => (
+                <span key={seed.id} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-xs">
+                  {seed.email}
+                  <button onClick={() => removeSeed(seed)} className="text-gray-500 hover:text-red-600" aria-label={`Remove ${seed.email}`}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              id="newSeed"
+              type="email"
+              placeholder="qa@yourcompany.com"
+              value={newSeed}
+              onChange={(e) => setNewSeed(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addSeed()}
+            />
+            <Button variant="outline" onClick={addSeed} disabled={!newSeed.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="testBanner">Test banner</Label>
+            <p className="text-xs text-gray-500">Turn off to receive exactly what recipients will get</p>
+          </div>
+          <Switch id="testBanner" checked={banner} onCheckedChange={setBanner} />
+        </div>
+
+        <Button
+          onClick={sendTest}
+          disabled={sending || !row || seeds.length === 0}
+          variant="outline"
+          className="w-full"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {sending ? "Sending..." : `Send Test to ${seeds.length} ${seeds.length === 1 ? 'Address' : 'Addresses'}`}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default TestSendCard
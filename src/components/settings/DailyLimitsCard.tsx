@@ -0,0 +1,129 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Flame } from 'lucide-react'
+import { dailyCap, utcDay, warmupComplete, warmupDay, WarmupPlan } from '@/lib/warmup'
+import { accountKey } from '@/lib/quota'
+
+interface LimitedSender {
+  key: string
+  name: string
+  // Warm-up progress, or the provider quota
+  label: string
+  cap: number
+  sentToday: number
+}
+
+interface DailyLimitsCardProps {
+  // Names for campaigns whose own SMTP config has a limit
+  campaignNames: Record<string, string>
+}
+
+// Today's allowance of every warming sender and every account with a provider quota; hidden
+// when there are none
+const DailyLimitsCard: React.FC<DailyLimitsCardProps> = ({ campaignNames }) => {
+  const [senders, setSenders] = useState<LimitedSender[]>([])
+  const { user } = useAuth()
+
+  const fetchSenders = useCallback(async () => {
+    if (!user) return
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('sender_profiles')
+      .select('id, name, warmup, daily_quota, transport, host, email, username')
+      .eq('user_id', user.id)
+      .or('warmup.not.is.null,daily_quota.not.is.null')
+
+    const { data: configs, error: configsError } = await supabase
+      .from('smtp_configs')
+      .select('id, campaign_id, warmup, daily_quota, transport, host, email, username')
+      .eq('user_id', user.id)
+      .is('sender_profile_id', null)
+      .or('warmup.not.is.null,daily_quota.not.is.null')
+
+    const { data: usage, error: usageError } = await supabase
+      .from('sender_daily_usage')
+      .select('sender_key, sent')
+      .eq('user_id', user.id)
+      .eq('day', utcDay(new Date()))
+
+    if (profilesError || configsError || usageError) {
+      console.error('Error loading daily sending limits:', profilesError ?? configsError ?? usageError)
+      return
+    }
+
+    const now = new Date()
+    const warming: Omit<LimitedSender, 'sentToday'>[] = []
+    // Profiles and configs logging in to the same account share one quota row
+    const accounts = new Map<string, Omit<LimitedSender, 'sentToday'>>()
+    const add = (key: string, name: string, warmup: WarmupPlan | null, quota: number | null, account: string) => {
+      if (warmup) {
+        warming.push({
+          key,
+          name,
+          label: warmupComplete(warmup, now) ? 'Warmed up' : `Warm-up day ${warmupDay(warmup, now)}`,
+          cap: dailyCap(warmup, now),
+        })
+      }
+      if (quota) {
+        const existing = accounts.get(account)
+        accounts.set(account, existing
+          ? { ...existing, name: `${existing.name}, ${name}`, cap: Math.min(existing.cap, quota) }
+          : { key: account, name, label: 'Provider quota', cap: quota })
+      }
+    }
+
+    for (const profile of profiles || []) {
+      add(`profile:${profile.id}`, profile.name, profile.warmup, profile.daily_quota, accountKey(user.id, profile))
+    }
+    for (const config of configs || []) {
+      const name = `${config.email} (${campaignNames[config.campaign_id] || 'campaign'})`
+      add(`config:${config.id}`, name, config.warmup, config.daily_quota, accountKey(user.id, config))
+    }
+
+    const sentByKey = new Map((usage || []).map(row => [row.sender_key, row.sent]))
+    setSenders([...warming, ...accounts.values()].map(sender => ({ ...sender, sentToday: sentByKey.get(sender.key) ?? 0 })))
+  }, [campaignNames, user])
+
+  useEffect(() => {
+    if (user) {
+      fetchSenders()
+    }
+  }, [user, fetchSenders])
+
+  if (senders.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Daily Sending Limits
+        </CardTitle>
+        <CardDescription>
+          Today's allowance per sender and account (UTC day); leftover recipients wait for tomorrow
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {senders.map(sender => {
+          const remaining = Math.max(0, sender.cap - sender.sentToday)
+          return (
+            <div key={sender.key} className="space-y-1">
+              <div className="flex justify-between gap-4 text-sm">
+                <span className="font-medium truncate" title={sender.name}>{sender.name}</span>
+                <span className="text-gray-600 flex-shrink-0">
+                  {sender.label}{' · '}{remaining.toLocaleString()} of {sender.cap.toLocaleString()} left today
+                </span>
+              </div>
+              <Progress value={Math.min(100, (sender.sentToday / sender.cap) * 100)} className="h-2" />
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default DailyLimitsCard
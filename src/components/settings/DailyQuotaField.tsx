@@ -0,0 +1,33 @@
+import React from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface DailyQuotaFieldProps {
+  // null means the provider has no known daily quota
+  quota: number | null
+  onChange: (quota: number | null) => void
+  idPrefix: string
+}
+
+const DailyQuotaField: React.FC<DailyQuotaFieldProps> = ({ quota, onChange, idPrefix }) => (
+  <div className="space-y-2">
+    <Label htmlFor={`${idPrefix}DailyQuota`}>Provider daily quota</Label>
+    <Input
+      id={`${idPrefix}DailyQuota`}
+      type="number"
+      min="1"
+      placeholder="No limit"
+      value={quota ?? ''}
+      onChange={(e) => {
+        const value = Math.round(Number(e.target.value))
+        onChange(e.target.value.trim() && value > 0 ? value : null)
+      }}
+    />
+    <p className="text-xs text-gray-500">
+      Emails the account may send per day. Every campaign logging in with the same account shares it;
+      once it is used up, sending pauses and resumes at midnight UTC.
+    </p>
+  </div>
+)
+
+export default DailyQuotaField
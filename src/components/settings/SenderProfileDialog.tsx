@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { securityForPort, SenderProfile, smtpProviders } from '@/lib/providers'
+import { WarmupPlan, warmupProblem } from '@/lib/warmup'
+import { errorCode, errorMessage } from '@/lib/utils'
+import WarmupPlanFields from './WarmupPlanFields'
+import DailyQuotaField from './DailyQuotaField'
+
+interface SenderProfileDialogProps {
+  open: boolean
+  // null creates a new profile
+  profile: SenderProfile | null
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+const SenderProfileDialog: React.FC<SenderProfileDialogProps> = ({
+  open,
+  profile,
+  onOpenChange,
+  onSaved
+}) => {
+  const [name, setName] = useState('')
+  const [transport, setTransport] = useState<'smtp' | 'resend'>('smtp')
+  const [host, setHost] = useState('')
+  const [port, setPort] = useState(587)
+  const [security, setSecurity] = useState<'starttls' | 'tls' | 'none'>('starttls')
+  const [email, setEmail] = useState('')
+  const [username, setUsername] = useState('')
+  const [senderName, setSenderName] = useState('')
+  const [password, setPassword] = useState('')
+  const [warmup, setWarmup] = useState<WarmupPlan | null>(null)
+  const [dailyQuota, setDailyQuota] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (open) {
+      setName(profile?.name || '')
+      setTransport(profile?.transport || 'smtp')
+      setHost(profile?.host || '')
+      setPort(profile?.port || 587)
+      setSecurity(profile?.security || 'starttls')
+      setEmail(profile?.email || '')
+      setUsername(profile?.username || '')
+      setSenderName(profile?.sender_name || '')
+      setPassword('')
+      setWarmup(profile?.warmup ?? null)
+      setDailyQuota(profile?.daily_quota ?? null)
+    }
+  }, [open, profile])
+
+  const usesSmtp = transport === 'smtp'
+  // Editing keeps the stored password unless a new one is typed
+  const complete = name.trim() && email.trim() && senderName.trim() &&
+    (!usesSmtp || (host.trim() && (profile || password.trim()))) &&
+    !(warmup && warmupProblem(warmup))
+
+  const applyProvider = (providerName: string) => {
+    const provider = smtpProviders.find(p => p.name === providerName)
+    if (!provider) return
+    setTransport('smtp')
+    setHost(provider.host)
+    setPort(provider.port)
+    setSecurity(provider.security)
+    setUsername(provider.username || '')
+    setDailyQuota(provider.dailyQuota ?? null)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const values = {
+        user_id: user?.id,
+        name: name.trim(),
+        transport,
+        host: usesSmtp ? host.trim() : null,
+        port,
+        security,
+        email: email.trim(),
+        username: username.trim() || null,
+        sender_name: senderName.trim(),
+        warmup,
+        daily_quota: dailyQuota,
+        updated_at: new Date().toISOString()
+      }
+
+      const { data, error } = profile
+        ? await supabase.from('sender_profiles').update(values).eq('id', profile.id).select('id').single()
+        : await supabase.from('sender_profiles').insert([values]).select('id').single()
+
+      if (error) throw error
+
+      if (usesSmtp && password.trim()) {
+        const { error: credentialError } = await supabase.functions.invoke('smtp-credentials', {
+          body: { action: 'set', senderProfileId: data.id, password: password.trim() }
+        })
+
+        if (credentialError) throw credentialError
+      }
+
+      toast({
+        title: profile ? "Sender profile updated" : "Sender profile created",
+        description: `"${name.trim()}" is ready to use in your campaigns.`,
+      })
+
+      onSaved()
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: "Error saving sender profile",
+        description: errorCode(error) === '23505' ? 'You already have a profile with this name.' : errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Edit Sender Profile' : 'New Sender Profile'}</DialogTitle>
+          <DialogDescription>Save server settings once and pick them in any campaign.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Profile Name *</Label>
+            <Input
+              id="profileName"
+              placeholder="Sales Gmail"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profileTransport">Delivery Method</Label>
+              <Select value={transport} onValueChange={(value) => setTransport(value as 'smtp' | 'resend')}>
+                <SelectTrigger id="profileTransport">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="smtp">SMTP server</SelectItem>
+                  <SelectItem value="resend">Resend API</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {usesSmtp && (
+              <div className="space-y-2">
+                <Label htmlFor="profileProvider">Provider preset</Label>
+                <Select onValueChange={applyProvider}>
+                  <SelectTrigger id="profileProvider">
+                    <SelectValue placeholder="Choose a provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {smtpProviders.map((provider) => (
+                      <SelectItem key={provider.name} value={provider.name}>{provider.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {usesSmtp && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="profileHost">SMTP Host *</Label>
+                <Input
+                  id="profileHost"
+                  placeholder="smtp.gmail.com"
+                  value={host}
+                  onChange={(e) => setHost(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profilePort">Port *</Label>
+                <Input
+                  id="profilePort"
+                  type="number"
+                  min="1"
+                  max="65535"
+                  value={port}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value) || 587
+                    setPort(value)
+                    setSecurity(securityForPort(value, security))
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {usesSmtp && (
+            <div className="space-y-2">
+              <Label htmlFor="profileSecurity">Connection Security</Label>
+              <Select value={security} onValueChange={(value) => setSecurity(value as 'starttls' | 'tls' | 'none')}>
+                <SelectTrigger id="profileSecurity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="starttls">STARTTLS (port 587)</SelectItem>
+                  <SelectItem value="tls">SSL/TLS (port 465)</SelectItem>
+                  <SelectItem value="none">None (local testing only)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profileEmail">Sender Email *</Label>
+              <Input
+                id="profileEmail"
+                type="email"
+                placeholder="sales@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profileSenderName">Sender Name *</Label>
+              <Input
+                id="profileSenderName"
+                placeholder="Your Name or Company"
+                value={senderName}
+                onChange={(e) => setSenderName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {usesSmtp && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="profileUsername">Username</Label>
+                <Input
+                  id="profileUsername"
+                  placeholder="Defaults to the sender email"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profilePassword">App Password {profile ? '' : '*'}</Label>
+                <Input
+                  id="profilePassword"
+                  type="password"
+                  placeholder={profile ? "Leave blank to keep" : "Your app password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <DailyQuotaField quota={dailyQuota} onChange={setDailyQuota} idPrefix="profile" />
+
+          <WarmupPlanFields plan={warmup} onChange={setWarmup} idPrefix="profile" />
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving || !complete}>
+              {saving ? "Saving..." : "Save Profile"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SenderProfileDialog
@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Separator } from '@/components/ui/separator'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
+import { Mail, Plus, Edit2, Trash2, Send, KeyRound } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { describeProfileTest, DKIM_KEY_COLUMNS, DkimKey, SENDER_PROFILE_COLUMNS, SenderProfile } from '@/lib/providers'
+import { errorCode, errorMessage } from '@/lib/utils'
+import SenderProfileDialog from './SenderProfileDialog'
+import DkimDialog from './DkimDialog'
+
+const SenderProfiles = () => {
+  const [profiles, setProfiles] = useState<SenderProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [testing, setTesting] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<SenderProfile | null>(null)
+  const [dkimKeys, setDkimKeys] = useState<DkimKey[]>([])
+  const [dkimProfile, setDkimProfile] = useState<SenderProfile | null>(null)
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sender_profiles')
+        .select(SENDER_PROFILE_COLUMNS)
+        .eq('user_id', user?.id)
+        .order('name')
+
+      if (error) throw error
+
+      const { data: keys, error: keysError } = await supabase
+        .from('sender_dkim_keys')
+        .select(DKIM_KEY_COLUMNS)
+        .eq('user_id', user?.id)
+
+      if (keysError) throw keysError
+
+      setProfiles(data || [])
+      setDkimKeys(keys || [])
+    } catch (error) {
+      toast({
+        title: "Error loading sender profiles",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast, user?.id])
+
+  useEffect(() => {
+    if (user) {
+      fetchProfiles()
+    }
+  }, [user, fetchProfiles])
+
+  const testProfile = async (profile: SenderProfile) => {
+    setTesting(profile.id)
+    try {
+      const { data, error } = await supabase.functions.invoke('test-sender-profile', {
+        body: { senderProfileId: profile.id }
+      })
+
+      if (error) throw error
+
+      toast(data.success ? {
+        title: "Test passed",
+        description: `A test email was sent to ${user?.email} through "${profile.name}".`,
+      } : {
+        title: "Test failed",
+        description: data.error,
+        variant: "destructive",
+      })
+
+      fetchProfiles()
+    } catch (error) {
+      toast({
+        title: "Error testing sender profile",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setTesting(null)
+    }
+  }
+
+  const deleteProfile = async (profile: SenderProfile) => {
+    try {
+      const { error } = await supabase
+        .from('sender_profiles')
+        .delete()
+        .eq('id', profile.id)
+
+      if (error) throw error
+
+      setProfiles(prev => prev.filter(p => p.id !== profile.id))
+      toast({
+        title: "Sender profile deleted",
+        description: `"${profile.name}" was removed.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error deleting sender profile",
+        // Campaigns that use the profile keep it from being deleted
+        description: errorCode(error) === '23503' ? 'This profile is still used by a campaign.' : errorMessage(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const openDialog = (profile: SenderProfile | null) => {
+    setEditing(profile)
+    setDialogOpen(true)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Sender Profiles
+            </CardTitle>
+            <CardDescription>Reusable email server settings for your campaigns</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Profile
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading sender profiles...</p>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No sender profiles yet. Create one to stop re-entering SMTP settings for every campaign.
+          </p>
+        ) : (
+          profiles.map((profile, index) => (
+            <div key={profile.id}>
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{profile.name}</p>
+                    {dkimKeys.some(key => key.sender_profile_id === profile.id) && (
+                      <Badge variant="outline">DKIM</Badge>
+                    )}
+                    {profile.last_tested_at && (
+                      <Badge className={profile.last_test_ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                        {profile.last_test_ok ? 'passed' : 'failed'}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 truncate">
+                    {profile.sender_name} &lt;{profile.email}&gt; · {profile.transport === 'resend' ? 'Resend API' : `${profile.host}:${profile.port}`}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate" title={profile.last_test_error || undefined}>
+                    {describeProfileTest(profile)}
+                    {profile.last_test_ok === false && profile.last_test_error && `: ${profile.last_test_error}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => testProfile(profile)} disabled={testing === profile.id}>
+                    <Send className="w-4 h-4 mr-2" />
+                    {testing === profile.id ? "Testing..." : "Test"}
+                  </Button>
+                  {profile.transport === 'smtp' && (
+                    <Button variant="outline" size="sm" onClick={() => setDkimProfile(profile)} title="DKIM signing">
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => openDialog(profile)}>
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm" className="text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Sender Profile</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Delete "{profile.name}" and its saved password? Profiles used by a campaign cannot be deleted.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteProfile(profile)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+              {index < profiles.length - 1 && <Separator className="mt-4" />}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <SenderProfileDialog
+        open={dialogOpen}
+        profile={editing}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchProfiles}
+      />
+
+      <DkimDialog
+        open={dkimProfile !== null}
+        profile={dkimProfile}
+        dkim={dkimKeys.find(key => key.sender_profile_id === dkimProfile?.id) ?? null}
+        onOpenChange={(open) => !open && setDkimProfile(null)}
+        onChanged={fetchProfiles}
+      />
+    </Card>
+  )
+}
+
+export default SenderProfiles
@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Ban, Plus, Search, Trash2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface Suppression {
+  id: string
+  email: string
+  reason: string
+  created_at: string
+}
+
+// Only the newest entries are listed; search reaches the rest
+const PAGE_SIZE = 50
+
+const SuppressionList = () => {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([])
+  const [total, setTotal] = useState(0)
+  const [search, setSearch] = useState('')
+  const [newEmail, setNewEmail] = useState('')
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const fetchSuppressions = useCallback(async () => {
+    let query = supabase
+      .from('suppressions')
+      .select('id, email, reason, created_at', { count: 'exact' })
+      .eq('user_id', user?.id)
+      .order('created_at', { ascending: false })
+      .limit(PAGE_SIZE)
+
+    if (search.trim()) {
+      query = query.ilike('email', `%${search.trim().toLowerCase()}%`)
+    }
+
+    const { data, count, error } = await query
+
+    if (error) {
+      console.error('Error loading suppression list:', error)
+      return
+    }
+
+    setSuppressions(data || [])
+    setTotal(count ?? 0)
+  }, [search, user?.id])
+
+  useEffect(() => {
+    if (user) {
+      fetchSuppressions()
+    }
+  }, [user, search, fetchSuppressions])
+
+  const addSuppression = async () => {
+    const email = newEmail.trim().toLowerCase()
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+    if (!emailRegex.test(email)) {
+      toast({
+        title: "Invalid email format",
+        description: "Please enter a valid email address.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const { error } = await supabase
+      .from('suppressions')
+      .insert([{ user_id: user?.id, email, reason: 'manual' }])
+
+    if (error) {
+      toast({
+        title: "Error adding address",
+        description: error.code === '23505' ? `${email} is already suppressed.` : error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setNewEmail('')
+    fetchSuppressions()
+  }
+
+  const removeSuppression = async (suppression: Suppression) => {
+    const { error } = await supabase
+      .from('suppressions')
+      .delete()
+      .eq('id', suppression.id)
+
+    if (error) {
+      toast({
+        title: "Error removing address",
+        description: error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Address removed",
+      description: `${suppression.email} can receive your campaigns again.`,
+    })
+    fetchSuppressions()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="h-5 w-5" />
+          Suppression List
+        </CardTitle>
+        <CardDescription>
+          Addresses that unsubscribed, hard-bounced, complained or that you added are skipped by every campaign ({total.toLocaleString()} total)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search addresses"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Input
+            type="email"
+            placeholder="Add an address"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSuppression()}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={addSuppression} disabled={!newEmail.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {suppressions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No suppressed addresses</p>
+        ) : (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email Address</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppressions.map(suppression => (
+                  <TableRow key={suppression.id}>
+                    <TableCell className="font-medium">{suppression.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{suppression.reason}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(suppression.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => removeSuppression(suppression)} aria-label={`Remove ${suppression.email}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SuppressionList
@@ -0,0 +1,90 @@
+import React from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { dailyCap, defaultWarmupPlan, warmupDay, warmupProblem, WarmupPlan } from '@/lib/warmup'
+
+interface WarmupPlanFieldsProps {
+  // null means no warm-up: the sender has no daily cap
+  plan: WarmupPlan | null
+  onChange: (plan: WarmupPlan | null) => void
+  idPrefix: string
+}
+
+const WarmupPlanFields: React.FC<WarmupPlanFieldsProps> = ({ plan, onChange, idPrefix }) => {
+  const problem = plan ? warmupProblem(plan) : null
+  const number = (value: string, fallback: number) => {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) && value.trim() !== '' ? parsed : fallback
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${idPrefix}Warmup`}
+          checked={!!plan}
+          onCheckedChange={(checked) => onChange(checked ? defaultWarmupPlan() : null)}
+        />
+        <Label htmlFor={`${idPrefix}Warmup`}>Warm up this sender with a daily cap</Label>
+      </div>
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}WarmupStart`}>Day 1 (UTC)</Label>
+              <Input
+                id={`${idPrefix}WarmupStart`}
+                type="date"
+                value={plan.startDate}
+                onChange={(e) => onChange({ ...plan, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}WarmupInitial`}>Emails on day 1</Label>
+              <Input
+                id={`${idPrefix}WarmupInitial`}
+                type="number"
+                min="1"
+                value={plan.initialDaily}
+                onChange={(e) => onChange({ ...plan, initialDaily: Math.round(number(e.target.value, 1)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}WarmupGrowth`}>Daily growth factor</Label>
+              <Input
+                id={`${idPrefix}WarmupGrowth`}
+                type="number"
+                min="1"
+                step="0.1"
+                value={plan.growthFactor}
+                onChange={(e) => onChange({ ...plan, growthFactor: number(e.target.value, 1) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}WarmupTarget`}>Target per day</Label>
+              <Input
+                id={`${idPrefix}WarmupTarget`}
+                type="number"
+                min="1"
+                value={plan.targetDaily}
+                onChange={(e) => onChange({ ...plan, targetDaily: Math.round(number(e.target.value, 1)) })}
+              />
+            </div>
+          </div>
+          {problem ? (
+            <p className="text-sm text-red-600">{problem}</p>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Today is day {warmupDay(plan, new Date())} with a cap of {dailyCap(plan, new Date()).toLocaleString()} emails.
+              Campaigns using this sender share the cap; whatever is left over waits for the next day.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default WarmupPlanFields
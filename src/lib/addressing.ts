@@ -0,0 +1,20 @@
+import type { AddressColumns } from '@shared/addressing.ts'
+
+// The launch's own address checks, so the CSV step flags exactly the rows a launch rejects
+export {
+  checkRecipientRow,
+  isValidEmail,
+  parseAddressList,
+  recipientEmail,
+  resolveAddressing,
+  type AddressColumns,
+  type RecipientAddressing,
+} from '@shared/addressing.ts'
+
+export const ADDRESS_FIELDS: { key: keyof AddressColumns, label: string, description: string }[] = [
+  { key: 'cc', label: 'CC', description: 'One or more addresses, separated by commas or semicolons' },
+  { key: 'bcc', label: 'BCC', description: 'One or more addresses, separated by commas or semicolons' },
+  { key: 'replyTo', label: 'Reply-To', description: 'A single address replies go to' },
+  { key: 'fromName', label: 'From name', description: "Sender name for the row, e.g. the account owner" },
+  { key: 'fromEmail', label: 'From email', description: 'Sender address; your SMTP server must allow sending as it' },
+]
@@ -0,0 +1,66 @@
+// Client-side copy of the attachment rules in supabase/functions/_shared/attachments.ts.
+// The campaign-attachments function re-checks every file; these only give early feedback.
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 15 * 1024 * 1024
+export const MAX_ZIP_BYTES = 50 * 1024 * 1024
+
+export const ATTACHMENT_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'docx', 'xlsx', 'pptx', 'txt', 'csv', 'ics']
+
+export type AttachmentKind = 'campaign' | 'recipient'
+
+export interface AttachmentFile {
+  id: string
+  kind: AttachmentKind
+  filename: string
+  storage_path: string
+  content_type: string
+  size_bytes: number
+}
+
+export const cleanFilename = (name: string) => {
+  const base = name.split(/[\\/]/).pop() ?? ''
+  return [...base].filter(char => char >= ' ' && char !== '"').join('').trim().slice(0, 200)
+}
+
+export const attachmentPath = (userId: string, campaignId: string, kind: AttachmentKind, filename: string) =>
+  `${userId}/campaign-${campaignId}/${kind === 'campaign' ? 'attachments' : 'recipient-files'}/${filename}`
+
+export const recipientAttachmentName = (row: Record<string, string>, column: string | null | undefined) =>
+  column ? cleanFilename(row[column] ?? '') || null : null
+
+// Why a file cannot be attached, or null when it looks fine
+export const attachmentProblem = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  if (!file.name.includes('.') || !ATTACHMENT_EXTENSIONS.includes(extension)) {
+    return `.${extension} files cannot be attached`
+  }
+  if (file.size === 0) {
+    return 'File is empty'
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `File is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`
+  }
+  return null
+}
+
+// Names from the attachment column that have no matching file
+export const missingRecipientFiles = (
+  rows: Record<string, string>[],
+  column: string | null | undefined,
+  files: AttachmentFile[]
+) => {
+  const available = new Set(files.filter(file => file.kind === 'recipient').map(file => file.filename))
+  const missing = new Set<string>()
+  rows.forEach(row => {
+    const name = recipientAttachmentName(row, column)
+    if (name && !available.has(name)) missing.add(name)
+  })
+  return [...missing]
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
@@ -0,0 +1,153 @@
+import type { WarmupPlan } from './warmup'
+
+export interface SmtpProvider {
+  name: string
+  host: string
+  port: number
+  security: 'starttls' | 'tls' | 'none'
+  username?: string
+  // Messages a regular account may send per day; editable per config, since paid plans allow more
+  dailyQuota?: number
+  instructions: string
+}
+
+export const smtpProviders: SmtpProvider[] = [
+  {
+    name: "Gmail",
+    host: "smtp.gmail.com",
+    port: 587,
+    security: "starttls",
+    dailyQuota: 500,
+    instructions: "Use your Gmail address and an App Password (not your regular password)"
+  },
+  {
+    name: "Outlook",
+    host: "smtp-mail.outlook.com",
+    port: 587,
+    security: "starttls",
+    dailyQuota: 300,
+    instructions: "Use your Outlook/Hotmail address and password"
+  },
+  {
+    name: "Yahoo",
+    host: "smtp.mail.yahoo.com",
+    port: 587,
+    security: "starttls",
+    dailyQuota: 500,
+    instructions: "Use your Yahoo address and an App Password"
+  },
+  {
+    name: "SendGrid",
+    host: "smtp.sendgrid.net",
+    port: 587,
+    security: "starttls",
+    username: "apikey",
+    dailyQuota: 100,
+    instructions: "Use 'apikey' as username and your API key as password"
+  },
+  {
+    name: "Local Inbucket",
+    host: "host.docker.internal",
+    port: 54326,
+    security: "none",
+    instructions: "Catches mail sent from a local supabase start stack; view it at http://localhost:54325"
+  }
+]
+
+// Port 465 means implicit TLS; moving away from it falls back to STARTTLS
+export const securityForPort = (port: number, current: SmtpProvider['security']): SmtpProvider['security'] => {
+  if (port === 465) return 'tls'
+  return current === 'tls' ? 'starttls' : current
+}
+
+export interface SenderProfile {
+  id: string
+  name: string
+  transport: 'smtp' | 'resend'
+  host: string | null
+  port: number
+  security: 'starttls' | 'tls' | 'none'
+  email: string
+  username: string | null
+  sender_name: string
+  last_tested_at: string | null
+  last_test_ok: boolean | null
+  last_test_error: string | null
+  warmup: WarmupPlan | null
+  daily_quota: number | null
+}
+
+export const SENDER_PROFILE_COLUMNS =
+  'id, name, transport, host, port, security, email, username, sender_name, last_tested_at, last_test_ok, last_test_error, warmup, daily_quota'
+
+// Mirrors supabase/functions/_shared/pool.ts
+export type SenderStrategy = 'round_robin' | 'weighted' | 'domain'
+
+export const SENDER_STRATEGY_LABELS: Record<SenderStrategy, string> = {
+  round_robin: 'Round-robin',
+  weighted: 'Weighted',
+  domain: 'Same sender per recipient domain',
+}
+
+export interface PoolMember {
+  profileId: string
+  // Relative share of the sends under the weighted strategy
+  weight: number
+}
+
+// The pool as saved: the campaign's own profile first, then the others in the order they were added
+export const poolMembers = (primaryId: string, members: PoolMember[]): PoolMember[] => [
+  members.find(member => member.profileId === primaryId) ?? { profileId: primaryId, weight: 1 },
+  ...members.filter(member => member.profileId !== primaryId),
+]
+
+// The readable part of a profile's DKIM key; the private key is only sent to the sender-dkim function
+export interface DkimKey {
+  sender_profile_id: string
+  domain: string
+  selector: string
+  public_key: string
+  key_bits: number
+  last_checked_at: string | null
+  last_check_ok: boolean | null
+  last_check_error: string | null
+  updated_at: string
+}
+
+export const DKIM_KEY_COLUMNS =
+  'sender_profile_id, domain, selector, public_key, key_bits, last_checked_at, last_check_ok, last_check_error, updated_at'
+
+// Mirror supabase/functions/_shared/dkim.ts
+export const dkimRecordName = (selector: string, domain: string) => `${selector}._domainkey.${domain}`
+
+export const dkimRecord = (publicKey: string) => `v=DKIM1; k=rsa; p=${publicKey}`
+
+export const describeProfileTest = (profile: SenderProfile) => {
+  if (!profile.last_tested_at) return 'Never tested'
+  const when = new Date(profile.last_tested_at).toLocaleString()
+  return profile.last_test_ok ? `Test passed ${when}` : `Test failed ${when}`
+}
+
+// Mirrors the report returned by the verify-smtp-connection function
+export interface DiagnosticStep {
+  step: 'dns' | 'tcp' | 'tls' | 'greeting' | 'ehlo' | 'auth'
+  status: 'passed' | 'failed' | 'skipped'
+  detail: string
+  code?: number
+  durationMs: number
+}
+
+export interface ConnectionDiagnostic {
+  ok: boolean
+  steps: DiagnosticStep[]
+  hint?: string
+}
+
+export const DIAGNOSTIC_STEP_LABELS: Record<DiagnosticStep['step'], string> = {
+  dns: 'DNS lookup',
+  tcp: 'TCP connection',
+  tls: 'TLS',
+  greeting: 'Server greeting',
+  ehlo: 'EHLO',
+  auth: 'Login (AUTH)',
+}
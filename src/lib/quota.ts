@@ -0,0 +1,44 @@
+import { DAY_MS, dailyCap, utcDay, WarmupPlan } from './warmup'
+
+// The account key is the worker's own, so usage rows match. Quotas reset at UTC midnight, like
+// warm-up caps.
+export { accountKey } from '@shared/accounts.ts'
+
+// A sender's daily limits and what today's share of each already went to
+export interface DailyAllowance {
+  warmup: WarmupPlan | null
+  warmupSentToday: number
+  dailyQuota: number | null
+  quotaSentToday: number
+}
+
+export const hasDailyLimit = (allowance: DailyAllowance) => !!allowance.warmup || !!allowance.dailyQuota
+
+// Infinity when the sender has no daily limit
+export const dailyLimit = (allowance: DailyAllowance, day: Date) => Math.min(
+  allowance.warmup ? dailyCap(allowance.warmup, day) : Infinity,
+  allowance.dailyQuota ?? Infinity
+)
+
+export const leftToday = (allowance: DailyAllowance, now = new Date()) => Math.max(0, Math.min(
+  allowance.warmup ? dailyCap(allowance.warmup, now) - allowance.warmupSentToday : Infinity,
+  allowance.dailyQuota ? allowance.dailyQuota - allowance.quotaSentToday : Infinity
+))
+
+// How many days, the start day included, the senders need to send `count` emails between them.
+// Today's usage only counts when sending starts today.
+export const daysToSend = (allowances: DailyAllowance[], count: number, start = new Date()) => {
+  if (allowances.length === 0 || !allowances.every(hasDailyLimit)) return 1
+
+  const startsToday = utcDay(start) === utcDay(new Date())
+  const perDay = (day: Date) => allowances.reduce((sum, allowance) => sum + dailyLimit(allowance, day), 0)
+  let remaining = count - (startsToday ? allowances.reduce((sum, allowance) => sum + leftToday(allowance, start), 0) : perDay(start))
+  let days = 1
+  let day = new Date(start.getTime() + DAY_MS)
+  while (remaining > 0 && days < 3650) {
+    remaining -= perDay(day)
+    days++
+    day = new Date(day.getTime() + DAY_MS)
+  }
+  return days
+}
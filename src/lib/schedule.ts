@@ -0,0 +1,78 @@
+import type { DeliveryWindow } from '@shared/delivery.ts'
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const listTimeZones = (): string[] => {
+  const { supportedValuesOf } = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [browserTimeZone(), 'UTC']
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+const timeZoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'))
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+// Converts a wall-clock time as typed into <input type="datetime-local"> ("2026-10-20T09:30")
+// in the given zone to a UTC instant. The second pass corrects guesses that straddle a DST change.
+export const zonedTimeToUtc = (localDateTime: string, timeZone: string) => {
+  const [date, time] = localDateTime.split('T')
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  let instant = wallClock - timeZoneOffset(wallClock, timeZone)
+  instant = wallClock - timeZoneOffset(instant, timeZone)
+  return new Date(instant)
+}
+
+// Inverse of zonedTimeToUtc, for pre-filling a datetime-local input
+export const utcToZonedInput = (iso: string, timeZone: string) => {
+  const instant = new Date(iso).getTime()
+  return new Date(instant + timeZoneOffset(instant, timeZone)).toISOString().slice(0, 16)
+}
+
+export const formatInTimeZone = (iso: string, timeZone: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }) + ` (${timeZone})`
+
+export const formatCountdown = (target: string, now = Date.now()) => {
+  const seconds = Math.max(0, Math.floor((new Date(target).getTime() - now) / 1000))
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${seconds % 60}s`
+}
+
+// The worker's own window arithmetic, so the logs show the same holds it applies
+export { deliveryWindowProblem, isValidTimeZone, msUntilWindow, type DeliveryWindow } from '@shared/delivery.ts'
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export const defaultDeliveryWindow = (): DeliveryWindow => ({
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+  timezone: browserTimeZone(),
+})
+
+export const formatDeliveryWindow = (window: DeliveryWindow) => {
+  const days = window.days.length === 7 ? 'every day' : window.days.map(day => WEEKDAY_LABELS[day]).join(', ')
+  return `${window.start}–${window.end} recipient local time, ${days}`
+}
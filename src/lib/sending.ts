@@ -0,0 +1,41 @@
+export interface SendingSettings {
+  messagesPerMinute: number
+  maxConcurrency: number
+  domainLimits: Record<string, number>
+}
+
+export const defaultSendingSettings: SendingSettings = {
+  messagesPerMinute: 60,
+  maxConcurrency: 1,
+  domainLimits: {},
+}
+
+export { recipientEmail } from '@shared/addressing.ts'
+
+export const recipientDomain = (email: string) =>
+  (email || '').split('@').pop()?.trim().toLowerCase() || ''
+
+// The campaign finishes no sooner than the overall rate allows, and no sooner than
+// its slowest throttled domain can drain.
+export const estimateSendMinutes = (emails: string[], settings: SendingSettings) => {
+  const domainCounts: Record<string, number> = {}
+  emails.forEach(email => {
+    const domain = recipientDomain(email)
+    domainCounts[domain] = (domainCounts[domain] || 0) + 1
+  })
+
+  const overall = emails.length / Math.max(1, settings.messagesPerMinute)
+  const slowestDomain = Object.entries(settings.domainLimits).reduce((slowest, [domain, limit]) =>
+    Math.max(slowest, (domainCounts[domain] || 0) / Math.max(1, limit)), 0)
+
+  return Math.max(overall, slowestDomain)
+}
+
+export const formatDuration = (minutes: number) => {
+  if (minutes < 1) return 'less than a minute'
+  const total = Math.ceil(minutes)
+  const hours = Math.floor(total / 60)
+  const rest = total % 60
+  if (hours === 0) return `${rest} min`
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`
+}
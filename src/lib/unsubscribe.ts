@@ -0,0 +1,8 @@
+import { supabaseUrl } from './supabase'
+
+// Filled in by the send functions with each recipient's signed opt-out link, so it is never
+// mapped to a CSV column
+export const UNSUBSCRIBE_PLACEHOLDER = '{{unsubscribe_url}}'
+
+// The link test sends use; opening it explains that nothing was changed
+export const UNSUBSCRIBE_PREVIEW_URL = `${supabaseUrl}/functions/v1/unsubscribe?token=test`
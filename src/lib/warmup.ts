@@ -0,0 +1,21 @@
+import { dailyCap, utcDay, type WarmupPlan } from '@shared/warmup.ts'
+
+// The plan arithmetic is the worker's own; this adds the helpers only the UI needs
+export { DAY_MS, dailyCap, utcDay, warmupDay, type WarmupPlan } from '@shared/warmup.ts'
+
+export const defaultWarmupPlan = (): WarmupPlan => ({
+  startDate: utcDay(new Date()),
+  initialDaily: 50,
+  growthFactor: 2,
+  targetDaily: 2000,
+})
+
+export const warmupComplete = (plan: WarmupPlan, now: Date) => dailyCap(plan, now) >= plan.targetDaily
+
+export const warmupProblem = (plan: WarmupPlan) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(plan.startDate)) return 'Pick a start date'
+  if (plan.initialDaily < 1) return 'The first day needs at least one email'
+  if (plan.growthFactor < 1) return 'The daily growth factor must be at least 1'
+  if (plan.targetDaily < plan.initialDaily) return 'The target must be at least the first day\'s volume'
+  return null
+}
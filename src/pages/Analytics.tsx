@@ -1,9 +1,90 @@
-
-import React from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { errorMessage } from '@/lib/utils'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { BarChart3, TrendingUp, Users, Mail } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { BarChart3, Eye, MousePointerClick, Mail } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface CampaignPerformance {
+  id: string
+  name: string
+  sent: number
+  trackOpens: boolean
+  trackClicks: boolean
+  uniqueOpens: number
+  uniqueClicks: number
+  totalClicks: number
+}
+
+// Rates only count campaigns that had the tracking turned on
+const rate = (count: number, sent: number) => sent > 0 ? Math.round((count / sent) * 100) : 0
 
 const Analytics = () => {
+  const [campaigns, setCampaigns] = useState<CampaignPerformance[]>([])
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      const { data: campaignRows, error: campaignError } = await supabase
+        .from('campaigns')
+        .select('id, name, sent_count, track_opens, track_clicks')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+
+      if (campaignError) throw campaignError
+
+      const { data: engagement, error: engagementError } = await supabase
+        .from('campaign_engagement')
+        .select('campaign_id, unique_opens, unique_clicks, total_clicks')
+        .eq('user_id', user?.id)
+
+      if (engagementError) throw engagementError
+
+      const byCampaign = new Map((engagement || []).map(row => [row.campaign_id, row]))
+      setCampaigns((campaignRows || []).map(campaign => {
+        const events = byCampaign.get(campaign.id)
+        return {
+          id: campaign.id,
+          name: campaign.name,
+          sent: campaign.sent_count || 0,
+          trackOpens: campaign.track_opens ?? false,
+          trackClicks: campaign.track_clicks ?? false,
+          uniqueOpens: events?.unique_opens || 0,
+          uniqueClicks: events?.unique_clicks || 0,
+          totalClicks: events?.total_clicks || 0,
+        }
+      }))
+    } catch (error) {
+      toast({
+        title: "Error loading analytics",
+        description: errorMessage(error),
+        variant: "destructive",
+      })
+    }
+  }, [toast, user?.id])
+
+  useEffect(() => {
+    if (user) {
+      fetchAnalytics()
+    }
+  }, [user, fetchAnalytics])
+
+  const totalSent = campaigns.reduce((sum, c) => sum + c.sent, 0)
+  const openTracked = campaigns.filter(c => c.trackOpens)
+  const clickTracked = campaigns.filter(c => c.trackClicks)
+  const openRate = rate(
+    openTracked.reduce((sum, c) => sum + c.uniqueOpens, 0),
+    openTracked.reduce((sum, c) => sum + c.sent, 0)
+  )
+  const clickRate = rate(
+    clickTracked.reduce((sum, c) => sum + c.uniqueClicks, 0),
+    clickTracked.reduce((sum, c) => sum + c.sent, 0)
+  )
+  const sentCampaigns = campaigns.filter(c => c.sent > 0)
+
   return (
     <div className="p-6 space-y-6">
       <div>
@@ -18,8 +99,10 @@ const Analytics = () => {
             <BarChart3 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">No campaigns yet</p>
+            <div className="text-2xl font-bold">{campaigns.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {campaigns.length === 0 ? 'No campaigns yet' : `${sentCampaigns.length} with emails sent`}
+            </p>
           </CardContent>
         </Card>
 
@@ -29,30 +112,34 @@ const Analytics = () => {
             <Mail className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">No emails sent yet</p>
+            <div className="text-2xl font-bold">{totalSent.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{totalSent === 0 ? 'No emails sent yet' : 'Across all campaigns'}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Open Rate</CardTitle>
+            <Eye className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0%</div>
-            <p className="text-xs text-muted-foreground">No data available</p>
+            <div className="text-2xl font-bold">{openRate}%</div>
+            <p className="text-xs text-muted-foreground">
+              {openTracked.length === 0 ? 'No campaigns track opens' : `Unique opens in ${openTracked.length} tracked campaign(s)`}
+            </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Recipients</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Click Rate</CardTitle>
+            <MousePointerClick className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">No recipients yet</p>
+            <div className="text-2xl font-bold">{clickRate}%</div>
+            <p className="text-xs text-muted-foreground">
+              {clickTracked.length === 0 ? 'No campaigns track clicks' : `Unique clicks in ${clickTracked.length} tracked campaign(s)`}
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -60,15 +147,56 @@ const Analytics = () => {
       <Card>
         <CardHeader>
           <CardTitle>Campaign Performance</CardTitle>
-          <CardDescription>Detailed analytics will be available once you create campaigns</CardDescription>
+          <CardDescription>
+            {sentCampaigns.length === 0
+              ? 'Detailed analytics will be available once you send campaigns'
+              : 'Opens and clicks are counted once per recipient; turn tracking on when launching a campaign'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="flex items-center justify-center h-64 text-gray-500">
-            <div className="text-center">
-              <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No campaign data to display</p>
+          {sentCampaigns.length === 0 ? (
+            <div className="flex items-center justify-center h-64 text-gray-500">
+              <div className="text-center">
+                <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No campaign data to display</p>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead className="text-right">Sent</TableHead>
+                    <TableHead className="text-right">Opened</TableHead>
+                    <TableHead className="text-right">Clicked</TableHead>
+                    <TableHead className="text-right">Total Clicks</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sentCampaigns.map(campaign => (
+                    <TableRow key={campaign.id}>
+                      <TableCell className="font-medium">{campaign.name}</TableCell>
+                      <TableCell className="text-right">{campaign.sent.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {campaign.trackOpens
+                          ? `${campaign.uniqueOpens.toLocaleString()} (${rate(campaign.uniqueOpens, campaign.sent)}%)`
+                          : 'Not tracked'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {campaign.trackClicks
+                          ? `${campaign.uniqueClicks.toLocaleString()} (${rate(campaign.uniqueClicks, campaign.sent)}%)`
+                          : 'Not tracked'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {campaign.trackClicks ? campaign.totalClicks.toLocaleString() : '–'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
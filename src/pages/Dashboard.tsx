@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
@@ -9,17 +9,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
-import { Plus, Mail, Calendar, BarChart, TrendingUp, Edit2, Trash2, Check, X } from 'lucide-react'
+import { Plus, Mail, Calendar, BarChart, TrendingUp, Edit2, Trash2, Check, X, Clock } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
+import CampaignControls from '@/components/campaign/CampaignControls'
+import ScheduleControls from '@/components/campaign/ScheduleControls'
+import DailyLimitsCard from '@/components/settings/DailyLimitsCard'
+import { formatCountdown, formatInTimeZone } from '@/lib/schedule'
 
 interface Campaign {
   id: string
   name: string
-  status: 'draft' | 'active' | 'completed' | 'paused'
+  status: 'draft' | 'scheduled' | 'active' | 'completed' | 'paused' | 'cancelled'
   created_at: string
-  total_emails?: number
-  sent_emails?: number
-  failed_emails?: number
+  scheduled_at?: string | null
+  schedule_timezone?: string | null
+  total_recipients?: number
+  sent_count?: number
+  failed_count?: number
+  waiting_until?: string | null
+  waiting_reason?: 'warmup' | 'quota' | null
 }
 
 const Dashboard = () => {
@@ -27,6 +35,7 @@ const Dashboard = () => {
   const [loading, setLoading] = useState(true)
   const [editingCampaign, setEditingCampaign] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
+  const [now, setNow] = useState(Date.now())
   const [stats, setStats] = useState({
     totalCampaigns: 0,
     activeCampaigns: 0,
@@ -43,6 +52,18 @@ const Dashboard = () => {
     }
   }, [user])
 
+  // Tick the countdowns only while something is scheduled or waiting for a daily allowance
+  const hasCountdown = campaigns.some(c => c.status === 'scheduled' || (c.status === 'active' && c.waiting_until))
+  useEffect(() => {
+    if (!hasCountdown) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [hasCountdown])
+
+  // Kept stable across the countdown ticks, so the daily limits card only reloads when the
+  // campaigns change
+  const campaignNames = useMemo(() => Object.fromEntries(campaigns.map(c => [c.id, c.name])), [campaigns])
+
   const fetchCampaigns = async () => {
     try {
       const { data, error } = await supabase
@@ -58,8 +79,8 @@ const Dashboard = () => {
       // Calculate stats
       const totalCampaigns = data?.length || 0
       const activeCampaigns = data?.filter(c => c.status === 'active').length || 0
-      const totalEmailsSent = data?.reduce((sum, c) => sum + (c.sent_emails || 0), 0) || 0
-      const totalEmails = data?.reduce((sum, c) => sum + (c.total_emails || 0), 0) || 0
+      const totalEmailsSent = data?.reduce((sum, c) => sum + (c.sent_count || 0), 0) || 0
+      const totalEmails = data?.reduce((sum, c) => sum + (c.total_recipients || 0), 0) || 0
       const successRate = totalEmails > 0 ? Math.round((totalEmailsSent / totalEmails) * 100) : 0
 
       setStats({
@@ -169,10 +190,14 @@ const Dashboard = () => {
     switch (status) {
       case 'active':
         return 'bg-green-100 text-green-800 hover:bg-green-200'
+      case 'scheduled':
+        return 'bg-purple-100 text-purple-800 hover:bg-purple-200'
       case 'completed':
         return 'bg-blue-100 text-blue-800 hover:bg-blue-200'
       case 'paused':
         return 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+      case 'cancelled':
+        return 'bg-red-100 text-red-800 hover:bg-red-200'
       default:
         return 'bg-gray-100 text-gray-800 hover:bg-gray-200'
     }
@@ -281,6 +306,8 @@ const Dashboard = () => {
         </motion.div>
       </div>
 
+      <DailyLimitsCard campaignNames={campaignNames} />
+
       {/* Campaigns List */}
       <div>
         <div className="flex items-center justify-between mb-4">
@@ -423,24 +450,69 @@ const Dashboard = () => {
                       onClick={() => navigate(`/campaign/${campaign.id}`)}
                     >
                       <div className="space-y-2">
-                        {campaign.total_emails && (
+                        {campaign.status === 'scheduled' && campaign.scheduled_at && (
+                          <div className="space-y-2 p-2 bg-purple-50 rounded-lg">
+                            <div className="flex justify-between text-xs md:text-sm">
+                              <span className="flex items-center text-purple-700">
+                                <Clock className="w-3 h-3 md:w-4 md:h-4 mr-1" />
+                                Starts in
+                              </span>
+                              <span className="font-medium text-purple-800">
+                                {new Date(campaign.scheduled_at).getTime() > now
+                                  ? formatCountdown(campaign.scheduled_at, now)
+                                  : 'starting...'}
+                              </span>
+                            </div>
+                            <div className="text-xs text-purple-700">
+                              {formatInTimeZone(campaign.scheduled_at, campaign.schedule_timezone || 'UTC')}
+                            </div>
+                            <ScheduleControls
+                              key={campaign.scheduled_at}
+                              campaignId={campaign.id}
+                              scheduledAt={campaign.scheduled_at}
+                              timeZone={campaign.schedule_timezone ?? null}
+                              onScheduleChange={(changes) => setCampaigns(prev => prev.map(c =>
+                                c.id === campaign.id ? { ...c, ...changes, status: changes.status as Campaign['status'] } : c
+                              ))}
+                            />
+                          </div>
+                        )}
+                        {campaign.status === 'active' && campaign.waiting_until && new Date(campaign.waiting_until).getTime() > now && (
+                          <div className="flex justify-between text-xs md:text-sm p-2 bg-amber-50 rounded-lg">
+                            <span className="flex items-center text-amber-700">
+                              <Clock className="w-3 h-3 md:w-4 md:h-4 mr-1" />
+                              {campaign.waiting_reason === 'quota' ? 'Daily quota used up' : 'Warm-up cap reached'}
+                            </span>
+                            <span className="font-medium text-amber-800">
+                              Resumes in {formatCountdown(campaign.waiting_until, now)}
+                            </span>
+                          </div>
+                        )}
+                        {campaign.total_recipients > 0 && (
                           <div className="flex justify-between text-xs md:text-sm">
                             <span className="text-gray-600">Total emails:</span>
-                            <span className="font-medium">{campaign.total_emails.toLocaleString()}</span>
+                            <span className="font-medium">{campaign.total_recipients.toLocaleString()}</span>
                           </div>
                         )}
-                        {campaign.sent_emails && (
+                        {campaign.sent_count > 0 && (
                           <div className="flex justify-between text-xs md:text-sm">
                             <span className="text-gray-600">Sent:</span>
-                            <span className="font-medium text-green-600">{campaign.sent_emails.toLocaleString()}</span>
+                            <span className="font-medium text-green-600">{campaign.sent_count.toLocaleString()}</span>
                           </div>
                         )}
-                        {campaign.failed_emails && campaign.failed_emails > 0 && (
+                        {campaign.failed_count > 0 && (
                           <div className="flex justify-between text-xs md:text-sm">
                             <span className="text-gray-600">Failed:</span>
-                            <span className="font-medium text-red-600">{campaign.failed_emails.toLocaleString()}</span>
+                            <span className="font-medium text-red-600">{campaign.failed_count.toLocaleString()}</span>
                           </div>
                         )}
+                        <CampaignControls
+                          campaignId={campaign.id}
+                          status={campaign.status}
+                          onStatusChange={(status) => setCampaigns(prev => prev.map(c =>
+                            c.id === campaign.id ? { ...c, status: status as Campaign['status'] } : c
+                          ))}
+                        />
                       </div>
                     </CardContent>
                   )}
@@ -7,6 +7,8 @@ import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { useAuth } from '@/contexts/AuthContext'
 import { Settings as SettingsIcon, User, Bell, Shield } from 'lucide-react'
+import SenderProfiles from '@/components/settings/SenderProfiles'
+import SuppressionList from '@/components/settings/SuppressionList'
 
 const Settings = () => {
   const { user } = useAuth()
@@ -51,6 +53,10 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        <SenderProfiles />
+
+        <SuppressionList />
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
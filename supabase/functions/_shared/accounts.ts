@@ -0,0 +1,17 @@
+// Also imported by src/lib/quota.ts, so it must not use Deno APIs or URL imports.
+
+export interface SenderAccount {
+  transport: string
+  host: string | null
+  email: string
+  username: string | null
+}
+
+// Every profile and config that logs in with the same credentials shares one quota counter:
+// "account:<user id>:<host>:<login>"
+export function accountKey(userId: string, account: SenderAccount): string {
+  const login = account.transport === 'resend'
+    ? 'resend'
+    : `${account.host ?? ''}:${account.username || account.email}`
+  return `account:${userId}:${login}`.toLowerCase()
+}
@@ -0,0 +1,114 @@
+// Also imported by src/lib/addressing.ts so the CSV step flags exactly the rows a launch
+// rejects; it must not use Deno APIs or URL imports.
+
+export interface MailAddress {
+  email: string
+  name?: string
+}
+
+// CSV columns holding per-row addressing; every field is optional
+export interface AddressColumns {
+  cc?: string
+  bcc?: string
+  replyTo?: string
+  fromName?: string
+  fromEmail?: string
+}
+
+// Resolved addressing stored on each recipient row when the campaign is queued
+export interface RecipientAddressing {
+  cc: string[]
+  bcc: string[]
+  reply_to: string | null
+  from_email: string | null
+  from_name: string | null
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email)
+}
+
+// A cell may hold several addresses separated by commas, semicolons or spaces
+export function parseAddressList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[\s,;]+/)
+    .map((address) => address.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+// The recipient's own address: the column mapped to {{email}}, else an "email" column
+export function recipientEmail(row: Record<string, string>, placeholderMappings: Record<string, string>): string {
+  return row[placeholderMappings['{{email}}'] || 'email'] || row.email
+}
+
+// Header values must not carry line breaks
+function cleanName(value: string | undefined): string | null {
+  return (value ?? '').replace(/[\r\n]+/g, ' ').trim() || null
+}
+
+// Throws with the offending value when a mapped column holds an invalid address
+export function resolveAddressing(row: Record<string, string>, columns: AddressColumns): RecipientAddressing {
+  const list = (column?: string) => column ? parseAddressList(row[column]) : []
+  const single = (column?: string, label?: string) => {
+    const addresses = list(column)
+    if (addresses.length > 1) {
+      throw new Error(`${label} must be a single address, got "${row[column!]}"`)
+    }
+    return addresses[0] ?? null
+  }
+
+  const addressing: RecipientAddressing = {
+    cc: list(columns.cc),
+    bcc: list(columns.bcc),
+    reply_to: single(columns.replyTo, 'Reply-To'),
+    from_email: single(columns.fromEmail, 'From email'),
+    from_name: columns.fromName ? cleanName(row[columns.fromName]) : null,
+  }
+
+  const invalid = [...addressing.cc, ...addressing.bcc, addressing.reply_to, addressing.from_email]
+    .filter((address): address is string => !!address && !isValidEmail(address))
+  if (invalid.length > 0) {
+    throw new Error(`Invalid address: ${invalid.join(', ')}`)
+  }
+
+  return addressing
+}
+
+// The launch checks for one CSV row: its main address, then the mapped addressing columns.
+// Dry runs use the same checks, so they reject exactly the rows a launch would. Returns the
+// row's addressing, or why the row cannot be sent.
+export function checkRecipientRow(
+  email: string | undefined,
+  row: Record<string, string>,
+  columns: AddressColumns
+): RecipientAddressing | string {
+  if (!email) {
+    return 'No email address'
+  }
+  if (!isValidEmail(email)) {
+    return 'Not a valid email address'
+  }
+  try {
+    return resolveAddressing(row, columns)
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+// The per-row sender replaces the campaign's; a name without an email keeps the campaign address
+export function messageAddressing(
+  addressing: { [K in keyof RecipientAddressing]?: RecipientAddressing[K] | null },
+  defaultFrom: MailAddress
+): { from: MailAddress, cc: MailAddress[], bcc: MailAddress[], replyTo?: MailAddress } {
+  return {
+    from: {
+      email: addressing.from_email || defaultFrom.email,
+      name: addressing.from_name || (addressing.from_email ? undefined : defaultFrom.name),
+    },
+    cc: (addressing.cc ?? []).map((email) => ({ email })),
+    bcc: (addressing.bcc ?? []).map((email) => ({ email })),
+    replyTo: addressing.reply_to ? { email: addressing.reply_to } : undefined,
+  }
+}
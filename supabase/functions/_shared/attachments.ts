@@ -0,0 +1,183 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import type { MessageAttachment } from "./mime.ts"
+
+// Raw sizes; base64 adds about a third on the wire, and most providers cap messages at 20-25 MB
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 15 * 1024 * 1024
+export const MAX_ZIP_BYTES = 50 * 1024 * 1024
+
+export type AttachmentKind = 'campaign' | 'recipient'
+
+export interface AttachmentFile {
+  id: string
+  kind: AttachmentKind
+  filename: string
+  storage_path: string
+  content_type: string
+  size_bytes: number
+}
+
+export const ATTACHMENT_COLUMNS = 'id, kind, filename, storage_path, content_type, size_bytes'
+
+const PK = [0x50, 0x4b, 0x03, 0x04]
+
+// Allowed file types by extension, with the leading bytes the content must start with.
+// 'text' accepts anything without NUL bytes.
+const ATTACHMENT_TYPES: Record<string, { contentType: string, signature: number[] | 'text' }> = {
+  pdf: { contentType: 'application/pdf', signature: [0x25, 0x50, 0x44, 0x46] },
+  png: { contentType: 'image/png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  jpg: { contentType: 'image/jpeg', signature: [0xff, 0xd8, 0xff] },
+  jpeg: { contentType: 'image/jpeg', signature: [0xff, 0xd8, 0xff] },
+  gif: { contentType: 'image/gif', signature: [0x47, 0x49, 0x46, 0x38] },
+  docx: { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', signature: PK },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', signature: PK },
+  pptx: { contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', signature: PK },
+  txt: { contentType: 'text/plain', signature: 'text' },
+  csv: { contentType: 'text/csv', signature: 'text' },
+  ics: { contentType: 'text/calendar', signature: 'text' },
+}
+
+// Strips any directories (zip entries keep theirs) and characters that break MIME headers
+export function cleanFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? ''
+  return [...base].filter((char) => char >= ' ' && char !== '"').join('').trim().slice(0, 200)
+}
+
+// Returns the content type for a file that may be attached, or throws with the reason it may not
+export function checkAttachment(filename: string, content: Uint8Array): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? ''
+  const type = ATTACHMENT_TYPES[extension]
+  if (!type || !filename.includes('.')) {
+    throw new Error(`.${extension} files cannot be attached (allowed: ${Object.keys(ATTACHMENT_TYPES).join(', ')})`)
+  }
+
+  if (content.length === 0) {
+    throw new Error('File is empty')
+  }
+
+  if (content.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`File is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`)
+  }
+
+  const matches = type.signature === 'text'
+    ? !content.subarray(0, 8192).includes(0)
+    : type.signature.every((byte, index) => content[index] === byte)
+  if (!matches) {
+    throw new Error(`Content does not look like a .${extension} file`)
+  }
+
+  return type.contentType
+}
+
+export function attachmentPath(userId: string, campaignId: string, kind: AttachmentKind, filename: string): string {
+  return `${userId}/campaign-${campaignId}/${kind === 'campaign' ? 'attachments' : 'recipient-files'}/${filename}`
+}
+
+export async function loadCampaignAttachments(supabase: SupabaseClient, campaignId: string): Promise<AttachmentFile[]> {
+  const { data, error } = await supabase
+    .from('campaign_attachments')
+    .select(ATTACHMENT_COLUMNS)
+    .eq('campaign_id', campaignId)
+    .order('filename')
+
+  if (error) {
+    console.error('Error loading attachments:', error)
+    throw new Error('Failed to load attachments')
+  }
+
+  return data ?? []
+}
+
+export function recipientAttachmentName(row: Record<string, string>, column: string | null): string | null {
+  return column ? cleanFilename(row[column] ?? '') || null : null
+}
+
+// Rejects a launch where a recipient's file is missing or a message would exceed the size limit.
+// Rows with an empty attachment column just get the campaign-wide files.
+export function checkCampaignAttachments(
+  files: AttachmentFile[],
+  column: string | null,
+  rows: Record<string, string>[]
+): void {
+  const shared = files.filter((file) => file.kind === 'campaign')
+  const sharedBytes = shared.reduce((total, file) => total + file.size_bytes, 0)
+  if (sharedBytes > MAX_MESSAGE_ATTACHMENT_BYTES) {
+    throw new Error(`Campaign attachments add up to more than ${MAX_MESSAGE_ATTACHMENT_BYTES / 1024 / 1024} MB`)
+  }
+
+  if (!column) return
+
+  const byName = new Map(files.filter((file) => file.kind === 'recipient').map((file) => [file.filename, file]))
+  const missing = new Set<string>()
+  const tooLarge = new Set<string>()
+  for (const row of rows) {
+    const name = recipientAttachmentName(row, column)
+    if (!name) continue
+    const file = byName.get(name)
+    if (!file) {
+      missing.add(name)
+    } else if (sharedBytes + file.size_bytes > MAX_MESSAGE_ATTACHMENT_BYTES) {
+      tooLarge.add(name)
+    }
+  }
+
+  if (missing.size > 0) {
+    const names = [...missing]
+    throw new Error(`${names.length} file(s) named in the "${column}" column are not in the uploaded zip: ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', …' : ''}`)
+  }
+
+  if (tooLarge.size > 0) {
+    throw new Error(`With the campaign attachments, these files make a message larger than ${MAX_MESSAGE_ATTACHMENT_BYTES / 1024 / 1024} MB: ${[...tooLarge].slice(0, 5).join(', ')}`)
+  }
+}
+
+export async function downloadAttachment(supabase: SupabaseClient, path: string): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage
+    .from('campaigns')
+    .download(path)
+
+  if (error || !data) {
+    console.error(`Error downloading attachment ${path}:`, error)
+    throw new Error(`Failed to load attachment ${path.split('/').pop()}`)
+  }
+
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+// Returns the attachments for a recipient's row. Campaign-wide files are downloaded once per
+// worker run; per-recipient files on each call.
+export function createAttachmentLoader(
+  supabase: SupabaseClient,
+  files: AttachmentFile[],
+  column: string | null
+): (row: Record<string, string>) => Promise<MessageAttachment[]> {
+  const shared = files.filter((file) => file.kind === 'campaign')
+  const byName = new Map(files.filter((file) => file.kind === 'recipient').map((file) => [file.filename, file]))
+  let sharedContent: Promise<MessageAttachment[]> | null = null
+
+  const load = async (file: AttachmentFile): Promise<MessageAttachment> => ({
+    filename: file.filename,
+    contentType: file.content_type,
+    content: await downloadAttachment(supabase, file.storage_path),
+  })
+
+  return async (row) => {
+    // A failed download is retried by the next send instead of failing every recipient
+    sharedContent ??= Promise.all(shared.map(load)).catch((error) => {
+      sharedContent = null
+      throw error
+    })
+    const attachments = [...await sharedContent]
+
+    const name = recipientAttachmentName(row, column)
+    if (name) {
+      const file = byName.get(name)
+      if (!file) {
+        throw new Error(`Attachment ${name} is not in the uploaded zip`)
+      }
+      attachments.push(await load(file))
+    }
+
+    return attachments
+  }
+}
@@ -0,0 +1,280 @@
+import { parse } from "https://deno.land/std@0.190.0/csv/parse.ts"
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { messageAddressing, type RecipientAddressing } from "./addressing.ts"
+import { loadCampaignAttachments, type AttachmentFile } from "./attachments.ts"
+import { bodyToHtml, htmlToText, type BodyFormat } from "./content.ts"
+import { loadSmtpPassword } from "./credentials.ts"
+import type { PoolSender, SenderStrategy } from "./pool.ts"
+import { loadSenderProfile } from "./profiles.ts"
+import type { DeliveryWindow } from "./delivery.ts"
+import type { MessageAttachment, OutgoingMessage } from "./mime.ts"
+import type { ThrottleSettings } from "./throttle.ts"
+import { applyTracking, type TrackingSettings } from "./tracking.ts"
+import { UNSUBSCRIBE_PLACEHOLDER, unsubscribeHeaders, unsubscribeUrl } from "./unsubscribe.ts"
+import { loadSenderLimits, senderLimits } from "./quota.ts"
+import type { TransportConfig } from "./transports/index.ts"
+
+export interface CampaignTemplate {
+  subject: string
+  body: string
+  body_format?: BodyFormat
+  // Hand-written plain-text part; generated from the HTML when empty
+  text_body?: string | null
+}
+
+export interface CampaignContext {
+  template: CampaignTemplate
+  placeholderMappings: Record<string, string>
+  // One sender, or the campaign's sender pool
+  senders: PoolSender[]
+  senderStrategy: SenderStrategy
+  throttle: ThrottleSettings
+  deliveryWindow: DeliveryWindow | null
+  attachments: AttachmentFile[]
+  // CSV column naming each recipient's file from the uploaded zip
+  attachmentColumn: string | null
+  tracking: TrackingSettings
+}
+
+export type CsvRow = Record<string, string>
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// `values` fills placeholders that do not come from the CSV, such as the unsubscribe link
+export function personalize(
+  text: string,
+  placeholderMappings: Record<string, string>,
+  row: CsvRow,
+  values: Record<string, string> = {}
+): string {
+  let result = text
+  Object.entries(placeholderMappings).forEach(([placeholder, csvColumn]) => {
+    const value = row[csvColumn] || ''
+    result = result.replace(new RegExp(escapeRegExp(placeholder), 'g'), () => value)
+  })
+  Object.entries(values).forEach(([placeholder, value]) => {
+    result = result.replace(new RegExp(escapeRegExp(placeholder), 'g'), () => value)
+  })
+  return result
+}
+
+// Subject, HTML and plain-text body of one recipient's email; test sends use this too so they
+// match real ones. Values are filled in before the body is converted, so they get escaped
+// like the rest of a plain-text or Markdown body.
+export function renderTemplate(
+  template: CampaignTemplate,
+  placeholderMappings: Record<string, string>,
+  row: CsvRow,
+  values: Record<string, string> = {}
+): { subject: string, html: string, text: string } {
+  const html = bodyToHtml(personalize(template.body, placeholderMappings, row, values), template.body_format)
+  return {
+    subject: personalize(template.subject, placeholderMappings, row, values),
+    html,
+    text: template.text_body?.trim()
+      ? personalize(template.text_body, placeholderMappings, row, values)
+      : htmlToText(html),
+  }
+}
+
+export type ComposableRecipient = { id: string, email: string, data: CsvRow } & RecipientAddressing
+
+// The complete message for one recipient as the worker sends it. Dry runs compose theirs
+// here too, passing a token whose opt-out link changes nothing.
+export async function composeMessage(
+  context: CampaignContext,
+  recipient: ComposableRecipient,
+  sender: TransportConfig,
+  loadAttachments: (row: CsvRow) => Promise<MessageAttachment[]>,
+  unsubscribeToken: string
+): Promise<OutgoingMessage> {
+  const optOutUrl = unsubscribeUrl(unsubscribeToken)
+  const content = renderTemplate(context.template, context.placeholderMappings, recipient.data, { [UNSUBSCRIBE_PLACEHOLDER]: optOutUrl })
+  return {
+    ...messageAddressing(recipient, { email: sender.senderEmail, name: sender.senderName }),
+    to: [{ email: recipient.email }],
+    ...content,
+    html: await applyTracking(content.html, recipient.id, context.tracking, [optOutUrl]),
+    attachments: await loadAttachments(recipient.data),
+    headers: unsubscribeHeaders(optOutUrl),
+  }
+}
+
+// Reads the recipient list the CSV step uploaded to the campaigns bucket
+export async function loadCsvRows(supabase: SupabaseClient, csvUrl: string): Promise<CsvRow[]> {
+  const { data: file, error } = await supabase.storage
+    .from('campaigns')
+    .download(csvUrl)
+
+  if (error || !file) {
+    console.error('Error downloading CSV:', error)
+    throw new Error('Failed to load the recipient list')
+  }
+
+  const rows = parse(await file.text(), { skipFirstRow: true }) as CsvRow[]
+  // Blank lines parsed in the browser are written back as rows of empty values
+  return rows.filter((row) => Object.values(row).some((value) => value?.trim()))
+}
+
+// The campaign's saved SMTP settings, or those of the sender profile it uses, with the password
+// decrypted from the credential vault
+export async function loadSmtpConfig(supabase: SupabaseClient, campaignId: string): Promise<TransportConfig> {
+  const { data: smtp, error: smtpError } = await supabase
+    .from('smtp_configs')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .single()
+
+  if (smtpError) {
+    console.error('Error loading SMTP config:', smtpError)
+    throw new Error('Failed to load SMTP configuration')
+  }
+
+  if (smtp.sender_profile_id) {
+    const profile = await loadSenderProfile(supabase, smtp.sender_profile_id, smtp.user_id)
+    return { ...profile, senderName: smtp.sender_name || profile.senderName }
+  }
+
+  return {
+    transport: smtp.transport,
+    host: smtp.host,
+    port: smtp.port,
+    security: smtp.security,
+    senderEmail: smtp.email,
+    senderName: smtp.sender_name,
+    username: smtp.username ?? undefined,
+    appPassword: await loadSmtpPassword(supabase, smtp),
+  }
+}
+
+// The profiles of the campaign's sender pool, or its single sender when it has no pool
+export async function loadCampaignSenders(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<{ senders: PoolSender[], senderStrategy: SenderStrategy }> {
+  const { data: smtp, error: smtpError } = await supabase
+    .from('smtp_configs')
+    .select('user_id, sender_profile_id, sender_name, sender_strategy')
+    .eq('campaign_id', campaignId)
+    .single()
+
+  if (smtpError) {
+    console.error('Error loading SMTP config:', smtpError)
+    throw new Error('Failed to load SMTP configuration')
+  }
+
+  const { data: members, error: membersError } = await supabase
+    .from('campaign_senders')
+    .select('sender_profile_id, weight')
+    .eq('campaign_id', campaignId)
+    .eq('user_id', smtp.user_id)
+    .order('position')
+
+  if (membersError) {
+    console.error('Error loading sender pool:', membersError)
+    throw new Error('Failed to load the sender pool')
+  }
+
+  if (!members || members.length === 0) {
+    return {
+      senderStrategy: 'round_robin',
+      senders: [{
+        profileId: smtp.sender_profile_id,
+        config: await loadSmtpConfig(supabase, campaignId),
+        limits: await loadSenderLimits(supabase, campaignId),
+        weight: 1,
+      }],
+    }
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('sender_profiles')
+    .select('id, last_test_ok, warmup, daily_quota, transport, host, email, username')
+    .in('id', members.map((member) => member.sender_profile_id))
+    .eq('user_id', smtp.user_id)
+
+  if (profilesError) {
+    console.error('Error loading sender pool profiles:', profilesError)
+    throw new Error('Failed to load the sender pool')
+  }
+
+  // Profiles whose last connection test failed sit out while the pool has healthy ones
+  const byId = new Map((profiles ?? []).map((profile) => [profile.id, profile]))
+  const healthy = members.filter((member) => byId.get(member.sender_profile_id)?.last_test_ok !== false)
+  if (healthy.length < members.length) {
+    console.log(`Leaving ${members.length - healthy.length} sender(s) that failed their last test out of campaign ${campaignId}`)
+  }
+
+  const senders: PoolSender[] = []
+  for (const member of healthy.length > 0 ? healthy : members) {
+    const profile = byId.get(member.sender_profile_id)
+    if (!profile) throw new Error('Sender profile not found')
+    const config = await loadSenderProfile(supabase, member.sender_profile_id, smtp.user_id)
+    senders.push({
+      profileId: member.sender_profile_id,
+      config: { ...config, senderName: smtp.sender_name || config.senderName },
+      limits: senderLimits(smtp.user_id, `profile:${member.sender_profile_id}`, profile),
+      weight: member.weight,
+    })
+  }
+
+  return { senders, senderStrategy: smtp.sender_strategy ?? 'round_robin' }
+}
+
+// Everything a worker needs to render and send a campaign, loaded from the database
+// so sending can resume in a fresh function invocation.
+export async function loadCampaignContext(supabase: SupabaseClient, campaignId: string): Promise<CampaignContext> {
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .select('messages_per_minute, max_concurrency, domain_limits, delivery_window, attachment_column, track_opens, track_clicks')
+    .eq('id', campaignId)
+    .single()
+
+  if (campaignError) {
+    console.error('Error loading campaign:', campaignError)
+    throw new Error('Failed to load campaign')
+  }
+
+  const { data: template, error: templateError } = await supabase
+    .from('templates')
+    .select('subject, body, body_format, text_body')
+    .eq('campaign_id', campaignId)
+    .single()
+
+  if (templateError) {
+    console.error('Error loading template:', templateError)
+    throw new Error('Failed to load campaign template')
+  }
+
+  const { data: mappings, error: mappingsError } = await supabase
+    .from('placeholder_mappings')
+    .select('placeholder, csv_column')
+    .eq('campaign_id', campaignId)
+
+  if (mappingsError) {
+    console.error('Error loading placeholder mappings:', mappingsError)
+    throw new Error('Failed to load placeholder mappings')
+  }
+
+  return {
+    template,
+    placeholderMappings: Object.fromEntries(
+      (mappings ?? []).map((mapping) => [mapping.placeholder, mapping.csv_column])
+    ),
+    ...await loadCampaignSenders(supabase, campaignId),
+    throttle: {
+      messagesPerMinute: campaign.messages_per_minute,
+      maxConcurrency: campaign.max_concurrency,
+      domainLimits: campaign.domain_limits ?? {},
+    },
+    deliveryWindow: campaign.delivery_window ?? null,
+    attachments: await loadCampaignAttachments(supabase, campaignId),
+    attachmentColumn: campaign.attachment_column ?? null,
+    tracking: {
+      opens: campaign.track_opens ?? false,
+      clicks: campaign.track_clicks ?? false,
+    },
+  }
+}
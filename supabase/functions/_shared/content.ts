@@ -0,0 +1,180 @@
+// Turns template bodies into the HTML and plain-text parts of an email. The template editor
+// imports this file too (through the @shared alias) so its preview matches what is sent, so it
+// must not use Deno APIs or URL imports.
+
+export type BodyFormat = 'text' | 'html' | 'markdown'
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Runs on escaped text, so a URL ends at whitespace or an escaped bracket or quote
+function linkify(escaped: string): string {
+  return escaped.replace(/\bhttps?:\/\/[^\s<]+?(?=[.,;:!?)]*(?:\s|$|&lt;|&gt;|&quot;))/g, (url) => `<a href="${url}">${url}</a>`)
+}
+
+function textToHtml(body: string): string {
+  return body
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${paragraph.split('\n').map((line) => linkify(escapeHtml(line))).join('<br>\n')}</p>`)
+    .join('\n')
+}
+
+function markdownInline(escaped: string): string {
+  // Code spans are set aside so their contents are left alone
+  const codes: string[] = []
+  const html = escaped
+    .replace(/`([^`]+)`/g, (_, code) => {
+      codes.push(code)
+      return `\uE000${codes.length - 1}\uE000`
+    })
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, '<img src="$2" alt="$1">')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/&lt;(https?:\/\/[^\s]+?)&gt;/g, '<a href="$1">$1</a>')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/ {2,}\n|\\\n/g, '<br>\n')
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, index) => `<code>${codes[Number(index)]}</code>`)
+}
+
+// A small Markdown subset: headings, paragraphs, lists, quotes, rules, code, links and emphasis.
+// Raw HTML in the source is escaped rather than passed through.
+function markdownToHtml(body: string): string {
+  const lines = body.replace(/\r\n/g, '\n').split('\n')
+  const blocks: string[] = []
+  let paragraph: string[] = []
+  let list: { tag: 'ul' | 'ol', items: string[] } | null = null
+  let quote: string[] = []
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push(`<p>${markdownInline(escapeHtml(paragraph.join('\n')))}</p>`)
+      paragraph = []
+    }
+    if (list) {
+      blocks.push(`<${list.tag}>${list.items.map((item) => `<li>${markdownInline(escapeHtml(item))}</li>`).join('')}</${list.tag}>`)
+      list = null
+    }
+    if (quote.length) {
+      blocks.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`)
+      quote = []
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    let match: RegExpMatchArray | null
+
+    if (/^```/.test(line)) {
+      flush()
+      const code: string[] = []
+      while (++i < lines.length && !/^```/.test(lines[i])) {
+        code.push(lines[i])
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`)
+    } else if (!line.trim()) {
+      flush()
+    } else if ((match = line.match(/^>\s?(.*)$/))) {
+      if (!quote.length) flush()
+      quote.push(match[1])
+    } else if ((match = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/))) {
+      flush()
+      const level = match[1].length
+      blocks.push(`<h${level}>${markdownInline(escapeHtml(match[2]))}</h${level}>`)
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush()
+      blocks.push('<hr>')
+    } else if ((match = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/))) {
+      const tag = match[1] ? 'ul' : 'ol'
+      if (!list || list.tag !== tag) {
+        flush()
+        list = { tag, items: [] }
+      }
+      list.items.push(match[2])
+    } else if (list && /^\s+\S/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`
+    } else {
+      if (list || quote.length) flush()
+      paragraph.push(line)
+    }
+  }
+  flush()
+
+  return blocks.join('\n')
+}
+
+export function bodyToHtml(body: string, format: BodyFormat = 'text'): string {
+  switch (format) {
+    case 'html':
+      return body
+    case 'markdown':
+      return markdownToHtml(body)
+    default:
+      return textToHtml(body)
+  }
+}
+
+export function decodeEntities(text: string): string {
+  const named: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity
+    }
+    return named[code.toLowerCase()] ?? entity
+  })
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+}
+
+// Plain-text version of an HTML body. Links become numbered footnotes so the text stays readable.
+export function htmlToText(html: string): string {
+  const links: string[] = []
+
+  let text = html
+    .replace(/<(head|style|script)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Source line breaks are only whitespace in HTML
+    .replace(/\s+/g, ' ')
+    .replace(/<a\b[^>]*?href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi, (_, _quote, href: string, inner: string) => {
+      const label = stripTags(inner)
+      const url = decodeEntities(href.trim())
+      if (!url || url.startsWith('#') || label === url || `mailto:${label}` === url) {
+        return label || url
+      }
+      links.push(url)
+      return `${label} [${links.length}]`
+    })
+    .replace(/<img\b[^>]*?alt\s*=\s*(["'])(.*?)\1[^>]*>/gi, (_, _quote, alt: string) => alt ? `[${alt}]` : '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<hr\b[^>]*>/gi, '\n\n----------\n\n')
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|table|tr|blockquote|pre|section|article|header|footer)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+
+  text = decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  if (links.length) {
+    text += `\n\nLinks:\n${links.map((url, index) => `[${index + 1}] ${url}`).join('\n')}`
+  }
+
+  return text
+}
@@ -0,0 +1,139 @@
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+// Secrets are sealed with AES-256-GCM under SMTP_CREDENTIALS_KEY (32 random bytes, base64),
+// stored as "v1.<iv>.<ciphertext>". Only edge functions hold the key.
+const FORMAT_VERSION = 'v1'
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+function encryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const raw = Deno.env.get('SMTP_CREDENTIALS_KEY')
+    if (!raw) {
+      throw new Error('SMTP_CREDENTIALS_KEY is not configured')
+    }
+
+    const bytes = decodeBase64(raw)
+    if (bytes.length !== 32) {
+      throw new Error('SMTP_CREDENTIALS_KEY must be 32 bytes, base64 encoded')
+    }
+
+    cachedKey = crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  }
+  return cachedKey
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await encryptionKey(),
+    new TextEncoder().encode(plaintext)
+  )
+  return [FORMAT_VERSION, encodeBase64(iv), encodeBase64(ciphertext)].join('.')
+}
+
+export async function decryptSecret(sealed: string): Promise<string> {
+  const [version, iv, ciphertext] = sealed.split('.')
+  if (version !== FORMAT_VERSION || !iv || !ciphertext) {
+    throw new Error('Unsupported credential format')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: decodeBase64(iv) },
+    await encryptionKey(),
+    decodeBase64(ciphertext)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+// A credential belongs to either a campaign's smtp_configs row or an account-level sender profile
+export interface CredentialOwner {
+  column: 'smtp_config_id' | 'sender_profile_id'
+  id: string
+}
+
+export async function storeSmtpPassword(
+  supabase: SupabaseClient,
+  owner: CredentialOwner,
+  userId: string,
+  password: string
+): Promise<{ last4: string, updatedAt: string }> {
+  const last4 = password.slice(-4)
+  const updatedAt = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('smtp_credentials')
+    .upsert({
+      [owner.column]: owner.id,
+      user_id: userId,
+      ciphertext: await encryptSecret(password),
+      last4,
+      updated_at: updatedAt,
+    }, { onConflict: owner.column })
+
+  if (error) {
+    console.error('Error storing SMTP credential:', error)
+    throw new Error('Failed to store SMTP password')
+  }
+
+  return { last4, updatedAt }
+}
+
+// Moves a legacy plaintext smtp_configs.password into the vault. Returns false when there was nothing to move.
+export async function migratePlaintextPassword(
+  supabase: SupabaseClient,
+  config: { id: string, user_id: string, password: string | null }
+): Promise<boolean> {
+  if (!config.password) return false
+
+  await storeSmtpPassword(supabase, { column: 'smtp_config_id', id: config.id }, config.user_id, config.password)
+
+  const { error } = await supabase
+    .from('smtp_configs')
+    .update({ password: null })
+    .eq('id', config.id)
+
+  if (error) {
+    console.error('Error clearing plaintext SMTP password:', error)
+    throw new Error('Failed to clear plaintext SMTP password')
+  }
+
+  return true
+}
+
+// Decrypted password of a credential owner, or null when none is stored. The client must use
+// the service role key; only sending functions should call this.
+export async function loadStoredPassword(supabase: SupabaseClient, owner: CredentialOwner): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('smtp_credentials')
+    .select('ciphertext')
+    .eq(owner.column, owner.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading SMTP credential:', error)
+    throw new Error('Failed to load SMTP password')
+  }
+
+  return data ? await decryptSecret(data.ciphertext) : null
+}
+
+// Decrypted password for an smtp_configs row, or '' when none is stored
+export async function loadSmtpPassword(
+  supabase: SupabaseClient,
+  config: { id: string, user_id: string, password: string | null }
+): Promise<string> {
+  const stored = await loadStoredPassword(supabase, { column: 'smtp_config_id', id: config.id })
+  if (stored !== null) {
+    return stored
+  }
+
+  // Rows saved before the vault existed are migrated on first use
+  const legacyPassword = config.password ?? ''
+  if (legacyPassword) {
+    await migratePlaintextPassword(supabase, config)
+  }
+  return legacyPassword
+}
@@ -0,0 +1,99 @@
+// Delivery windows hold each recipient until a time of day in their own time zone,
+// e.g. 09:00-11:00 on weekdays. Also imported by src/lib/schedule.ts so the logs show the same
+// holds as the worker; it must not use Deno APIs or URL imports.
+export interface DeliveryWindow {
+  start: string // "HH:MM", inclusive
+  end: string // "HH:MM", exclusive
+  days: number[] // 0 = Sunday ... 6 = Saturday
+  timezone: string // used for recipients without a (valid) time zone of their own
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function resolveTimeZone(value: string | null | undefined): string | null {
+  const timeZone = value?.trim()
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : null
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Why a window can never open, or null. A window that ends before it starts would hold every
+// recipient forever, so launches refuse it.
+export function deliveryWindowProblem(window: DeliveryWindow): string | null {
+  if (!Array.isArray(window.days) || !window.days.some((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return 'The delivery window needs at least one day'
+  }
+  if (!TIME_PATTERN.test(window.start ?? '') || !TIME_PATTERN.test(window.end ?? '')) {
+    return 'The delivery window times must be HH:MM'
+  }
+  if (window.start >= window.end) {
+    return 'The delivery window must end after it starts'
+  }
+  if (!isValidTimeZone(window.timezone)) {
+    return `Unknown delivery window time zone: ${window.timezone}`
+  }
+  return null
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Wall-clock reading of an instant in a zone: weekday, minutes since midnight and the zone's UTC offset
+function localClock(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+  const value = (type: string) => Number(part(type))
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'))
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    minutes: value('hour') * 60 + value('minute'),
+    seconds: value('second'),
+    offset: wallClock - Math.floor(instant / 1000) * 1000,
+  }
+}
+
+// Milliseconds until the window next opens for a recipient in the given zone: 0 while it is
+// open, null if the window has no days at all.
+export function msUntilWindow(window: DeliveryWindow, timeZone: string | null, now = Date.now()): number | null {
+  const zone = timeZone ?? window.timezone
+  const start = parseTime(window.start)
+  const end = parseTime(window.end)
+  const clock = localClock(now, zone)
+
+  for (let day = 0; day <= 7; day++) {
+    if (!window.days.includes((clock.weekday + day) % 7)) continue
+
+    if (day === 0) {
+      if (clock.minutes >= start && clock.minutes < end) return 0
+      if (clock.minutes >= start) continue
+    }
+
+    const wallClockDelay = ((day * 24 * 60 + start - clock.minutes) * 60 - clock.seconds) * 1000
+    // Correct for a DST change between now and the opening
+    return wallClockDelay - (localClock(now + wallClockDelay, zone).offset - clock.offset)
+  }
+
+  return null
+}
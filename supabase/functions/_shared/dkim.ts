@@ -0,0 +1,254 @@
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+
+// DKIM (RFC 6376) signing with rsa-sha256 and relaxed/relaxed canonicalization, and a check of
+// such signatures against the key published in DNS.
+
+export interface DkimSettings {
+  domain: string
+  selector: string
+  // PKCS#8 ("PRIVATE KEY") or PKCS#1 ("RSA PRIVATE KEY") PEM
+  privateKey: string
+}
+
+// TXT records at a name, each record's strings joined. Checks take one as a parameter so they
+// can run against a stub instead of the network.
+export type TxtResolver = (name: string) => Promise<string[]>
+
+export const dnsTxtResolver: TxtResolver = async (name) =>
+  (await Deno.resolveDns(name, 'TXT')).map((chunks) => chunks.join(''))
+
+export type DkimCheck = { ok: true } | { ok: false, error: string }
+
+// Signed when present; Bcc never appears in the headers
+const SIGNED_HEADERS = [
+  'from', 'to', 'cc', 'reply-to', 'subject', 'date', 'message-id', 'mime-version', 'content-type',
+  'list-unsubscribe', 'list-unsubscribe-post',
+]
+
+const MIN_KEY_BITS = 1024
+const ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+const encoder = new TextEncoder()
+
+export function dkimRecordName(selector: string, domain: string): string {
+  return `${selector}._domainkey.${domain}`
+}
+
+export function dkimRecord(publicKey: string): string {
+  return `v=DKIM1; k=rsa; p=${publicKey}`
+}
+
+function derWrap(tag: number, content: Uint8Array): Uint8Array {
+  const length = content.length < 0x80
+    ? [content.length]
+    : (() => {
+      const bytes: number[] = []
+      for (let n = content.length; n > 0; n >>= 8) bytes.unshift(n & 0xff)
+      return [0x80 | bytes.length, ...bytes]
+    })()
+  return Uint8Array.from([tag, ...length, ...content])
+}
+
+// Web Crypto only imports PKCS#8, so a PKCS#1 RSAPrivateKey is wrapped in a PrivateKeyInfo
+function pkcs1ToPkcs8(pkcs1: Uint8Array): Uint8Array {
+  const version = [0x02, 0x01, 0x00]
+  const rsaEncryption = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00]
+  return derWrap(0x30, Uint8Array.from([...version, ...rsaEncryption, ...derWrap(0x04, pkcs1)]))
+}
+
+const importedKeys = new Map<string, Promise<CryptoKey>>()
+
+export function importPrivateKey(pem: string): Promise<CryptoKey> {
+  let key = importedKeys.get(pem)
+  if (!key) {
+    key = (async () => {
+      const match = pem.match(/-----BEGIN ([A-Z ]+)-----([\s\S]+?)-----END \1-----/)
+      if (!match) {
+        throw new Error('The private key must be a PEM file')
+      }
+      if (match[1] === 'ENCRYPTED PRIVATE KEY') {
+        throw new Error('The private key is protected by a passphrase; export it without one')
+      }
+      if (match[1] !== 'PRIVATE KEY' && match[1] !== 'RSA PRIVATE KEY') {
+        throw new Error('Only RSA private keys are supported')
+      }
+
+      const der = decodeBase64(match[2].replace(/\s+/g, ''))
+      try {
+        return await crypto.subtle.importKey(
+          'pkcs8',
+          match[1] === 'RSA PRIVATE KEY' ? pkcs1ToPkcs8(der) : der,
+          ALGORITHM,
+          true,
+          ['sign']
+        )
+      } catch {
+        throw new Error('Not a valid RSA private key')
+      }
+    })()
+    importedKeys.set(pem, key)
+    key.catch(() => importedKeys.delete(pem))
+  }
+  return key
+}
+
+// Checks an uploaded key and returns the base64 public key for the p= tag of the DNS record
+export async function describePrivateKey(pem: string): Promise<{ publicKey: string, bits: number }> {
+  const key = await importPrivateKey(pem)
+  const bits = (key.algorithm as RsaHashedKeyAlgorithm).modulusLength
+  if (bits < MIN_KEY_BITS) {
+    throw new Error(`DKIM keys must be at least ${MIN_KEY_BITS} bits; this one has ${bits}`)
+  }
+
+  const { n, e } = await crypto.subtle.exportKey('jwk', key)
+  const publicKey = await crypto.subtle.importKey('jwk', { kty: 'RSA', n, e }, ALGORITHM, true, ['verify'])
+  return { publicKey: encodeBase64(await crypto.subtle.exportKey('spki', publicKey)), bits }
+}
+
+// Header fields (continuation lines included) and the body of a CRLF message
+function splitMessage(raw: string): { fields: string[], body: string } {
+  const end = raw.indexOf('\r\n\r\n')
+  const head = end === -1 ? raw : raw.slice(0, end)
+  const fields: string[] = []
+  for (const line of head.split('\r\n')) {
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1] += `\r\n${line}`
+    } else {
+      fields.push(line)
+    }
+  }
+  return { fields, body: end === -1 ? '' : raw.slice(end + 4) }
+}
+
+function fieldName(field: string): string {
+  return field.slice(0, field.indexOf(':')).trim().toLowerCase()
+}
+
+// The last instance of a header is the one signed first (RFC 6376 §5.4.2)
+function findField(fields: string[], name: string): string | undefined {
+  return fields.findLast((field) => fieldName(field) === name)
+}
+
+function relaxedHeader(field: string): string {
+  const value = field.slice(field.indexOf(':') + 1)
+    .replace(/\r\n(?=[ \t])/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+  return `${fieldName(field)}:${value}`
+}
+
+function relaxedBody(body: string): string {
+  const lines = body.split('\r\n').map((line) => line.replace(/[ \t]+/g, ' ').replace(/ $/, ''))
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop()
+  return lines.length > 0 ? `${lines.join('\r\n')}\r\n` : ''
+}
+
+async function bodyHash(body: string): Promise<string> {
+  return encodeBase64(await crypto.subtle.digest('SHA-256', encoder.encode(relaxedBody(body))))
+}
+
+function signedData(fields: string[], names: string[], signatureField: string): Uint8Array {
+  // Listed headers the message does not have contribute nothing
+  const headers = names
+    .map((name) => findField(fields, name))
+    .filter((field): field is string => field !== undefined)
+    .map((field) => `${relaxedHeader(field)}\r\n`)
+    .join('')
+  return encoder.encode(headers + relaxedHeader(signatureField))
+}
+
+// Prepends a DKIM-Signature header. Tags are folded onto their own lines; relaxed
+// canonicalization turns the folds back into the single spaces that were signed.
+export async function signMessage(raw: string, settings: DkimSettings): Promise<string> {
+  const { fields, body } = splitMessage(raw)
+  const names = SIGNED_HEADERS.filter((name) => findField(fields, name))
+  const tags = [
+    'v=1',
+    'a=rsa-sha256',
+    'c=relaxed/relaxed',
+    `d=${settings.domain}`,
+    `s=${settings.selector}`,
+    `t=${Math.floor(Date.now() / 1000)}`,
+    `h=${names.join(':')}`,
+    `bh=${await bodyHash(body)}`,
+    'b=',
+  ].join('; ')
+
+  const key = await importPrivateKey(settings.privateKey)
+  const signature = encodeBase64(await crypto.subtle.sign(ALGORITHM, key, signedData(fields, names, `DKIM-Signature: ${tags}`)))
+  const folded = `${tags.replace(/; /g, ';\r\n\t')}${signature.match(/.{1,72}/g)?.join('\r\n\t') ?? ''}`
+  return `DKIM-Signature: ${folded}\r\n${raw}`
+}
+
+function parseTags(value: string): Map<string, string> {
+  const tags = new Map<string, string>()
+  for (const part of value.replace(/\r\n(?=[ \t])/g, '').split(';')) {
+    const index = part.indexOf('=')
+    if (index === -1) continue
+    tags.set(part.slice(0, index).trim(), part.slice(index + 1).trim())
+  }
+  return tags
+}
+
+// The p= value published at <selector>._domainkey.<domain>, '' for a revoked key, or null when
+// there is no DKIM record
+export async function lookupPublicKey(
+  selector: string,
+  domain: string,
+  resolver: TxtResolver = dnsTxtResolver
+): Promise<string | null> {
+  let records: string[]
+  try {
+    records = await resolver(dkimRecordName(selector, domain))
+  } catch {
+    return null
+  }
+  const record = records.map(parseTags).find((tags) => tags.has('p'))
+  return record ? record.get('p')!.replace(/\s+/g, '') : null
+}
+
+// Verifies the first DKIM-Signature of a message this module signed
+export async function verifyMessage(raw: string, resolver: TxtResolver = dnsTxtResolver): Promise<DkimCheck> {
+  const { fields, body } = splitMessage(raw)
+  const signatureField = fields.find((field) => fieldName(field) === 'dkim-signature')
+  if (!signatureField) {
+    return { ok: false, error: 'The message has no DKIM-Signature header' }
+  }
+
+  const tags = parseTags(signatureField.slice(signatureField.indexOf(':') + 1))
+  if (tags.get('a') !== 'rsa-sha256' || tags.get('c') !== 'relaxed/relaxed') {
+    return { ok: false, error: 'Only rsa-sha256 signatures with relaxed/relaxed canonicalization can be checked' }
+  }
+
+  const domain = tags.get('d') ?? ''
+  const selector = tags.get('s') ?? ''
+  if ((tags.get('bh') ?? '').replace(/\s+/g, '') !== await bodyHash(body)) {
+    return { ok: false, error: 'The body hash does not match; the message was changed after signing' }
+  }
+
+  const publicKey = await lookupPublicKey(selector, domain, resolver)
+  if (publicKey === null) {
+    return { ok: false, error: `No DKIM record found at ${dkimRecordName(selector, domain)}` }
+  }
+  if (!publicKey) {
+    return { ok: false, error: `The DKIM record at ${dkimRecordName(selector, domain)} has been revoked` }
+  }
+
+  let key: CryptoKey
+  try {
+    key = await crypto.subtle.importKey('spki', decodeBase64(publicKey), ALGORITHM, false, ['verify'])
+  } catch {
+    return { ok: false, error: `The DKIM record at ${dkimRecordName(selector, domain)} does not hold a valid RSA key` }
+  }
+
+  const names = (tags.get('h') ?? '').split(':').map((name) => name.trim().toLowerCase()).filter(Boolean)
+  const unsigned = signatureField.replace(/(;\s*b=)[^;]*/, '$1')
+  const valid = await crypto.subtle.verify(
+    ALGORITHM,
+    key,
+    decodeBase64((tags.get('b') ?? '').replace(/\s+/g, '')),
+    signedData(fields, names, unsigned)
+  )
+  return valid
+    ? { ok: true }
+    : { ok: false, error: `The signature does not match the key published at ${dkimRecordName(selector, domain)}` }
+}
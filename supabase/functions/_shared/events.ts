@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+export type RecipientEventType = 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked'
+
+export interface RecipientEvent {
+  type: RecipientEventType
+  provider: string
+  providerEventId?: string
+  detail?: Record<string, unknown>
+  occurredAt?: string
+  // Only meaningful for bounces; soft bounces are recorded but not suppressed
+  hardBounce?: boolean
+}
+
+export interface EventRecipient {
+  id: string
+  campaign_id: string
+  user_id: string
+  email: string
+}
+
+// Statuses a recipient reaches once the provider accepted the email, in the order they may
+// replace each other. An event never moves a recipient backwards, so a late "delivered" cannot
+// undo a bounce.
+export const SENT_STATUSES = ['sent', 'delivered', 'bounced', 'complained']
+
+const STATUS_FOR_EVENT: Partial<Record<RecipientEventType, string>> = {
+  delivered: 'delivered',
+  bounced: 'bounced',
+  complained: 'complained',
+}
+
+export async function findRecipientByMessageId(
+  supabase: SupabaseClient,
+  messageId: string
+): Promise<EventRecipient | null> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .select('id, campaign_id, user_id, email')
+    .eq('provider_message_id', messageId)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    console.error('Error finding recipient for event:', error)
+    throw new Error('Failed to find recipient')
+  }
+
+  // Ids are not unique in the table; should two rows share one, the latest send gets the event
+  return data?.[0] ?? null
+}
+
+export async function findRecipientById(
+  supabase: SupabaseClient,
+  recipientId: string
+): Promise<EventRecipient | null> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .select('id, campaign_id, user_id, email')
+    .eq('id', recipientId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error finding recipient for event:', error)
+    throw new Error('Failed to find recipient')
+  }
+
+  return data
+}
+
+// Stores the event, advances the recipient's status and suppresses the address after a hard
+// bounce or complaint. Returns false when the event was already recorded.
+export async function recordRecipientEvent(
+  supabase: SupabaseClient,
+  recipient: EventRecipient,
+  event: RecipientEvent
+): Promise<boolean> {
+  const { data: inserted, error: insertError } = await supabase
+    .from('recipient_events')
+    .upsert({
+      recipient_id: recipient.id,
+      campaign_id: recipient.campaign_id,
+      user_id: recipient.user_id,
+      type: event.type,
+      provider: event.provider,
+      provider_event_id: event.providerEventId ?? null,
+      detail: event.detail ?? {},
+      occurred_at: event.occurredAt ?? new Date().toISOString(),
+    }, { onConflict: 'provider,provider_event_id', ignoreDuplicates: true })
+    .select('id')
+
+  if (insertError) {
+    console.error('Error recording recipient event:', insertError)
+    throw new Error('Failed to record event')
+  }
+
+  if (!inserted?.length) {
+    return false
+  }
+
+  const status = STATUS_FOR_EVENT[event.type]
+  if (status) {
+    const { error: statusError } = await supabase
+      .from('recipients')
+      .update({ status })
+      .eq('id', recipient.id)
+      .in('status', SENT_STATUSES.slice(0, SENT_STATUSES.indexOf(status)))
+
+    if (statusError) {
+      console.error('Error updating recipient status:', statusError)
+    }
+  }
+
+  if ((event.type === 'bounced' && event.hardBounce) || event.type === 'complained') {
+    const { error: suppressError } = await supabase
+      .from('suppressions')
+      .upsert({
+        user_id: recipient.user_id,
+        email: recipient.email.toLowerCase(),
+        reason: event.type === 'bounced' ? 'bounce' : 'complaint',
+        campaign_id: recipient.campaign_id,
+      }, { onConflict: 'user_id,email', ignoreDuplicates: true })
+
+    if (suppressError) {
+      console.error('Error suppressing address:', suppressError)
+    }
+  }
+
+  return true
+}
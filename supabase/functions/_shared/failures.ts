@@ -0,0 +1,91 @@
+import type { FailureKind } from "./history.ts"
+import { ResendError, SmtpError } from "./transports/index.ts"
+
+export type { FailureKind, FailureRecord } from "./history.ts"
+
+export const MAX_ATTEMPTS = 5
+const BASE_BACKOFF_MS = 60 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+
+// Wording servers and APIs use when the mailbox itself is the problem
+const PERMANENT_PATTERNS = [
+  /mailbox (unavailable|not found|does not exist)/i,
+  /user (unknown|not found)/i,
+  /no such (user|recipient)/i,
+  /invalid (recipient|mailbox|address|email)/i,
+  /recipient address rejected/i,
+  /\b5\.1\.[0-9]\b/,
+]
+
+// Replies to an account that has sent its daily allowance, e.g. Gmail's "550 5.4.5 Daily user
+// sending limit exceeded", Outlook's SubmissionQuotaExceededException or Resend's "You have
+// reached your daily email sending quota"
+const QUOTA_PATTERNS = [
+  /daily user sending (quota|limit) exceeded/i,
+  /\b5\.4\.5\b/,
+  /submissionquotaexceeded/i,
+  /reached (your|the) daily .*(quota|limit)/i,
+  /(daily|sending|message) (quota|limit) (exceeded|reached)/i,
+  /exceeded .*(daily|sending) (quota|limit)/i,
+]
+
+// Resend API errors carry an error name and HTTP status instead of an SMTP reply code. Requests it
+// refuses as invalid, such as a malformed address or an unverified sending domain, fail the same
+// way every time; rate limits and server errors are worth retrying.
+const PERMANENT_RESEND_ERRORS = [
+  'validation_error',
+  'missing_required_field',
+  'invalid_parameter',
+  'invalid_from_address',
+  'invalid_to_address',
+  'not_found',
+]
+const PERMANENT_HTTP_STATUSES = [400, 403, 404, 422]
+
+// Read from a ResendError, or from its stored message: "... (validation_error, HTTP 422)"
+function resendFailure(error: unknown, message: string): { name?: string, status?: number } | null {
+  if (error instanceof ResendError) {
+    return { name: error.errorName, status: error.statusCode }
+  }
+  const match = message.match(/^Failed to send email: .*\(([a-z_]+)?(?:, )?(?:HTTP (\d{3}))?\)$/)
+  return match && (match[1] || match[2]) ? { name: match[1], status: Number(match[2]) || undefined } : null
+}
+
+export function isQuotaExceeded(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return QUOTA_PATTERNS.some((pattern) => pattern.test(message))
+}
+
+// 4xx replies, timeouts and dropped connections are worth retrying; 5xx replies, invalid
+// mailboxes and requests Resend refuses as invalid will fail the same way every time.
+export function classifyFailure(error: unknown): { kind: FailureKind, code?: number } {
+  const message = error instanceof Error ? error.message : String(error)
+
+  // Stored error messages keep the reply code in SmtpError's "<command> failed: 550 ..." format
+  const code = error instanceof SmtpError ? error.code : Number(message.match(/failed: ([2-5]\d\d) /)?.[1]) || undefined
+
+  // The message is fine; it can go once the quota resets
+  if (isQuotaExceeded(message)) return { kind: 'transient', code }
+
+  if (code) {
+    if (code >= 400 && code < 500) return { kind: 'transient', code }
+    if (code >= 500) return { kind: 'permanent', code }
+  }
+
+  const resend = resendFailure(error, message)
+  if (resend) {
+    const permanent = PERMANENT_RESEND_ERRORS.includes(resend.name ?? '') ||
+      PERMANENT_HTTP_STATUSES.includes(resend.status ?? 0)
+    return { kind: permanent ? 'permanent' : 'transient' }
+  }
+
+  if (PERMANENT_PATTERNS.some((pattern) => pattern.test(message))) {
+    return { kind: 'permanent' }
+  }
+
+  return { kind: 'transient' }
+}
+
+export function backoffDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
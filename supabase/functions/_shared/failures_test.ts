@@ -0,0 +1,46 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts"
+import { classifyFailure } from "./failures.ts"
+import { ResendError, SmtpError } from "./transports/index.ts"
+
+// Run with: deno test supabase/functions/_shared/failures_test.ts
+
+Deno.test('SMTP 4xx replies are transient and 5xx replies permanent', () => {
+  assertEquals(classifyFailure(new SmtpError('RCPT failed', { code: 451, lines: ['Try again later'] })), { kind: 'transient', code: 451 })
+  assertEquals(classifyFailure(new SmtpError('RCPT failed', { code: 550, lines: ['No such user'] })), { kind: 'permanent', code: 550 })
+})
+
+Deno.test('quota refusals are transient', () => {
+  assertEquals(classifyFailure(new SmtpError('DATA failed', { code: 550, lines: ['5.4.5 Daily user sending limit exceeded'] })).kind, 'transient')
+  assertEquals(classifyFailure(new ResendError({ name: 'daily_quota_exceeded', message: 'You have reached your daily email sending quota', statusCode: 429 })).kind, 'transient')
+})
+
+Deno.test('Resend validation errors are permanent', () => {
+  assertEquals(classifyFailure(new ResendError({ name: 'validation_error', message: 'Invalid `to` field' })).kind, 'permanent')
+})
+
+Deno.test('Resend errors about missing or invalid fields are permanent', () => {
+  for (const name of ['missing_required_field', 'invalid_parameter', 'invalid_from_address', 'invalid_to_address', 'not_found']) {
+    assertEquals(classifyFailure(new ResendError({ name, message: 'Rejected' })).kind, 'permanent', name)
+  }
+})
+
+Deno.test('Resend 422 on an unverified domain is permanent', () => {
+  const error = new ResendError({ message: 'The example.com domain is not verified', statusCode: 422 })
+  assertEquals(classifyFailure(error).kind, 'permanent')
+})
+
+Deno.test('Resend 400 and 403 responses are permanent', () => {
+  assertEquals(classifyFailure(new ResendError({ message: 'Bad request', statusCode: 400 })).kind, 'permanent')
+  assertEquals(classifyFailure(new ResendError({ message: 'Domain not verified', statusCode: 403 })).kind, 'permanent')
+})
+
+Deno.test('Resend rate limits and server errors are transient', () => {
+  assertEquals(classifyFailure(new ResendError({ name: 'rate_limit_exceeded', message: 'Too many requests', statusCode: 429 })).kind, 'transient')
+  assertEquals(classifyFailure(new ResendError({ name: 'application_error', message: 'Something went wrong', statusCode: 500 })).kind, 'transient')
+})
+
+Deno.test('stored Resend messages classify the same as the error', () => {
+  const stored = new ResendError({ name: 'validation_error', message: 'Invalid `to` field (must be an email)', statusCode: 422 }).message
+  assertEquals(classifyFailure(new Error(stored)).kind, 'permanent')
+  assertEquals(classifyFailure(new Error(new ResendError({ message: 'Internal error', statusCode: 500 }).message)).kind, 'transient')
+})
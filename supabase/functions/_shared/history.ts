@@ -0,0 +1,12 @@
+// The failure history kept on each recipient row. Also imported by the recipient log, so it
+// must not use Deno APIs or URL imports.
+
+export type FailureKind = 'transient' | 'permanent' | 'unknown'
+
+export interface FailureRecord {
+  at: string
+  attempt: number
+  kind: FailureKind
+  code?: number
+  message: string
+}
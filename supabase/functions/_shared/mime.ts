@@ -0,0 +1,130 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import type { MailAddress } from "./addressing.ts"
+import { htmlToText } from "./content.ts"
+
+export type { MailAddress }
+
+export interface MessageAttachment {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export interface OutgoingMessage {
+  from: MailAddress
+  to: MailAddress[]
+  cc?: MailAddress[]
+  // Envelope-only; never written to the headers
+  bcc?: MailAddress[]
+  replyTo?: MailAddress
+  subject: string
+  html: string
+  // Plain-text alternative; generated from the HTML when missing
+  text?: string
+  attachments?: MessageAttachment[]
+  headers?: Record<string, string>
+}
+
+const encoder = new TextEncoder()
+
+// RFC 2047 encoded-word for header values that are not plain ASCII
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value
+  }
+  return `=?UTF-8?B?${encodeBase64(encoder.encode(value))}?=`
+}
+
+export function formatAddress(address: MailAddress): string {
+  // A line break would end the header and let the rest of the value inject new ones
+  if (/[\r\n]/.test(address.email)) {
+    throw new Error(`Invalid address: ${JSON.stringify(address.email)}`)
+  }
+  if (address.name && /[\r\n]/.test(address.name)) {
+    throw new Error(`Invalid display name: ${JSON.stringify(address.name)}`)
+  }
+  if (!address.name) {
+    return `<${address.email}>`
+  }
+  const encodedName = encodeHeaderValue(address.name)
+  const displayName = encodedName === address.name
+    ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodedName
+  return `${displayName} <${address.email}>`
+}
+
+export function createMessageId(senderEmail: string): string {
+  const domain = senderEmail.split('@')[1] || 'localhost'
+  return `<${crypto.randomUUID()}@${domain}>`
+}
+
+// Base64 body lines must not exceed 76 characters (RFC 2045)
+function wrapBase64(content: string | Uint8Array): string {
+  const encoded = encodeBase64(typeof content === 'string' ? encoder.encode(content) : content)
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? ''
+}
+
+function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\r\n')
+}
+
+function textPart(contentType: string, content: string): string {
+  return `${formatHeaders({
+    'Content-Type': `${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding': 'base64',
+  })}\r\n\r\n${wrapBase64(content)}`
+}
+
+// Non-ASCII filenames use the RFC 2231 form, which every current client understands
+function attachmentPart(attachment: MessageAttachment): string {
+  const name = /^[\x20-\x7e]*$/.test(attachment.filename)
+    ? `filename="${attachment.filename}"`
+    : `filename*=UTF-8''${encodeURIComponent(attachment.filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`
+  return `${formatHeaders({
+    'Content-Type': attachment.contentType,
+    'Content-Disposition': `attachment; ${name}`,
+    'Content-Transfer-Encoding': 'base64',
+  })}\r\n\r\n${wrapBase64(attachment.content)}`
+}
+
+// Parts are listed from least to most preferred, so clients that can show HTML pick it
+function multipart(subtype: string, parts: string[]): { contentType: string, body: string } {
+  const boundary = `=_${subtype}_${crypto.randomUUID()}`
+  return {
+    contentType: `multipart/${subtype}; boundary="${boundary}"`,
+    body: `${parts.map((part) => `--${boundary}\r\n${part}\r\n`).join('')}--${boundary}--`,
+  }
+}
+
+// A null messageId leaves the Message-ID header out, for archived emails whose id is not on record
+export function buildMessage(message: OutgoingMessage, messageId: string | null, date = new Date()): string {
+  const alternative = multipart('alternative', [
+    textPart('text/plain', message.text ?? htmlToText(message.html)),
+    textPart('text/html', message.html),
+  ])
+
+  // Attachments wrap the readable body in multipart/mixed
+  const content = message.attachments?.length
+    ? multipart('mixed', [
+      `Content-Type: ${alternative.contentType}\r\n\r\n${alternative.body}`,
+      ...message.attachments.map(attachmentPart),
+    ])
+    : alternative
+
+  const headers: Record<string, string> = {
+    'From': formatAddress(message.from),
+    'To': message.to.map(formatAddress).join(', '),
+    ...(message.cc?.length ? { 'Cc': message.cc.map(formatAddress).join(', ') } : {}),
+    ...(message.replyTo ? { 'Reply-To': formatAddress(message.replyTo) } : {}),
+    'Subject': encodeHeaderValue(message.subject),
+    'Date': date.toUTCString(),
+    ...(messageId ? { 'Message-ID': messageId } : {}),
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': content.contentType,
+  }
+
+  return `${formatHeaders(headers)}\r\n\r\n${content.body}\r\n`
+}
@@ -0,0 +1,66 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts"
+import { decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { buildMessage, formatAddress, type OutgoingMessage } from "./mime.ts"
+
+// Run with: deno test supabase/functions/_shared/mime_test.ts
+
+const MESSAGE: OutgoingMessage = {
+  from: { email: 'sender@example.com', name: 'Sender' },
+  to: [{ email: 'recipient@example.org' }],
+  subject: 'Hello',
+  html: '<p>Hello there</p>',
+  text: 'Hello there',
+}
+
+// The body lines of the part whose headers include the given line, base64 decoded
+function decodedPart(raw: string, header: string): string {
+  const start = raw.indexOf(header)
+  assert(start !== -1, `no part with ${header}`)
+  const body = raw.slice(raw.indexOf('\r\n\r\n', start) + 4, raw.indexOf('\r\n--', start))
+  return new TextDecoder().decode(decodeBase64(body.replace(/\r\n/g, '')))
+}
+
+Deno.test('display names are quoted and non-ASCII names encoded', () => {
+  assertEquals(formatAddress({ email: 'a@example.com' }), '<a@example.com>')
+  assertEquals(formatAddress({ email: 'a@example.com', name: 'Ann "A" Lee' }), '"Ann \\"A\\" Lee" <a@example.com>')
+  assertEquals(formatAddress({ email: 'a@example.com', name: 'Zoë' }), '=?UTF-8?B?Wm/Dqw==?= <a@example.com>')
+})
+
+Deno.test('line breaks in display names and addresses are rejected', () => {
+  assertThrows(() => formatAddress({ email: 'a@example.com', name: 'Ann\r\nBcc: b@example.com' }), Error, 'Invalid display name')
+  assertThrows(() => formatAddress({ email: 'a@example.com', name: 'Ann\nLee' }), Error, 'Invalid display name')
+  assertThrows(() => formatAddress({ email: 'a@example.com\r\nBcc: b@example.com' }), Error, 'Invalid address')
+})
+
+Deno.test('a message without attachments is multipart/alternative with text before HTML', () => {
+  const raw = buildMessage(MESSAGE, '<id@example.com>', new Date(Date.UTC(2026, 9, 19, 12)))
+  assertStringIncludes(raw, 'Message-ID: <id@example.com>\r\n')
+  assertStringIncludes(raw, 'Date: Mon, 19 Oct 2026 12:00:00 GMT\r\n')
+  assert(/^Content-Type: multipart\/alternative; boundary="/m.test(raw))
+  assert(!raw.includes('multipart/mixed'))
+  assert(raw.indexOf('text/plain') < raw.indexOf('text/html'))
+  assertEquals(decodedPart(raw, 'text/plain'), 'Hello there')
+  assertEquals(decodedPart(raw, 'text/html'), '<p>Hello there</p>')
+})
+
+Deno.test('attachments wrap the body in multipart/mixed as base64 parts', () => {
+  const content = new Uint8Array(200).map((_, index) => index)
+  const raw = buildMessage({
+    ...MESSAGE,
+    attachments: [
+      { filename: 'report.pdf', contentType: 'application/pdf', content },
+      { filename: 'résumé (final).txt', contentType: 'text/plain', content: new TextEncoder().encode('CV') },
+    ],
+  }, null)
+
+  assert(!raw.includes('Message-ID:'))
+  assert(/^Content-Type: multipart\/mixed; boundary="/m.test(raw))
+  assert(raw.indexOf('multipart/alternative') < raw.indexOf('Content-Disposition'))
+  assertStringIncludes(raw, 'Content-Disposition: attachment; filename="report.pdf"\r\n')
+  assertStringIncludes(raw, "Content-Disposition: attachment; filename*=UTF-8''r%C3%A9sum%C3%A9%20%28final%29.txt\r\n")
+
+  const start = raw.indexOf('\r\n\r\n', raw.indexOf('filename="report.pdf"')) + 4
+  const lines = raw.slice(start, raw.indexOf('\r\n--', start)).split('\r\n')
+  assert(lines.every((line) => line.length <= 76))
+  assertEquals(decodeBase64(lines.join('')), content)
+})
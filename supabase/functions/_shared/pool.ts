@@ -0,0 +1,105 @@
+import { classifyFailure } from "./failures.ts"
+import type { DailyLimit, SenderLimits } from "./quota.ts"
+import { recipientDomain } from "./throttle.ts"
+import type { TransportConfig } from "./transports/index.ts"
+
+export type SenderStrategy = 'round_robin' | 'weighted' | 'domain'
+
+export interface PoolSender {
+  // null when the campaign sends with its own SMTP settings
+  profileId: string | null
+  config: TransportConfig
+  limits: SenderLimits
+  // Relative share of the sends under the weighted strategy
+  weight: number
+}
+
+// A sender that fails this many sends in a row, e.g. because its login stopped working, sits
+// out the rest of the run
+const MAX_CONSECUTIVE_FAILURES = 3
+
+function domainHash(domain: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < domain.length; i++) {
+    hash = Math.imul(hash ^ domain.charCodeAt(i), 16777619)
+  }
+  return hash >>> 0
+}
+
+// Picks the sender of each message. Senders leave the pool for the rest of the run once their
+// daily allowance is used up or they keep failing; a campaign with a single sender keeps it.
+export class SenderPool {
+  private available: PoolSender[]
+  private turn = 0
+  private credit = new Map<PoolSender, number>()
+  private failures = new Map<PoolSender, number>()
+  private lastLimit: DailyLimit = 'quota'
+
+  constructor(private senders: PoolSender[], private strategy: SenderStrategy) {
+    this.available = [...senders]
+  }
+
+  // Why the last sender ran out, once none is left
+  get exhaustedBy(): DailyLimit {
+    return this.lastLimit
+  }
+
+  pick(email: string): PoolSender | null {
+    if (this.available.length === 0) return null
+
+    switch (this.strategy) {
+      case 'weighted':
+        return this.pickWeighted()
+      case 'domain':
+        return this.pickForDomain(email)
+      default:
+        return this.available[this.turn++ % this.available.length]
+    }
+  }
+
+  // Out of allowance until the next day
+  exhaust(sender: PoolSender, limit: DailyLimit): void {
+    this.available = this.available.filter((candidate) => candidate !== sender)
+    this.lastLimit = limit
+  }
+
+  recordSuccess(sender: PoolSender): void {
+    this.failures.delete(sender)
+  }
+
+  // Mailbox errors are the recipient's problem and do not count against the sender
+  recordFailure(sender: PoolSender, error: unknown): void {
+    if (classifyFailure(error).kind === 'permanent') return
+
+    const failures = (this.failures.get(sender) ?? 0) + 1
+    this.failures.set(sender, failures)
+    if (failures >= MAX_CONSECUTIVE_FAILURES && this.available.length > 1 && this.available.includes(sender)) {
+      console.log(`Sender ${sender.config.senderEmail} failed ${failures} sends in a row, leaving it out of this run`)
+      this.available = this.available.filter((candidate) => candidate !== sender)
+    }
+  }
+
+  // Smooth weighted round-robin: every sender gets its share, spread out rather than in bursts
+  private pickWeighted(): PoolSender {
+    const total = this.available.reduce((sum, sender) => sum + sender.weight, 0)
+    let best = this.available[0]
+    for (const sender of this.available) {
+      const credit = (this.credit.get(sender) ?? 0) + sender.weight
+      this.credit.set(sender, credit)
+      if (credit > (this.credit.get(best) ?? 0)) best = sender
+    }
+    this.credit.set(best, (this.credit.get(best) ?? 0) - total)
+    return best
+  }
+
+  // A domain maps to the same sender for as long as the pool is unchanged. While that sender
+  // is out, the next one in the pool takes over.
+  private pickForDomain(email: string): PoolSender {
+    const start = domainHash(recipientDomain(email)) % this.senders.length
+    for (let i = 0; i < this.senders.length; i++) {
+      const sender = this.senders[(start + i) % this.senders.length]
+      if (this.available.includes(sender)) return sender
+    }
+    return this.available[0]
+  }
+}
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { decryptSecret, loadStoredPassword } from "./credentials.ts"
+import type { DkimSettings } from "./dkim.ts"
+import type { TransportConfig } from "./transports/index.ts"
+
+// Transport settings of an account-level sender profile, password included. The service role
+// bypasses RLS, so the profile is only returned when it belongs to userId.
+export async function loadSenderProfile(
+  supabase: SupabaseClient,
+  profileId: string,
+  userId: string
+): Promise<TransportConfig> {
+  const { data: profile, error } = await supabase
+    .from('sender_profiles')
+    .select('id, transport, host, port, security, email, username, sender_name')
+    .eq('id', profileId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !profile) {
+    console.error('Error loading sender profile:', error)
+    throw new Error('Sender profile not found')
+  }
+
+  return {
+    transport: profile.transport,
+    host: profile.host ?? '',
+    port: profile.port,
+    security: profile.security,
+    senderEmail: profile.email,
+    senderName: profile.sender_name,
+    username: profile.username ?? undefined,
+    appPassword: await loadStoredPassword(supabase, { column: 'sender_profile_id', id: profile.id }) ?? '',
+    dkim: profile.transport === 'resend' ? undefined : await loadDkimSettings(supabase, profile.id) ?? undefined,
+  }
+}
+
+// The profile's DKIM key, decrypted, or null when none is uploaded
+export async function loadDkimSettings(supabase: SupabaseClient, profileId: string): Promise<DkimSettings | null> {
+  const { data, error } = await supabase
+    .from('sender_dkim_keys')
+    .select('domain, selector, ciphertext')
+    .eq('sender_profile_id', profileId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading DKIM key:', error)
+    throw new Error('Failed to load the DKIM key')
+  }
+
+  return data
+    ? { domain: data.domain, selector: data.selector, privateKey: await decryptSecret(data.ciphertext) }
+    : null
+}
+
+export async function recordProfileTest(
+  supabase: SupabaseClient,
+  profileId: string,
+  error: string | null
+): Promise<void> {
+  const { error: updateError } = await supabase
+    .from('sender_profiles')
+    .update({
+      last_tested_at: new Date().toISOString(),
+      last_test_ok: error === null,
+      last_test_error: error,
+    })
+    .eq('id', profileId)
+
+  if (updateError) {
+    console.error('Error recording sender profile test:', updateError)
+  }
+}
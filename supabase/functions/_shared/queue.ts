@@ -0,0 +1,366 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { classifyFailure, type FailureRecord } from "./failures.ts"
+import { SENT_STATUSES } from "./events.ts"
+
+export const QUEUE_WORKER_FUNCTION = 'process-campaign-queue'
+
+export interface QueuedRecipient {
+  id: string
+  campaign_id: string
+  user_id: string
+  email: string
+  position: number | null
+  data: Record<string, string>
+  timezone: string | null
+  cc: string[]
+  bcc: string[]
+  reply_to: string | null
+  from_email: string | null
+  from_name: string | null
+  attempts: number
+  error_history: FailureRecord[]
+}
+
+export async function claimRecipients(
+  supabase: SupabaseClient,
+  campaignId: string,
+  workerId: string,
+  limit: number,
+  leaseSeconds: number
+): Promise<QueuedRecipient[]> {
+  const { data, error } = await supabase.rpc('claim_recipients', {
+    p_campaign_id: campaignId,
+    p_worker: workerId,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    console.error('Error claiming recipients:', error)
+    throw new Error('Failed to claim recipients')
+  }
+
+  return ((data ?? []) as QueuedRecipient[]).sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+}
+
+// Moves a leased row to 'sending'. Returns false when the lease was lost to another
+// worker, in which case the caller must not send.
+export async function markSending(
+  supabase: SupabaseClient,
+  recipient: QueuedRecipient,
+  workerId: string,
+  leaseSeconds: number
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .update({
+      status: 'sending',
+      attempts: recipient.attempts + 1,
+      locked_until: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+    })
+    .eq('id', recipient.id)
+    .eq('locked_by', workerId)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) {
+    console.error('Error marking recipient as sending:', error)
+    return false
+  }
+
+  return (data ?? []).length === 1
+}
+
+// The provider's message id links later webhook events back to the recipient. `sender` is
+// the profile and address the message went out through. Like the updates below, it only
+// applies while this worker still holds the row in 'sending', so a worker whose lease ran out
+// cannot overwrite a row that was settled or claimed again in the meantime.
+export async function markSent(
+  supabase: SupabaseClient,
+  recipientId: string,
+  workerId: string,
+  messageId: string,
+  sender: { profileId: string | null, email: string }
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .update({
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      provider_message_id: messageId || null,
+      sender_profile_id: sender.profileId,
+      sender_email: sender.email,
+      error_message: null,
+      failure_kind: null,
+      next_attempt_at: null,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', recipientId)
+    .eq('locked_by', workerId)
+    .eq('status', 'sending')
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to record the sent email: ${error.message}`)
+  }
+  if (!data?.length) {
+    console.log(`Lost lease on recipient ${recipientId} before recording it as sent`)
+  }
+}
+
+// Called after markSending, so recipient.attempts + 1 is the attempt that just failed
+export async function markFailed(
+  supabase: SupabaseClient,
+  recipient: QueuedRecipient,
+  workerId: string,
+  error: unknown
+): Promise<void> {
+  const { kind, code } = classifyFailure(error)
+  const message = error instanceof Error ? error.message : String(error)
+  const failure: FailureRecord = {
+    at: new Date().toISOString(),
+    attempt: recipient.attempts + 1,
+    kind,
+    code,
+    message,
+  }
+
+  await supabase
+    .from('recipients')
+    .update({
+      status: 'failed',
+      error_message: message,
+      failure_kind: kind,
+      error_history: [...(recipient.error_history ?? []), failure],
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', recipient.id)
+    .eq('locked_by', workerId)
+    .eq('status', 'sending')
+}
+
+// Puts a recipient the provider refused over the sender's quota back in the queue, for another
+// sender of the pool or the next day. The attempt does not count, since the message was fine.
+export async function requeueRecipient(
+  supabase: SupabaseClient,
+  recipient: QueuedRecipient,
+  workerId: string
+): Promise<void> {
+  await supabase
+    .from('recipients')
+    .update({
+      status: 'pending',
+      attempts: recipient.attempts,
+      next_attempt_at: null,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', recipient.id)
+    .eq('locked_by', workerId)
+    .eq('status', 'sending')
+}
+
+// Records a leased recipient as skipped instead of sending, e.g. once its address is suppressed
+export async function skipRecipient(
+  supabase: SupabaseClient,
+  recipientId: string,
+  workerId: string,
+  reason: string
+): Promise<void> {
+  await supabase
+    .from('recipients')
+    .update({
+      status: 'skipped',
+      error_message: reason,
+      next_attempt_at: null,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', recipientId)
+    .eq('locked_by', workerId)
+    .eq('status', 'pending')
+}
+
+// Returns a leased row to the queue untouched until `until`, e.g. when its delivery window is closed
+export async function holdRecipient(
+  supabase: SupabaseClient,
+  recipientId: string,
+  workerId: string,
+  until: number
+): Promise<void> {
+  await supabase
+    .from('recipients')
+    .update({
+      next_attempt_at: new Date(until).toISOString(),
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', recipientId)
+    .eq('locked_by', workerId)
+    .eq('status', 'pending')
+}
+
+// Moves every waiting recipient of the campaign to `until` at the earliest, e.g. once the
+// sender's daily cap is used up. Rows already waiting longer keep their time.
+export async function deferPendingRecipients(supabase: SupabaseClient, campaignId: string, until: number): Promise<void> {
+  const nextAttemptAt = new Date(until).toISOString()
+
+  const { error: unscheduledError } = await supabase
+    .from('recipients')
+    .update({ next_attempt_at: nextAttemptAt })
+    .eq('campaign_id', campaignId)
+    .eq('status', 'pending')
+    .is('next_attempt_at', null)
+
+  const { error: earlierError } = await supabase
+    .from('recipients')
+    .update({ next_attempt_at: nextAttemptAt })
+    .eq('campaign_id', campaignId)
+    .eq('status', 'pending')
+    .lt('next_attempt_at', nextAttemptAt)
+
+  if (unscheduledError || earlierError) {
+    console.error('Error deferring recipients:', unscheduledError ?? earlierError)
+    throw new Error('Failed to defer recipients')
+  }
+}
+
+// Shown in the app while the campaign's leftover recipients wait for a daily allowance
+export async function markCampaignWaiting(
+  supabase: SupabaseClient,
+  campaignId: string,
+  until: number,
+  reason: 'warmup' | 'quota'
+): Promise<void> {
+  await supabase
+    .from('campaigns')
+    .update({ waiting_until: new Date(until).toISOString(), waiting_reason: reason })
+    .eq('id', campaignId)
+}
+
+// Once the wait is over; a campaign that hits the limit again is marked anew
+export async function clearCampaignWaiting(supabase: SupabaseClient, campaignId: string): Promise<void> {
+  await supabase
+    .from('campaigns')
+    .update({ waiting_until: null, waiting_reason: null })
+    .eq('id', campaignId)
+    .lte('waiting_until', new Date().toISOString())
+}
+
+// Hands back rows this worker leased but never started, so the next run can claim them at once
+export async function releaseLeases(supabase: SupabaseClient, workerId: string): Promise<void> {
+  await supabase
+    .from('recipients')
+    .update({ locked_by: null, locked_until: null })
+    .eq('locked_by', workerId)
+    .eq('status', 'pending')
+}
+
+// Sends of the last minute, used to seed the throttle of a fresh worker run
+export async function recentSends(supabase: SupabaseClient, campaignId: string): Promise<{ email: string, at: number }[]> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .select('email, sent_at')
+    .eq('campaign_id', campaignId)
+    .in('status', SENT_STATUSES)
+    .gte('sent_at', new Date(Date.now() - 60 * 1000).toISOString())
+
+  if (error) {
+    console.error('Error loading recent sends:', error)
+    return []
+  }
+
+  return (data ?? []).map((row) => ({ email: row.email, at: new Date(row.sent_at).getTime() }))
+}
+
+// Earliest time a pending recipient waiting on retry backoff or its delivery window becomes claimable
+export async function nextScheduledAttempt(supabase: SupabaseClient, campaignId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('recipients')
+    .select('next_attempt_at')
+    .eq('campaign_id', campaignId)
+    .eq('status', 'pending')
+    .not('next_attempt_at', 'is', null)
+    .order('next_attempt_at', { ascending: true })
+    .limit(1)
+
+  if (error) {
+    console.error('Error loading next retry time:', error)
+    return null
+  }
+
+  return data?.length ? new Date(data[0].next_attempt_at).getTime() : null
+}
+
+async function countByStatus(supabase: SupabaseClient, campaignId: string, statuses: string[]): Promise<number> {
+  const { count, error } = await supabase
+    .from('recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId)
+    .in('status', statuses)
+
+  if (error) {
+    console.error('Error counting recipients:', error)
+    throw new Error('Failed to count recipients')
+  }
+
+  return count ?? 0
+}
+
+export async function getCampaignStatus(supabase: SupabaseClient, campaignId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('status')
+    .eq('id', campaignId)
+    .single()
+
+  if (error) {
+    console.error('Error loading campaign status:', error)
+    throw new Error('Failed to load campaign status')
+  }
+
+  return data.status
+}
+
+// Counts are derived from the recipients table rather than kept in memory, so they stay
+// correct across worker restarts. Returns the number of recipients still queued.
+export async function refreshCampaignProgress(supabase: SupabaseClient, campaignId: string): Promise<number> {
+  const sentCount = await countByStatus(supabase, campaignId, SENT_STATUSES)
+  const failedCount = await countByStatus(supabase, campaignId, ['failed'])
+  const remaining = await countByStatus(supabase, campaignId, ['pending', 'sending'])
+
+  await supabase
+    .from('campaigns')
+    .update({
+      sent_count: sentCount,
+      failed_count: failedCount,
+    })
+    .eq('id', campaignId)
+
+  // Paused campaigns keep their pending rows; only a running campaign can complete
+  if (remaining === 0) {
+    await supabase
+      .from('campaigns')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', campaignId)
+      .eq('status', 'active')
+  }
+
+  return remaining
+}
+
+// Invokes the queue worker; the client must be created with the service role key
+export async function triggerQueueWorker(supabase: SupabaseClient, campaignId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke(QUEUE_WORKER_FUNCTION, {
+    body: { campaignId }
+  })
+
+  if (error) {
+    console.error('Error triggering queue worker:', error)
+  }
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { accountKey, type SenderAccount } from "./accounts.ts"
+import { dailyCap, utcDay, type WarmupPlan } from "./warmup.ts"
+
+export type DailyLimit = 'warmup' | 'quota'
+
+// Whose allowances a campaign's sends count against
+export interface SenderLimits {
+  userId: string
+  // The warm-up plan belongs to the sender: "profile:<id>" or "config:<id>"
+  key: string
+  warmup: WarmupPlan | null
+  // The provider's quota belongs to the login, whichever profiles and configs share it
+  accountKey: string
+  dailyQuota: number | null
+}
+
+// A sender_profiles or smtp_configs row
+interface LimitedSender extends SenderAccount {
+  warmup: WarmupPlan | null
+  daily_quota: number | null
+}
+
+export function senderLimits(userId: string, key: string, sender: LimitedSender): SenderLimits {
+  return {
+    userId,
+    key,
+    warmup: sender.warmup ?? null,
+    accountKey: accountKey(userId, sender),
+    dailyQuota: sender.daily_quota ?? null,
+  }
+}
+
+// The limits of the campaign's sender profile, or of its own SMTP config
+export async function loadSenderLimits(supabase: SupabaseClient, campaignId: string): Promise<SenderLimits> {
+  const { data: config, error } = await supabase
+    .from('smtp_configs')
+    .select('id, user_id, sender_profile_id, warmup, daily_quota, transport, host, email, username')
+    .eq('campaign_id', campaignId)
+    .single()
+
+  if (error) {
+    console.error('Error loading sender limits:', error)
+    throw new Error('Failed to load SMTP configuration')
+  }
+
+  if (config.sender_profile_id) {
+    const { data: profile, error: profileError } = await supabase
+      .from('sender_profiles')
+      .select('warmup, daily_quota, transport, host, email, username')
+      .eq('id', config.sender_profile_id)
+      .eq('user_id', config.user_id)
+      .single()
+
+    if (profileError) {
+      console.error('Error loading sender profile limits:', profileError)
+      throw new Error('Sender profile not found')
+    }
+
+    return senderLimits(config.user_id, `profile:${config.sender_profile_id}`, profile)
+  }
+
+  return senderLimits(config.user_id, `config:${config.id}`, config)
+}
+
+// Takes one send from today's allowances. Returns the limit that is used up, or null when
+// the send may go ahead.
+export async function reserveDailySend(
+  supabase: SupabaseClient,
+  sender: SenderLimits,
+  now: Date
+): Promise<DailyLimit | null> {
+  // The account is always checked: without a quota (a null cap) it is only used up once the
+  // provider has refused a send today
+  const allowances = [
+    ...(sender.warmup ? [{ key: sender.key, cap: dailyCap(sender.warmup, now) }] : []),
+    { key: sender.accountKey, cap: sender.dailyQuota },
+  ]
+
+  const { data, error } = await supabase.rpc('reserve_daily_send', {
+    p_user_id: sender.userId,
+    p_sender_keys: allowances.map((allowance) => allowance.key),
+    p_caps: allowances.map((allowance) => allowance.cap),
+    p_day: utcDay(now),
+  })
+
+  if (error) {
+    console.error('Error reserving daily send:', error)
+    throw new Error('Failed to check the daily sending cap')
+  }
+
+  if (!data) return null
+  return data === sender.accountKey ? 'quota' : 'warmup'
+}
+
+// The provider refused a message over its quota before our own count got there, e.g. because
+// the account also sends from a mail client. Marks the day as used up so other campaigns on
+// the same account stop too, in this run and the next ones. A configured quota is also filled
+// up so the dashboard shows it as used.
+export async function exhaustAccountQuota(supabase: SupabaseClient, sender: SenderLimits, now: Date): Promise<void> {
+  const { error } = await supabase
+    .from('sender_daily_usage')
+    .upsert(
+      {
+        sender_key: sender.accountKey,
+        day: utcDay(now),
+        user_id: sender.userId,
+        quota_refused: true,
+        ...(sender.dailyQuota ? { sent: sender.dailyQuota } : {}),
+      },
+      { onConflict: 'sender_key,day' }
+    )
+
+  if (error) {
+    console.error('Error recording exhausted quota:', error)
+  }
+}
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { htmlToText } from "./content.ts"
+import type { OutgoingMessage } from "./mime.ts"
+import type { QueuedRecipient } from "./queue.ts"
+import type { SendResult } from "./transports/index.ts"
+
+// SHA-256 of the rendered content, hex encoded. The parts are joined with NUL so moving text
+// between them changes the hash.
+export async function contentHash(subject: string, html: string, text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode([subject, html, text].join('\0')))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Keeps a copy of the email exactly as it was handed to the provider, tracking links included.
+// The email is already out, so a failed insert is only logged.
+export async function saveSentMessage(
+  supabase: SupabaseClient,
+  recipient: QueuedRecipient,
+  message: OutgoingMessage,
+  result: SendResult
+): Promise<void> {
+  const text = message.text ?? htmlToText(message.html)
+
+  const { error } = await supabase
+    .from('sent_messages')
+    .insert({
+      recipient_id: recipient.id,
+      campaign_id: recipient.campaign_id,
+      user_id: recipient.user_id,
+      message_id: result.headerMessageId ?? null,
+      from_email: message.from.email,
+      from_name: message.from.name ?? null,
+      subject: message.subject,
+      html_body: message.html,
+      text_body: text,
+      headers: message.headers ?? {},
+      attachments: (message.attachments ?? []).map((attachment) => ({
+        filename: attachment.filename,
+        content_type: attachment.contentType,
+        size_bytes: attachment.content.length,
+      })),
+      content_hash: await contentHash(message.subject, message.html, text),
+      provider_response: result.response ?? null,
+      message_date: result.date?.toISOString() ?? null,
+    })
+
+  if (error) {
+    console.error(`Error saving sent message for recipient ${recipient.id}:`, error)
+  }
+}
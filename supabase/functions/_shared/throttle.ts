@@ -0,0 +1,63 @@
+export interface ThrottleSettings {
+  messagesPerMinute: number
+  maxConcurrency: number
+  // Recipient domain -> messages per minute
+  domainLimits: Record<string, number>
+}
+
+const WINDOW_MS = 60 * 1000
+
+export function recipientDomain(email: string): string {
+  return email.split('@').pop()?.trim().toLowerCase() ?? ''
+}
+
+// Paces message starts for one campaign: an even spacing derived from the overall
+// rate, plus a sliding one-minute window for every domain that has its own limit.
+export class SendThrottle {
+  private lastStart = 0
+  private domainStarts = new Map<string, number[]>()
+
+  constructor(private settings: ThrottleSettings) {}
+
+  get concurrency(): number {
+    return Math.max(1, this.settings.maxConcurrency)
+  }
+
+  // Replays sends from a previous worker run so limits hold across hand-offs
+  seed(sends: { email: string, at: number }[]): void {
+    for (const send of sends) {
+      this.lastStart = Math.max(this.lastStart, send.at)
+      this.recordDomain(send.email, send.at)
+    }
+  }
+
+  globalWait(now = Date.now()): number {
+    const interval = WINDOW_MS / Math.max(1, this.settings.messagesPerMinute)
+    return Math.max(0, this.lastStart + interval - now)
+  }
+
+  domainWait(email: string, now = Date.now()): number {
+    const domain = recipientDomain(email)
+    const limit = this.settings.domainLimits[domain]
+    if (!limit) return 0
+
+    const starts = this.recentStarts(domain, now)
+    if (starts.length < limit) return 0
+    return starts[starts.length - limit] + WINDOW_MS - now
+  }
+
+  record(email: string, now = Date.now()): void {
+    this.lastStart = now
+    this.recordDomain(email, now)
+  }
+
+  private recordDomain(email: string, at: number): void {
+    const domain = recipientDomain(email)
+    if (!this.settings.domainLimits[domain]) return
+    this.domainStarts.set(domain, [...this.recentStarts(domain, at), at].sort((a, b) => a - b))
+  }
+
+  private recentStarts(domain: string, now: number): number[] {
+    return (this.domainStarts.get(domain) ?? []).filter((at) => at > now - WINDOW_MS)
+  }
+}
@@ -0,0 +1,75 @@
+import { decodeEntities, escapeHtml } from "./content.ts"
+import { signValue } from "./unsubscribe.ts"
+
+export interface TrackingSettings {
+  opens: boolean
+  clicks: boolean
+}
+
+function trackUrl(params: Record<string, string>): string {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/track?${new URLSearchParams(params)}`
+}
+
+// Signed values, so the endpoint cannot be used as an open redirect or to log fake events
+export function openSignatureValue(recipientId: string): string {
+  return `open.${recipientId}`
+}
+
+export function clickSignatureValue(recipientId: string, url: string): string {
+  return `click.${recipientId}.${url}`
+}
+
+const ANCHOR_HREF = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi
+
+// Points every http(s) link at the track function, which logs the click and redirects to the
+// original URL. The href is entity-decoded first, so the redirect goes exactly where the browser
+// would have gone, query string and anchor included.
+async function trackLinks(html: string, recipientId: string, skipUrls: string[]): Promise<string> {
+  const tracked = new Map<string, string>()
+  for (const match of html.matchAll(ANCHOR_HREF)) {
+    const url = decodeEntities(match[3].trim())
+    if (/^https?:\/\//i.test(url) && !skipUrls.includes(url) && !tracked.has(url)) {
+      tracked.set(url, trackUrl({
+        type: 'click',
+        r: recipientId,
+        u: url,
+        s: await signValue(clickSignatureValue(recipientId, url)),
+      }))
+    }
+  }
+
+  return html.replace(ANCHOR_HREF, (anchor, start: string, quote: string, href: string) => {
+    const trackingUrl = tracked.get(decodeEntities(href.trim()))
+    return trackingUrl ? `${start}${quote}${escapeHtml(trackingUrl)}${quote}` : anchor
+  })
+}
+
+async function addOpenPixel(html: string, recipientId: string): Promise<string> {
+  const src = trackUrl({
+    type: 'open',
+    r: recipientId,
+    s: await signValue(openSignatureValue(recipientId)),
+  })
+  const pixel = `<img src="${escapeHtml(src)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0">`
+
+  const bodyEnd = html.search(/<\/body>/i)
+  return bodyEnd === -1 ? `${html}\n${pixel}` : `${html.slice(0, bodyEnd)}${pixel}${html.slice(bodyEnd)}`
+}
+
+// Only the HTML part is tracked; the plain-text part keeps the original links. `skipUrls` are
+// left alone, such as the unsubscribe link.
+export async function applyTracking(
+  html: string,
+  recipientId: string,
+  settings: TrackingSettings,
+  skipUrls: string[] = []
+): Promise<string> {
+  let result = html
+  if (settings.clicks) {
+    result = await trackLinks(result, recipientId, skipUrls)
+  }
+  if (settings.opens) {
+    result = await addOpenPixel(result, recipientId)
+  }
+  return result
+}
@@ -0,0 +1,26 @@
+import { ResendTransport } from "./resend.ts"
+import { defaultSecurityForPort, SmtpTransport } from "./smtp.ts"
+import type { MailTransport, TransportConfig } from "./types.ts"
+
+export * from "./types.ts"
+export { SmtpConnection, SmtpError, SmtpTransport, defaultSecurityForPort } from "./smtp.ts"
+export { ResendError, ResendTransport } from "./resend.ts"
+export { diagnoseSmtpConnection, type ConnectionDiagnostic, type DiagnosticStep } from "./verify.ts"
+
+export function createTransport(config: TransportConfig): MailTransport {
+  switch (config.transport ?? 'smtp') {
+    case 'resend':
+      return new ResendTransport(Deno.env.get('RESEND_API_KEY'))
+    case 'smtp':
+      return new SmtpTransport({
+        host: config.host,
+        port: config.port,
+        security: config.security ?? defaultSecurityForPort(config.port),
+        username: config.username || config.senderEmail,
+        password: config.appPassword,
+        dkim: config.dkim,
+      })
+    default:
+      throw new Error(`Unknown transport: ${config.transport}`)
+  }
+}
@@ -0,0 +1,60 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { Resend } from "npm:resend@2.0.0"
+import { htmlToText } from "../content.ts"
+import { createMessageId, formatAddress, type OutgoingMessage } from "../mime.ts"
+import type { MailTransport, SendResult } from "./types.ts"
+
+// An error returned by the Resend API. The message keeps Resend's error name and status, so
+// failures can be classified again from the stored message.
+export class ResendError extends Error {
+  errorName?: string
+  statusCode?: number
+
+  constructor(error: { message: string, name?: string, statusCode?: number }) {
+    const details = [error.name, error.statusCode ? `HTTP ${error.statusCode}` : ''].filter(Boolean).join(', ')
+    super(`Failed to send email: ${error.message}${details ? ` (${details})` : ''}`)
+    this.name = 'ResendError'
+    this.errorName = error.name
+    this.statusCode = error.statusCode
+  }
+}
+
+export class ResendTransport implements MailTransport {
+  readonly name = 'resend' as const
+  private client: Resend
+
+  constructor(apiKey: string | undefined) {
+    if (!apiKey) {
+      throw new Error('RESEND_API_KEY is not configured')
+    }
+    this.client = new Resend(apiKey)
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    // Resend would write a Message-ID of its own and not report it back, so it is set here and
+    // kept with the sent copy
+    const headerMessageId = createMessageId(message.from.email)
+    const emailResponse = await this.client.emails.send({
+      from: formatAddress(message.from),
+      to: message.to.map((address) => address.email),
+      cc: message.cc?.map((address) => address.email),
+      bcc: message.bcc?.map((address) => address.email),
+      reply_to: message.replyTo?.email,
+      subject: message.subject,
+      html: message.html,
+      text: message.text ?? htmlToText(message.html),
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: encodeBase64(attachment.content),
+      })),
+      headers: { ...message.headers, 'Message-ID': headerMessageId },
+    })
+
+    if (emailResponse.error) {
+      console.error('Resend error:', emailResponse.error)
+      throw new ResendError(emailResponse.error)
+    }
+
+    return { messageId: emailResponse.data?.id ?? '', headerMessageId }
+  }
+}
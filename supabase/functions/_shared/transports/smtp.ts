@@ -0,0 +1,282 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { signMessage, type DkimSettings } from "../dkim.ts"
+import { buildMessage, createMessageId, type OutgoingMessage } from "../mime.ts"
+import type { MailTransport, SendResult, SmtpSecurity } from "./types.ts"
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  security: SmtpSecurity
+  username: string
+  password: string
+  clientName?: string
+  timeoutMs?: number
+  dkim?: DkimSettings
+}
+
+export interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+export class SmtpError extends Error {
+  code?: number
+  response?: string
+
+  constructor(message: string, reply?: SmtpReply) {
+    super(reply ? `${message}: ${reply.code} ${reply.lines.join(' ')}` : message)
+    this.name = 'SmtpError'
+    this.code = reply?.code
+    this.response = reply?.lines.join('\n')
+  }
+}
+
+const encoder = new TextEncoder()
+
+export function defaultSecurityForPort(port: number): SmtpSecurity {
+  return port === 465 ? 'tls' : 'starttls'
+}
+
+// Lines starting with a dot must be escaped so they are not read as end-of-data
+export function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+}
+
+export class SmtpConnection {
+  private conn: Deno.Conn | null = null
+  private buffer = ''
+  // Streaming, so a multibyte character split across reads decodes correctly
+  private decoder = new TextDecoder()
+  private extensions = new Map<string, string>()
+
+  constructor(private options: SmtpOptions) {}
+
+  get tls(): boolean {
+    return this.conn !== null && 'handshake' in this.conn
+  }
+
+  supports(extension: string): boolean {
+    return this.extensions.has(extension.toUpperCase())
+  }
+
+  authMechanisms(): string[] {
+    return (this.extensions.get('AUTH') ?? '').toUpperCase().split(/\s+/).filter(Boolean)
+  }
+
+  async connect(): Promise<SmtpReply> {
+    await this.connectTcp()
+    if (this.options.security === 'tls') {
+      await this.upgradeTls()
+    }
+    return this.greeting()
+  }
+
+  // The steps of connect(), kept separate so a diagnostic can tell which one failed
+  async connectTcp(): Promise<void> {
+    const { host, port } = this.options
+    const connecting = Deno.connect({ hostname: host, port })
+    try {
+      this.conn = await this.withTimeout(connecting, 'the connection')
+    } catch (error) {
+      // A connection that completes after the timeout is closed right away
+      connecting.then((conn: Deno.Conn) => conn.close(), () => {})
+      throw error
+    }
+  }
+
+  async upgradeTls(): Promise<void> {
+    const tls = await this.withTimeout(
+      Deno.startTls(this.conn as Deno.TcpConn, { hostname: this.options.host }),
+      'the TLS handshake'
+    )
+    this.conn = tls
+    this.buffer = ''
+    this.decoder = new TextDecoder()
+    // The handshake would otherwise run lazily on the first read
+    await this.withTimeout(tls.handshake(), 'the TLS handshake')
+  }
+
+  async greeting(): Promise<SmtpReply> {
+    return this.expect(await this.readReply(), [220], 'Server rejected connection')
+  }
+
+  async ehlo(): Promise<SmtpReply> {
+    const reply = await this.command(`EHLO ${this.options.clientName ?? 'localhost'}`, [250])
+    this.extensions.clear()
+    for (const line of reply.lines.slice(1)) {
+      const [keyword, ...params] = line.split(' ')
+      this.extensions.set(keyword.toUpperCase(), params.join(' '))
+    }
+    return reply
+  }
+
+  async startTls(): Promise<void> {
+    if (!this.supports('STARTTLS')) {
+      throw new SmtpError('Server does not support STARTTLS')
+    }
+    await this.command('STARTTLS', [220])
+    await this.upgradeTls()
+    await this.ehlo()
+  }
+
+  async authenticate(): Promise<string> {
+    const { username, password } = this.options
+    const mechanisms = this.authMechanisms()
+
+    if (mechanisms.includes('PLAIN')) {
+      const credentials = encodeBase64(encoder.encode(`\0${username}\0${password}`))
+      await this.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+      return 'PLAIN'
+    }
+
+    if (mechanisms.includes('LOGIN')) {
+      await this.command('AUTH LOGIN', [334])
+      await this.command(encodeBase64(encoder.encode(username)), [334], 'AUTH')
+      await this.command(encodeBase64(encoder.encode(password)), [235], 'AUTH')
+      return 'LOGIN'
+    }
+
+    throw new SmtpError(`Server does not offer a supported AUTH mechanism (offered: ${mechanisms.join(', ') || 'none'})`)
+  }
+
+  // Connects, negotiates TLS as configured and authenticates when a password is set
+  async open(): Promise<void> {
+    await this.connect()
+    await this.ehlo()
+    if (this.options.security === 'starttls') {
+      await this.startTls()
+    }
+    if (this.options.password) {
+      await this.authenticate()
+    }
+  }
+
+  async sendMail(envelopeFrom: string, recipients: string[], data: string): Promise<SmtpReply> {
+    await this.command(`MAIL FROM:<${envelopeFrom}>`, [250])
+    for (const recipient of recipients) {
+      await this.command(`RCPT TO:<${recipient}>`, [250, 251])
+    }
+    await this.command('DATA', [354])
+    await this.write(`${dotStuff(data).replace(/\r\n$/, '')}\r\n.\r\n`)
+    return this.expect(await this.readReply(), [250], 'Message rejected')
+  }
+
+  async quit(): Promise<void> {
+    try {
+      await this.command('QUIT', [221])
+    } catch {
+      // The message is already accepted, a failed QUIT is not an error
+    } finally {
+      this.close()
+    }
+  }
+
+  close(): void {
+    try {
+      this.conn?.close()
+    } catch {
+      // Already closed
+    }
+    this.conn = null
+  }
+
+  // `label` keeps credentials sent during AUTH out of error messages
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    await this.write(`${line}\r\n`)
+    return this.expect(await this.readReply(), expected, `${label} failed`)
+  }
+
+  private expect(reply: SmtpReply, expected: number[], message: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(message, reply)
+    }
+    return reply
+  }
+
+  private async write(data: string): Promise<void> {
+    if (!this.conn) throw new SmtpError('Not connected')
+    const bytes = encoder.encode(data)
+    let written = 0
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written))
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const chunk = new Uint8Array(4096)
+    while (!this.buffer.includes('\r\n')) {
+      if (!this.conn) throw new SmtpError('Not connected')
+      const read = await this.conn.read(chunk)
+      if (read === null) {
+        throw new SmtpError('Connection closed by server')
+      }
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true })
+    }
+    const index = this.buffer.indexOf('\r\n')
+    const line = this.buffer.slice(0, index)
+    this.buffer = this.buffer.slice(index + 2)
+    return line
+  }
+
+  // Multi-line replies use "250-" for continuation lines and "250 " for the last one
+  async readReply(): Promise<SmtpReply> {
+    const read = async (): Promise<SmtpReply> => {
+      const lines: string[] = []
+      while (true) {
+        const line = await this.readLine()
+        lines.push(line.slice(4))
+        if (line.length < 4 || line[3] !== '-') {
+          return { code: parseInt(line.slice(0, 3), 10), lines }
+        }
+      }
+    }
+
+    return this.withTimeout(read(), 'server reply')
+  }
+
+  // Closes the connection when the server does not answer in time, so a stalled connect,
+  // handshake or reply cannot hold a sending lane until the function is shut down
+  private async withTimeout<T>(operation: Promise<T>, waitingFor: string): Promise<T> {
+    const timeoutMs = this.options.timeoutMs ?? 30000
+    let timer: number | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        this.close()
+        reject(new SmtpError(`Timed out after ${timeoutMs}ms waiting for ${waitingFor}`))
+      }, timeoutMs)
+    })
+
+    try {
+      return await Promise.race([operation, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp' as const
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const messageId = createMessageId(message.from.email)
+    const date = new Date()
+    const built = buildMessage(message, messageId, date)
+    const data = this.options.dkim ? await signMessage(built, this.options.dkim) : built
+    const connection = new SmtpConnection(this.options)
+
+    try {
+      await connection.open()
+      const reply = await connection.sendMail(
+        message.from.email,
+        [...message.to, ...message.cc ?? [], ...message.bcc ?? []].map((address) => address.email),
+        data
+      )
+      await connection.quit()
+      return { messageId, headerMessageId: messageId, response: `${reply.code} ${reply.lines.join(' ')}`, date }
+    } finally {
+      connection.close()
+    }
+  }
+}
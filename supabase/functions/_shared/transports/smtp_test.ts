@@ -0,0 +1,16 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts"
+import { dotStuff } from "./smtp.ts"
+
+// Run with: deno test supabase/functions/_shared/transports/smtp_test.ts
+
+Deno.test('lines starting with a dot get a second dot', () => {
+  assertEquals(dotStuff('.\r\n..twice\r\n.hidden'), '..\r\n...twice\r\n..hidden')
+})
+
+Deno.test('dots elsewhere in a line are left alone', () => {
+  assertEquals(dotStuff('Hello.\r\nSee example.com .'), 'Hello.\r\nSee example.com .')
+})
+
+Deno.test('bare line feeds become CRLF before stuffing', () => {
+  assertEquals(dotStuff('first\n.\nlast'), 'first\r\n..\r\nlast')
+})
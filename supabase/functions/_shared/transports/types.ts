@@ -0,0 +1,37 @@
+import type { DkimSettings } from "../dkim.ts"
+import type { OutgoingMessage } from "../mime.ts"
+
+export type TransportKind = 'smtp' | 'resend'
+
+export type SmtpSecurity = 'starttls' | 'tls' | 'none'
+
+// Shape of the `smtp` block posted by the campaign functions
+export interface TransportConfig {
+  transport?: TransportKind
+  host: string
+  port: number
+  security?: SmtpSecurity
+  senderEmail: string
+  senderName: string
+  // Defaults to senderEmail; SendGrid and similar relays expect a fixed login
+  username?: string
+  appPassword: string
+  // Sender profiles with a DKIM key sign what they send over SMTP
+  dkim?: DkimSettings
+}
+
+export interface SendResult {
+  // The provider's id for the message, which its webhook events refer to. Over SMTP this is the
+  // Message-ID header.
+  messageId: string
+  // The Message-ID header the recipient gets
+  headerMessageId?: string
+  response?: string
+  // Date header, for transports that build the message themselves
+  date?: Date
+}
+
+export interface MailTransport {
+  readonly name: TransportKind
+  send(message: OutgoingMessage): Promise<SendResult>
+}
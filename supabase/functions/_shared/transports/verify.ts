@@ -0,0 +1,224 @@
+import { SmtpConnection, SmtpError, type SmtpOptions } from "./smtp.ts"
+
+export type DiagnosticStepName = 'dns' | 'tcp' | 'tls' | 'greeting' | 'ehlo' | 'auth'
+
+export interface DiagnosticStep {
+  step: DiagnosticStepName
+  status: 'passed' | 'failed' | 'skipped'
+  detail: string
+  // SMTP reply code, when the server answered the step
+  code?: number
+  durationMs: number
+}
+
+export interface ConnectionDiagnostic {
+  ok: boolean
+  steps: DiagnosticStep[]
+  // Most likely cause of the first failed step
+  hint?: string
+}
+
+const DIAGNOSTIC_TIMEOUT_MS = 10000
+
+class StepTimeout extends Error {
+  constructor(ms: number) {
+    super(`No answer within ${ms / 1000}s`)
+    this.name = 'StepTimeout'
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, onTimeout: () => void): Promise<T> {
+  let timer: number | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout()
+      reject(new StepTimeout(ms))
+    }, ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':')
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')])
+  return lookups.flatMap((lookup) => lookup.status === 'fulfilled' ? lookup.value : [])
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function isLookupError(error: unknown): boolean {
+  return /lookup|resolve|name or service|nodename|ENOTFOUND/i.test(messageOf(error))
+}
+
+function hintFor(step: DiagnosticStepName, error: unknown, options: SmtpOptions): string {
+  const { host, port, security } = options
+  const message = messageOf(error)
+  const code = error instanceof SmtpError ? error.code : undefined
+
+  switch (step) {
+    case 'dns':
+      return `"${host}" could not be resolved. Check the host name for typos.`
+    case 'tcp':
+      if (error instanceof Deno.errors.ConnectionRefused) {
+        return `${host} refused the connection on port ${port}. Check the port number.`
+      }
+      if (error instanceof StepTimeout) {
+        return `Nothing answered on port ${port}. The port is probably wrong or blocked by a firewall; most providers use 587 (STARTTLS) or 465 (SSL/TLS).`
+      }
+      return `Could not connect to ${host}:${port}.`
+    case 'tls':
+      if (/certificate|issuer|NotValidForName/i.test(message)) {
+        return `The server's TLS certificate is not valid for ${host}.`
+      }
+      if (security === 'tls') {
+        return `Port ${port} did not start a TLS session. If the server expects STARTTLS (usually port 587), choose STARTTLS.`
+      }
+      if (/STARTTLS/.test(message)) {
+        return `The server does not offer STARTTLS on port ${port}. Use SSL/TLS on port 465, or "None" only for local test servers.`
+      }
+      return 'The TLS handshake failed.'
+    case 'greeting':
+      if (error instanceof SmtpError && /Timed out/.test(message) && security !== 'tls') {
+        return `The server sent no greeting. If port ${port} expects TLS from the start (usually 465), choose SSL/TLS.`
+      }
+      return 'The server did not accept the connection as an SMTP session.'
+    case 'ehlo':
+      return 'The server rejected the EHLO greeting.'
+    case 'auth':
+      if (code === 535) {
+        return 'The server rejected the username or password. Gmail, Outlook and Yahoo need an app password here, not the account password.'
+      }
+      if (code === 534) {
+        return 'The provider blocked this sign-in. It usually requires an app password or has SMTP access disabled for the account.'
+      }
+      if (code === 530 || code === 538) {
+        return 'The server only accepts AUTH on an encrypted connection. Choose STARTTLS or SSL/TLS.'
+      }
+      return 'Authentication failed.'
+  }
+}
+
+// Walks through connecting to an SMTP server step by step without sending anything, so a
+// wrong port can be told apart from a bad password
+export async function diagnoseSmtpConnection(options: SmtpOptions): Promise<ConnectionDiagnostic> {
+  const timeoutMs = options.timeoutMs ?? DIAGNOSTIC_TIMEOUT_MS
+  const connection = new SmtpConnection({ ...options, timeoutMs })
+  const steps: DiagnosticStep[] = []
+  let failure: { step: DiagnosticStepName, error: unknown } | null = null
+
+  const run = async (
+    step: DiagnosticStepName,
+    action: () => Promise<{ detail: string, code?: number }>
+  ): Promise<void> => {
+    const started = Date.now()
+    try {
+      const result = await action()
+      steps.push({ step, status: 'passed', ...result, durationMs: Date.now() - started })
+    } catch (error) {
+      steps.push({
+        step,
+        status: 'failed',
+        detail: messageOf(error),
+        code: error instanceof SmtpError ? error.code : undefined,
+        durationMs: Date.now() - started,
+      })
+      failure = { step, error }
+    }
+  }
+
+  const skip = (step: DiagnosticStepName, detail: string) => {
+    steps.push({ step, status: 'skipped', detail, durationMs: 0 })
+  }
+
+  const { host, port, security } = options
+
+  try {
+    // Names missing from public DNS (e.g. host.docker.internal) can still resolve through
+    // the system resolver, so the TCP attempt has the last word on whether DNS failed
+    let addresses: string[] = []
+    if (isIpAddress(host)) {
+      skip('dns', `${host} is an IP address`)
+    } else {
+      const started = Date.now()
+      addresses = await resolveHost(host)
+      if (addresses.length > 0) {
+        steps.push({ step: 'dns', status: 'passed', detail: `Resolved to ${addresses.join(', ')}`, durationMs: Date.now() - started })
+      }
+    }
+
+    const dnsPending = !isIpAddress(host) && addresses.length === 0
+    const started = Date.now()
+    try {
+      await withTimeout(connection.connectTcp(), timeoutMs, () => connection.close())
+      if (dnsPending) {
+        steps.push({ step: 'dns', status: 'passed', detail: 'Resolved by the system resolver', durationMs: 0 })
+      }
+      steps.push({ step: 'tcp', status: 'passed', detail: `Connected to ${host}:${port}`, durationMs: Date.now() - started })
+    } catch (error) {
+      const step = dnsPending && isLookupError(error) ? 'dns' : 'tcp'
+      steps.push({ step, status: 'failed', detail: messageOf(error), durationMs: Date.now() - started })
+      failure = { step, error }
+    }
+
+    if (!failure && security === 'tls') {
+      await run('tls', async () => {
+        await withTimeout(connection.upgradeTls(), timeoutMs, () => connection.close())
+        return { detail: 'Implicit TLS handshake completed (TLS 1.2 or 1.3; the runtime does not report which)' }
+      })
+    }
+
+    if (!failure) {
+      await run('greeting', async () => {
+        const reply = await connection.greeting()
+        return { detail: reply.lines.join(' '), code: reply.code }
+      })
+    }
+
+    if (!failure) {
+      await run('ehlo', async () => {
+        const reply = await connection.ehlo()
+        const offered = reply.lines.slice(1).map((line) => line.split(' ')[0]).join(', ')
+        return { detail: `Server extensions: ${offered || 'none'}`, code: reply.code }
+      })
+    }
+
+    if (!failure && security === 'starttls') {
+      await run('tls', async () => {
+        await connection.startTls()
+        return { detail: 'STARTTLS upgrade completed (TLS 1.2 or 1.3; the runtime does not report which)' }
+      })
+    } else if (!failure && security === 'none') {
+      skip('tls', 'Encryption is turned off for this server')
+    }
+
+    if (!failure) {
+      if (options.password) {
+        await run('auth', async () => {
+          const offered = connection.authMechanisms()
+          const mechanism = await connection.authenticate()
+          return { detail: `AUTH ${mechanism} accepted (offered: ${offered.join(', ')})`, code: 235 }
+        })
+      } else {
+        skip('auth', 'No password is set, so login was not attempted')
+      }
+    }
+
+    if (!failure) {
+      await connection.quit()
+    }
+  } finally {
+    connection.close()
+  }
+
+  const failed = failure as { step: DiagnosticStepName, error: unknown } | null
+  return {
+    ok: failed === null,
+    steps,
+    hint: failed ? hintFor(failed.step, failed.error, options) : undefined,
+  }
+}
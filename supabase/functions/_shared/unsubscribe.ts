@@ -0,0 +1,98 @@
+import { encode as encodeBase64Url } from "https://deno.land/std@0.190.0/encoding/base64url.ts"
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+// Placeholder the template can use for the opt-out link; it is never mapped to a CSV column
+export const UNSUBSCRIBE_PLACEHOLDER = '{{unsubscribe_url}}'
+
+// Test sends have no recipient row, so their link only explains itself
+export const TEST_UNSUBSCRIBE_TOKEN = 'test'
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+// Tokens are "<recipient id>.<HMAC-SHA256 of the id>" under UNSUBSCRIBE_SECRET, so a link
+// cannot be forged to unsubscribe someone else. Tracking links are signed with the same key.
+function signingKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get('UNSUBSCRIBE_SECRET')
+    if (!secret) {
+      throw new Error('UNSUBSCRIBE_SECRET is not configured')
+    }
+    cachedKey = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+  }
+  return cachedKey
+}
+
+export async function signValue(value: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), new TextEncoder().encode(value))
+  return encodeBase64Url(signature)
+}
+
+// Constant-time comparison against the expected signature
+export async function signatureMatches(value: string, signature: string): Promise<boolean> {
+  const expected = await signValue(value)
+  if (expected.length !== signature.length) return false
+
+  let difference = 0
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+export async function createUnsubscribeToken(recipientId: string): Promise<string> {
+  return `${recipientId}.${await signValue(recipientId)}`
+}
+
+// Returns the recipient id of a valid token, or null
+export async function verifyUnsubscribeToken(token: string): Promise<string | null> {
+  const [recipientId, signature] = token.split('.')
+  if (!recipientId || !signature) return null
+
+  return await signatureMatches(recipientId, signature) ? recipientId : null
+}
+
+export function unsubscribeUrl(token: string): string {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/unsubscribe?token=${encodeURIComponent(token)}`
+}
+
+// RFC 8058 one-click unsubscribe: mail clients POST "List-Unsubscribe=One-Click" to the URL
+export function unsubscribeHeaders(url: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${url}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
+
+// Which of the given addresses are on the account's suppression list, lowercased. Looked up in
+// chunks, since a full list could exceed the API's row limit and the URL length.
+export async function loadSuppressedEmails(
+  supabase: SupabaseClient,
+  userId: string,
+  emails: string[]
+): Promise<Set<string>> {
+  const unique = [...new Set(emails.map((email) => email.toLowerCase()).filter(Boolean))]
+  const suppressed = new Set<string>()
+
+  for (let i = 0; i < unique.length; i += 100) {
+    const { data, error } = await supabase
+      .from('suppressions')
+      .select('email')
+      .eq('user_id', userId)
+      .in('email', unique.slice(i, i + 100))
+
+    if (error) {
+      console.error('Error loading suppression list:', error)
+      throw new Error('Failed to load the suppression list')
+    }
+
+    data?.forEach((row) => suppressed.add(row.email))
+  }
+
+  return suppressed
+}
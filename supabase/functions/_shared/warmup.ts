@@ -0,0 +1,31 @@
+// Also imported by src/lib/warmup.ts for the sending step and the dashboard, so it must not use
+// Deno APIs or URL imports.
+
+export interface WarmupPlan {
+  // UTC date of day 1, YYYY-MM-DD
+  startDate: string
+  initialDaily: number
+  growthFactor: number
+  targetDaily: number
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// 1 on the start date; a plan that starts in the future is treated as day 1
+export function warmupDay(plan: WarmupPlan, now: Date): number {
+  return Math.max(0, Math.floor((Date.parse(utcDay(now)) - Date.parse(plan.startDate)) / DAY_MS)) + 1
+}
+
+// The ramp stops at the target, which stays the daily cap until the plan is removed
+export function dailyCap(plan: WarmupPlan, now: Date): number {
+  const ramped = Math.floor(plan.initialDaily * plan.growthFactor ** (warmupDay(plan, now) - 1))
+  return Math.max(1, Math.min(plan.targetDaily, ramped))
+}
+
+export function nextUtcMidnight(now: Date): number {
+  return Date.parse(utcDay(now)) + DAY_MS
+}
@@ -0,0 +1,274 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { unzipSync } from "https://esm.sh/fflate@0.8.2"
+import {
+  ATTACHMENT_COLUMNS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ZIP_BYTES,
+  attachmentPath,
+  checkAttachment,
+  cleanFilename,
+  downloadAttachment,
+} from "../_shared/attachments.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AttachmentsRequest {
+  action: 'register' | 'extract' | 'remove'
+  campaignId: string
+  // Storage path the browser uploaded to: a campaign attachment for "register", a zip for "extract"
+  path?: string
+  attachmentId?: string
+}
+
+interface RejectedFile {
+  filename: string
+  reason: string
+}
+
+async function removeObjects(supabase: SupabaseClient, paths: string[]) {
+  if (paths.length === 0) return
+  const { error } = await supabase.storage.from('campaigns').remove(paths)
+  if (error) {
+    console.error('Error removing attachment files:', error)
+  }
+}
+
+// Checks uploaded attachments and records them. The browser uploads straight to storage;
+// nothing is attached until the file passes the type and size checks here.
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Campaign attachments function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { action, campaignId, path, attachmentId }: AttachmentsRequest = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    // Recipient files are matched against the list at launch, so they are fixed from then on
+    if (campaign.status !== 'draft') {
+      throw new Error('Attachments can only be changed while the campaign is a draft')
+    }
+
+    const campaignFolder = `${user.id}/campaign-${campaignId}/`
+    let result: Record<string, unknown>
+
+    if (action === 'register') {
+      if (!path?.startsWith(`${campaignFolder}attachments/`)) {
+        throw new Error('Invalid attachment path')
+      }
+
+      const filename = path.split('/').pop() ?? ''
+      const content = await downloadAttachment(supabase, path)
+
+      let contentType: string
+      try {
+        if (cleanFilename(filename) !== filename) {
+          throw new Error('File name contains characters that cannot be used in an email')
+        }
+        contentType = checkAttachment(filename, content)
+      } catch (error) {
+        await removeObjects(supabase, [path])
+        throw error
+      }
+
+      const { data: attachment, error: upsertError } = await supabase
+        .from('campaign_attachments')
+        .upsert({
+          campaign_id: campaignId,
+          user_id: user.id,
+          kind: 'campaign',
+          filename,
+          storage_path: path,
+          content_type: contentType,
+          size_bytes: content.length,
+        }, { onConflict: 'campaign_id,kind,filename' })
+        .select(ATTACHMENT_COLUMNS)
+        .single()
+
+      if (upsertError) {
+        console.error('Error saving attachment:', upsertError)
+        throw new Error('Failed to save attachment')
+      }
+
+      result = { attachment }
+    } else if (action === 'extract') {
+      if (!path?.startsWith(campaignFolder) || !path.toLowerCase().endsWith('.zip')) {
+        throw new Error('Invalid zip path')
+      }
+
+      const zip = await downloadAttachment(supabase, path)
+      await removeObjects(supabase, [path])
+      if (zip.length > MAX_ZIP_BYTES) {
+        throw new Error(`The zip is larger than ${MAX_ZIP_BYTES / 1024 / 1024} MB`)
+      }
+
+      const rejected: RejectedFile[] = []
+      let entries: Record<string, Uint8Array>
+      try {
+        entries = unzipSync(zip, {
+          filter: (entry) => {
+            const filename = cleanFilename(entry.name)
+            if (entry.name.endsWith('/') || !filename || entry.name.includes('__MACOSX') || filename.startsWith('.')) {
+              return false
+            }
+            // Checked before inflating so a zip bomb never reaches memory
+            if (entry.originalSize > MAX_ATTACHMENT_BYTES) {
+              rejected.push({ filename, reason: `File is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` })
+              return false
+            }
+            return true
+          },
+        })
+      } catch (error) {
+        console.error('Error reading zip:', error)
+        throw new Error('The file is not a valid zip archive')
+      }
+
+      const files = new Map<string, { content: Uint8Array, contentType: string }>()
+      for (const [name, content] of Object.entries(entries)) {
+        const filename = cleanFilename(name)
+        if (files.has(filename)) {
+          rejected.push({ filename, reason: 'Another file in the zip has the same name' })
+          continue
+        }
+        try {
+          files.set(filename, { content, contentType: checkAttachment(filename, content) })
+        } catch (error) {
+          rejected.push({ filename, reason: error instanceof Error ? error.message : String(error) })
+        }
+      }
+
+      // A new zip replaces the previous set of recipient files
+      const { data: previous } = await supabase
+        .from('campaign_attachments')
+        .select('storage_path')
+        .eq('campaign_id', campaignId)
+        .eq('kind', 'recipient')
+
+      await removeObjects(supabase, (previous ?? []).map((file) => file.storage_path))
+
+      const { error: deleteError } = await supabase
+        .from('campaign_attachments')
+        .delete()
+        .eq('campaign_id', campaignId)
+        .eq('kind', 'recipient')
+
+      if (deleteError) {
+        console.error('Error clearing recipient files:', deleteError)
+        throw new Error('Failed to replace recipient files')
+      }
+
+      const rows = []
+      for (const [filename, file] of files) {
+        const storagePath = attachmentPath(user.id, campaignId, 'recipient', filename)
+        const { error: uploadError } = await supabase.storage
+          .from('campaigns')
+          .upload(storagePath, file.content, { contentType: file.contentType, upsert: true })
+
+        if (uploadError) {
+          console.error(`Error uploading ${filename}:`, uploadError)
+          rejected.push({ filename, reason: 'Failed to store the file' })
+          continue
+        }
+
+        rows.push({
+          campaign_id: campaignId,
+          user_id: user.id,
+          kind: 'recipient',
+          filename,
+          storage_path: storagePath,
+          content_type: file.contentType,
+          size_bytes: file.content.length,
+        })
+      }
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase
+          .from('campaign_attachments')
+          .insert(rows)
+
+        if (insertError) {
+          console.error('Error saving recipient files:', insertError)
+          throw new Error('Failed to save recipient files')
+        }
+      }
+
+      console.log(`Extracted ${rows.length} recipient file(s), rejected ${rejected.length}`)
+      result = { added: rows.length, rejected }
+    } else if (action === 'remove') {
+      const { data: attachment, error: attachmentError } = await supabase
+        .from('campaign_attachments')
+        .select('id, storage_path')
+        .eq('id', attachmentId)
+        .eq('campaign_id', campaignId)
+        .single()
+
+      if (attachmentError || !attachment) {
+        throw new Error('Attachment not found')
+      }
+
+      const { error: deleteError } = await supabase
+        .from('campaign_attachments')
+        .delete()
+        .eq('id', attachment.id)
+
+      if (deleteError) {
+        console.error('Error removing attachment:', deleteError)
+        throw new Error('Failed to remove attachment')
+      }
+
+      await removeObjects(supabase, [attachment.storage_path])
+      result = {}
+    } else {
+      throw new Error(`Unknown action: ${action}`)
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in campaign-attachments function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,160 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { triggerQueueWorker } from "../_shared/queue.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type CampaignAction = 'pause' | 'resume' | 'cancel' | 'reschedule' | 'unschedule'
+
+interface ControlRequest {
+  campaignId: string
+  action: CampaignAction
+  // Required for 'reschedule'
+  schedule?: {
+    scheduledAt: string
+    timezone: string
+  }
+}
+
+const transitions: Record<CampaignAction, { from: string[], to: string }> = {
+  pause: { from: ['active'], to: 'paused' },
+  resume: { from: ['paused'], to: 'active' },
+  cancel: { from: ['active', 'paused'], to: 'cancelled' },
+  reschedule: { from: ['scheduled'], to: 'scheduled' },
+  unschedule: { from: ['scheduled'], to: 'draft' },
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Control campaign function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { campaignId, action, schedule }: ControlRequest = await req.json()
+    console.log(`Campaign ${campaignId}: ${action}`)
+
+    const transition = transitions[action]
+    if (!transition) {
+      throw new Error(`Unknown action: ${action}`)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const authHeader = req.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    if (!transition.from.includes(campaign.status)) {
+      throw new Error(`Cannot ${action} a campaign that is ${campaign.status}`)
+    }
+
+    const update: Record<string, unknown> = { status: transition.to }
+
+    if (action === 'reschedule') {
+      if (!schedule || !(new Date(schedule.scheduledAt).getTime() > Date.now())) {
+        throw new Error('Scheduled time must be in the future')
+      }
+      update.scheduled_at = schedule.scheduledAt
+      update.schedule_timezone = schedule.timezone
+    }
+
+    if (action === 'unschedule') {
+      update.scheduled_at = null
+      update.schedule_timezone = null
+    }
+
+    // Guard on the current status so two concurrent requests cannot both apply
+    const { data: updated, error: updateError } = await supabase
+      .from('campaigns')
+      .update(update)
+      .eq('id', campaignId)
+      .eq('status', campaign.status)
+      .select('id')
+
+    if (updateError) {
+      console.error('Error updating campaign status:', updateError)
+      throw new Error('Failed to update campaign status')
+    }
+
+    if (!updated?.length) {
+      throw new Error('Campaign status changed in the meantime, please refresh')
+    }
+
+    if (action === 'cancel') {
+      // Rows already handed to the mail server stay 'sending' and finish normally
+      const { error: recipientsError } = await supabase
+        .from('recipients')
+        .update({ status: 'cancelled', locked_by: null, locked_until: null })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'pending')
+
+      if (recipientsError) {
+        console.error('Error cancelling recipients:', recipientsError)
+        throw new Error('Failed to cancel pending recipients')
+      }
+    }
+
+    if (action === 'unschedule') {
+      // Nothing was sent yet; drop the whole queue, suppressed rows included, so the next launch
+      // enqueues the current CSV
+      const { error: recipientsError } = await supabase
+        .from('recipients')
+        .delete()
+        .eq('campaign_id', campaignId)
+
+      if (recipientsError) {
+        console.error('Error removing queued recipients:', recipientsError)
+        throw new Error('Failed to remove queued recipients')
+      }
+    }
+
+    if (action === 'resume') {
+      EdgeRuntime.waitUntil(triggerQueueWorker(supabase, campaignId))
+    }
+
+    return new Response(JSON.stringify({ success: true, campaignId, status: transition.to }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in control-campaign function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,377 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { checkRecipientRow, recipientEmail, type AddressColumns } from "../_shared/addressing.ts"
+import { checkCampaignAttachments, createAttachmentLoader } from "../_shared/attachments.ts"
+import {
+  composeMessage,
+  loadCampaignContext,
+  loadCsvRows,
+  type CampaignContext,
+  type CsvRow,
+} from "../_shared/campaign.ts"
+import { buildMessage, createMessageId, type MessageAttachment } from "../_shared/mime.ts"
+import { SenderPool } from "../_shared/pool.ts"
+import { TEST_UNSUBSCRIBE_TOKEN, loadSuppressedEmails } from "../_shared/unsubscribe.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DRY_RUN_FUNCTION = 'dry-run-campaign'
+
+// Hand the rest of the list to a fresh invocation well before the wall-clock limit
+const TIME_BUDGET_MS = Number(Deno.env.get('DRY_RUN_TIME_BUDGET_MS') ?? 100000)
+const CHUNK_SIZE = 25
+
+interface DryRunRequest {
+  // From the browser: starts a new run for the campaign
+  campaignId?: string
+  // From this function itself: continues a run that ran out of time
+  runId?: string
+}
+
+interface DryRunIssue {
+  // 1-based position in the recipient list
+  row: number
+  email: string
+  kind: 'skipped' | 'invalid'
+  reason: string
+}
+
+interface DryRun {
+  id: string
+  campaign_id: string
+  user_id: string
+  storage_path: string
+  created_at: string
+  processed_rows: number
+  rendered_count: number
+  skipped_count: number
+  invalid_count: number
+  issues: DryRunIssue[]
+  sender_counts: Record<string, number>
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Dry run function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { campaignId, runId }: DryRunRequest = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    if (runId) {
+      if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        throw new Error('Service role authorization required')
+      }
+      EdgeRuntime.waitUntil(runDryRun(supabase, runId))
+      return new Response(JSON.stringify({ success: true, runId }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 202,
+      })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, csv_url')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    if (!campaign.csv_url) {
+      throw new Error('Upload a recipient list before starting a dry run')
+    }
+
+    await removePreviousRuns(supabase, campaign.id)
+
+    const id = crypto.randomUUID()
+    const { error: insertError } = await supabase
+      .from('campaign_dry_runs')
+      .insert({
+        id,
+        campaign_id: campaign.id,
+        user_id: user.id,
+        storage_path: `${user.id}/${campaign.id}/dry-runs/${id}`,
+      })
+
+    if (insertError) {
+      console.error('Error creating dry run:', insertError)
+      throw new Error('Failed to start the dry run')
+    }
+
+    // The browser follows the run's row while the messages are rendered
+    EdgeRuntime.waitUntil(runDryRun(supabase, id))
+
+    return new Response(JSON.stringify({ success: true, runId: id }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 202,
+    })
+
+  } catch (error) {
+    console.error('Error in dry-run-campaign function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+// A campaign keeps only its latest outbox
+async function removePreviousRuns(supabase: SupabaseClient, campaignId: string) {
+  const { data: previous, error } = await supabase
+    .from('campaign_dry_runs')
+    .select('id, storage_path')
+    .eq('campaign_id', campaignId)
+
+  if (error) {
+    console.error('Error loading previous dry runs:', error)
+    throw new Error('Failed to replace the previous dry run')
+  }
+
+  for (const run of previous ?? []) {
+    for (;;) {
+      const { data: files, error: listError } = await supabase.storage
+        .from('campaigns')
+        .list(run.storage_path, { limit: 1000 })
+
+      if (listError || !files?.length) break
+
+      const { error: removeError } = await supabase.storage
+        .from('campaigns')
+        .remove(files.map((file) => `${run.storage_path}/${file.name}`))
+
+      if (removeError) {
+        console.error('Error removing dry run files:', removeError)
+        break
+      }
+    }
+
+    await supabase.from('campaign_dry_runs').delete().eq('id', run.id)
+  }
+}
+
+// Renders rows from where the run left off until the list is done or the time budget runs out
+async function runDryRun(supabase: SupabaseClient, runId: string) {
+  const deadline = Date.now() + TIME_BUDGET_MS
+
+  const { data: run, error: runError } = await supabase
+    .from('campaign_dry_runs')
+    .select('*')
+    .eq('id', runId)
+    .single()
+
+  if (runError || !run) {
+    console.error('Error loading dry run:', runError)
+    return
+  }
+
+  try {
+    const dryRun = run as DryRun
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('csv_url, address_columns')
+      .eq('id', dryRun.campaign_id)
+      .single()
+
+    if (campaignError || !campaign?.csv_url) {
+      throw new Error('Failed to load the campaign')
+    }
+
+    // Same checks as a launch: template, senders and shared attachments must be in place
+    const context = await loadCampaignContext(supabase, dryRun.campaign_id)
+    checkCampaignAttachments(context.attachments, null, [])
+
+    const rows = await loadCsvRows(supabase, campaign.csv_url)
+    if (rows.length === 0) {
+      throw new Error('The recipient list is empty')
+    }
+
+    const pool = new SenderPool(context.senders, context.senderStrategy)
+    const loadAttachments = createAttachmentLoader(supabase, context.attachments, context.attachmentColumn)
+
+    while (dryRun.processed_rows < rows.length) {
+      if (Date.now() >= deadline) {
+        await saveProgress(supabase, dryRun, rows.length)
+        console.log(`Dry run ${runId} has ${rows.length - dryRun.processed_rows} rows left, handing off to a new invocation`)
+        const { error } = await supabase.functions.invoke(DRY_RUN_FUNCTION, { body: { runId } })
+        if (error) throw error
+        return
+      }
+
+      const start = dryRun.processed_rows
+      await renderChunk(supabase, dryRun, context, campaign.address_columns ?? {}, pool, loadAttachments, rows, start)
+      dryRun.processed_rows = Math.min(start + CHUNK_SIZE, rows.length)
+      await saveProgress(supabase, dryRun, rows.length)
+    }
+
+    const summary = {
+      campaignId: dryRun.campaign_id,
+      runId,
+      startedAt: dryRun.created_at,
+      completedAt: new Date().toISOString(),
+      totalRows: rows.length,
+      rendered: dryRun.rendered_count,
+      skipped: dryRun.skipped_count,
+      invalid: dryRun.invalid_count,
+      senders: dryRun.sender_counts,
+      issues: dryRun.issues,
+    }
+    const { error: summaryError } = await supabase.storage
+      .from('campaigns')
+      .upload(`${dryRun.storage_path}/summary.json`, JSON.stringify(summary, null, 2), {
+        contentType: 'application/json',
+        upsert: true,
+      })
+
+    if (summaryError) {
+      console.error('Error uploading dry run summary:', summaryError)
+      throw new Error('Failed to write the dry run summary')
+    }
+
+    await supabase
+      .from('campaign_dry_runs')
+      .update({ status: 'completed', completed_at: summary.completedAt })
+      .eq('id', runId)
+
+    console.log(`Dry run ${runId} rendered ${dryRun.rendered_count} of ${rows.length} rows`)
+  } catch (error) {
+    console.error(`Dry run ${runId} failed:`, error)
+    await supabase
+      .from('campaign_dry_runs')
+      .update({ status: 'failed', error_message: error instanceof Error ? error.message : String(error), completed_at: new Date().toISOString() })
+      .eq('id', runId)
+  }
+}
+
+// Runs each row of the chunk through the launch checks and the worker's message composition,
+// then writes the finished message to the outbox instead of handing it to a transport
+async function renderChunk(
+  supabase: SupabaseClient,
+  dryRun: DryRun,
+  context: CampaignContext,
+  addressColumns: AddressColumns,
+  pool: SenderPool,
+  loadAttachments: (row: CsvRow) => Promise<MessageAttachment[]>,
+  rows: CsvRow[],
+  start: number
+) {
+  const chunk = rows.slice(start, start + CHUNK_SIZE)
+  const addressing = chunk.map((row) =>
+    checkRecipientRow(recipientEmail(row, context.placeholderMappings), row, addressColumns))
+
+  const suppressed = await loadSuppressedEmails(supabase, dryRun.user_id, [
+    ...chunk.map((row) => recipientEmail(row, context.placeholderMappings) ?? ''),
+    ...addressing.flatMap((row) => typeof row === 'string' ? [] : [...row.cc, ...row.bcc]),
+  ])
+  const allowed = (emails: string[]) => emails.filter((email) => !suppressed.has(email.toLowerCase()))
+
+  for (const [offset, row] of chunk.entries()) {
+    const position = start + offset + 1
+    const email = recipientEmail(row, context.placeholderMappings) ?? ''
+    const issue = (kind: DryRunIssue['kind'], reason: string) => {
+      dryRun.issues.push({ row: position, email, kind, reason })
+      if (kind === 'skipped') dryRun.skipped_count++
+      else dryRun.invalid_count++
+    }
+
+    const rowAddressing = addressing[offset]
+    if (typeof rowAddressing === 'string') {
+      issue('invalid', rowAddressing)
+      continue
+    }
+    try {
+      checkCampaignAttachments(context.attachments, context.attachmentColumn, [row])
+    } catch (error) {
+      issue('invalid', error instanceof Error ? error.message : String(error))
+      continue
+    }
+    if (suppressed.has(email.toLowerCase())) {
+      issue('skipped', 'On the suppression list')
+      continue
+    }
+
+    // No recipient row exists yet, so tracking links point at an id that records nothing
+    const sender = pool.pick(email)!
+    let raw: string
+    try {
+      const message = await composeMessage(
+        context,
+        {
+          id: crypto.randomUUID(),
+          email,
+          data: row,
+          ...rowAddressing,
+          cc: allowed(rowAddressing.cc),
+          bcc: allowed(rowAddressing.bcc),
+        },
+        sender.config,
+        loadAttachments,
+        TEST_UNSUBSCRIBE_TOKEN
+      )
+      raw = buildMessage(message, createMessageId(message.from.email))
+    } catch (error) {
+      issue('invalid', error instanceof Error ? error.message : String(error))
+      continue
+    }
+
+    const filename = `${String(position).padStart(6, '0')}-${email.replace(/[^\w@.+-]/g, '_')}.eml`
+    const { error: uploadError } = await supabase.storage
+      .from('campaigns')
+      .upload(`${dryRun.storage_path}/${filename}`, raw, { contentType: 'message/rfc822', upsert: true })
+
+    if (uploadError) {
+      console.error(`Error uploading ${filename}:`, uploadError)
+      throw new Error('Failed to write a message to the outbox')
+    }
+
+    dryRun.rendered_count++
+    dryRun.sender_counts[sender.config.senderEmail] = (dryRun.sender_counts[sender.config.senderEmail] ?? 0) + 1
+  }
+}
+
+async function saveProgress(supabase: SupabaseClient, dryRun: DryRun, totalRows: number) {
+  const { error } = await supabase
+    .from('campaign_dry_runs')
+    .update({
+      total_rows: totalRows,
+      processed_rows: dryRun.processed_rows,
+      rendered_count: dryRun.rendered_count,
+      skipped_count: dryRun.skipped_count,
+      invalid_count: dryRun.invalid_count,
+      issues: dryRun.issues,
+      sender_counts: dryRun.sender_counts,
+    })
+    .eq('id', dryRun.id)
+
+  if (error) {
+    console.error('Error saving dry run progress:', error)
+    throw new Error('Failed to save the dry run progress')
+  }
+}
+
+serve(handler)
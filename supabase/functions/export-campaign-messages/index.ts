@@ -0,0 +1,362 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { Zip, ZipDeflate } from "https://esm.sh/fflate@0.8.2"
+import { createAttachmentLoader, loadCampaignAttachments } from "../_shared/attachments.ts"
+import { composeMessage, loadCampaignContext, type CampaignContext } from "../_shared/campaign.ts"
+import { buildMessage, type MessageAttachment, type OutgoingMessage } from "../_shared/mime.ts"
+import { createUnsubscribeToken } from "../_shared/unsubscribe.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const PAGE_SIZE = 200
+
+// Only finished campaigns are archived, so the export does not race the queue worker
+const FINISHED_STATUSES = ['completed', 'cancelled']
+
+interface ExportRequest {
+  campaignId: string
+  format: 'eml' | 'mbox'
+}
+
+interface SentRecipient {
+  id: string
+  email: string
+  position: number | null
+  data: Record<string, string>
+  cc: string[]
+  bcc: string[]
+  reply_to: string | null
+  from_email: string | null
+  from_name: string | null
+  sender_email: string | null
+  provider_message_id: string | null
+  sent_at: string
+}
+
+interface Snapshot {
+  recipient_id: string
+  message_id: string | null
+  from_email: string
+  from_name: string | null
+  subject: string
+  html_body: string
+  text_body: string
+  headers: Record<string, string>
+  attachments: { filename: string, content_type: string, size_bytes: number }[]
+  message_date: string | null
+}
+
+interface ArchivedMessage {
+  filename: string
+  email: string
+  raw: string
+  date: Date
+  messageId: string | null
+  providerMessageId: string | null
+  // Stored copy, or rebuilt from the template for emails sent before copies were kept
+  source: 'snapshot' | 're-rendered'
+  missingAttachments: string[]
+}
+
+const encoder = new TextEncoder()
+
+// Streams every accepted email of a finished campaign as a zip of .eml files with a manifest,
+// or as one mbox file. Emails are rebuilt from their stored copies with the Date and
+// Message-ID headers they went out with.
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Export campaign messages function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { campaignId, format }: ExportRequest = await req.json()
+
+    if (format !== 'eml' && format !== 'mbox') {
+      throw new Error('Unknown export format')
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, status, attachment_column')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    if (!FINISHED_STATUSES.includes(campaign.status)) {
+      throw new Error('Only completed or cancelled campaigns can be exported')
+    }
+
+    const { count, error: countError } = await supabase
+      .from('recipients')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .not('sent_at', 'is', null)
+
+    if (countError) {
+      console.error('Error counting sent recipients:', countError)
+      throw new Error('Failed to load the sent emails')
+    }
+
+    if (!count) {
+      throw new Error('No emails of this campaign were sent')
+    }
+
+    const loadAttachments = createAttachmentLoader(
+      supabase,
+      await loadCampaignAttachments(supabase, campaignId),
+      campaign.attachment_column ?? null
+    )
+    const messages = archivedMessages(supabase, campaignId, loadAttachments)
+    console.log(`Exporting ${count} email(s) of campaign ${campaignId} as ${format}`)
+
+    return new Response(format === 'mbox' ? mboxStream(messages) : zipStream(messages), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="campaign-${campaignId}.${format === 'mbox' ? 'mbox' : 'zip'}"`,
+      },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in export-campaign-messages function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+// Rebuilds the campaign's sent emails one page of recipients at a time, in list order
+async function* archivedMessages(
+  supabase: SupabaseClient,
+  campaignId: string,
+  loadAttachments: (row: Record<string, string>) => Promise<MessageAttachment[]>
+): AsyncGenerator<ArchivedMessage> {
+  // Only needed for emails without a stored copy
+  let context: Promise<CampaignContext> | null = null
+  let index = 0
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: recipients, error } = await supabase
+      .from('recipients')
+      .select('id, email, position, data, cc, bcc, reply_to, from_email, from_name, sender_email, provider_message_id, sent_at')
+      .eq('campaign_id', campaignId)
+      .not('sent_at', 'is', null)
+      .order('position', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error loading sent recipients:', error)
+      throw new Error('Failed to load the sent emails')
+    }
+
+    if (!recipients?.length) return
+
+    const { data: snapshots, error: snapshotsError } = await supabase
+      .from('sent_messages')
+      .select('recipient_id, message_id, from_email, from_name, subject, html_body, text_body, headers, attachments, message_date')
+      .in('recipient_id', recipients.map((recipient) => recipient.id))
+
+    if (snapshotsError) {
+      console.error('Error loading sent message copies:', snapshotsError)
+      throw new Error('Failed to load the sent emails')
+    }
+
+    const byRecipient = new Map(((snapshots ?? []) as Snapshot[]).map((snapshot) => [snapshot.recipient_id, snapshot]))
+    for (const recipient of recipients as SentRecipient[]) {
+      index++
+      const snapshot = byRecipient.get(recipient.id)
+      const { message, missingAttachments } = snapshot
+        ? await snapshotMessage(snapshot, recipient, loadAttachments)
+        : await rerenderMessage(await (context ??= loadCampaignContext(supabase, campaignId)), recipient, loadAttachments)
+
+      // Both transports record the Message-ID header they sent; over SMTP it is also the
+      // recipient's provider id. Emails sent through Resend before it was given one have no
+      // Message-ID on record and are archived without the header.
+      const sentId = snapshot?.message_id ?? recipient.provider_message_id
+      const messageId = sentId?.startsWith('<') ? sentId : null
+      const date = new Date(snapshot?.message_date ?? recipient.sent_at)
+
+      yield {
+        filename: `${String(recipient.position !== null ? recipient.position + 1 : index).padStart(6, '0')}-${recipient.email.replace(/[^\w@.+-]/g, '_')}.eml`,
+        email: recipient.email,
+        raw: buildMessage(message, messageId, date),
+        date,
+        messageId,
+        providerMessageId: recipient.provider_message_id?.startsWith('<') ? null : recipient.provider_message_id,
+        source: snapshot ? 'snapshot' : 're-rendered',
+        missingAttachments,
+      }
+    }
+  }
+}
+
+// The stored copy with the recipient's addressing. Attachment contents are not part of the copy,
+// so they are taken from storage when the same file is still there.
+async function snapshotMessage(
+  snapshot: Snapshot,
+  recipient: SentRecipient,
+  loadAttachments: (row: Record<string, string>) => Promise<MessageAttachment[]>
+): Promise<{ message: OutgoingMessage, missingAttachments: string[] }> {
+  const current = snapshot.attachments.length > 0
+    ? await loadAttachments(recipient.data).catch(() => [])
+    : []
+  const attachments: MessageAttachment[] = []
+  const missingAttachments: string[] = []
+  for (const sent of snapshot.attachments) {
+    const file = current.find((candidate) =>
+      candidate.filename === sent.filename && candidate.content.length === sent.size_bytes)
+    if (file) {
+      attachments.push(file)
+    } else {
+      missingAttachments.push(sent.filename)
+    }
+  }
+
+  return {
+    message: {
+      from: { email: snapshot.from_email, name: snapshot.from_name ?? undefined },
+      to: [{ email: recipient.email }],
+      cc: (recipient.cc ?? []).map((email) => ({ email })),
+      replyTo: recipient.reply_to ? { email: recipient.reply_to } : undefined,
+      subject: snapshot.subject,
+      html: snapshot.html_body,
+      text: snapshot.text_body,
+      attachments,
+      headers: snapshot.headers,
+    },
+    missingAttachments,
+  }
+}
+
+// Emails sent before copies were kept are rendered again from the saved template, mappings and
+// row. Unsubscribe and tracking links are signed from the recipient id, so they come out the same.
+async function rerenderMessage(
+  context: CampaignContext,
+  recipient: SentRecipient,
+  loadAttachments: (row: Record<string, string>) => Promise<MessageAttachment[]>
+): Promise<{ message: OutgoingMessage, missingAttachments: string[] }> {
+  const sender = context.senders.find((candidate) => candidate.config.senderEmail === recipient.sender_email)
+    ?? context.senders[0]
+  let missingAttachments: string[] = []
+  const message = await composeMessage(
+    context,
+    { ...recipient, cc: recipient.cc ?? [], bcc: recipient.bcc ?? [] },
+    sender.config,
+    (row) => loadAttachments(row).catch((error) => {
+      missingAttachments = [error.message]
+      return []
+    }),
+    await createUnsubscribeToken(recipient.id)
+  )
+  return { message, missingAttachments }
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// One .eml per email plus manifest.csv, deflated as they are produced
+function zipStream(messages: AsyncGenerator<ArchivedMessage>): ReadableStream<Uint8Array> {
+  const manifest = ['file,recipient,message_id,provider_message_id,date,source,missing_attachments']
+  let zip: Zip
+
+  const addFile = (name: string, content: string) => {
+    const file = new ZipDeflate(name, { level: 6 })
+    zip.add(file)
+    file.push(encoder.encode(content), true)
+  }
+
+  return new ReadableStream({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) controller.close()
+      })
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await messages.next()
+        if (done) {
+          addFile('manifest.csv', `${manifest.join('\n')}\n`)
+          zip.end()
+          return
+        }
+        addFile(value.filename, value.raw)
+        manifest.push([
+          value.filename,
+          value.email,
+          value.messageId ?? '',
+          value.providerMessageId ?? '',
+          value.date.toISOString(),
+          value.source,
+          value.missingAttachments.join('; '),
+        ].map(csvCell).join(','))
+      } catch (error) {
+        console.error('Error exporting campaign messages:', error)
+        controller.error(error)
+      }
+    },
+  })
+}
+
+// mboxrd: LF line endings, a "From " separator line per email and escaped "From " body lines
+function mboxStream(messages: AsyncGenerator<ArchivedMessage>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await messages.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        const body = value.raw.replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1')
+        controller.enqueue(encoder.encode(`From MAILER-DAEMON ${asctime(value.date)}\n${body}\n`))
+      } catch (error) {
+        console.error('Error exporting campaign messages:', error)
+        controller.error(error)
+      }
+    },
+  })
+}
+
+// "Mon Oct  5 13:04:09 2026" in UTC, the date format of mbox separator lines
+function asctime(date: Date): string {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ')
+  return `${weekday} ${month} ${day.replace(/^0/, ' ')} ${time} ${year}`
+}
+
+serve(handler)
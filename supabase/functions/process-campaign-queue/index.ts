@@ -0,0 +1,363 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { createAttachmentLoader } from "../_shared/attachments.ts"
+import { composeMessage, loadCampaignContext, type CampaignContext } from "../_shared/campaign.ts"
+import { msUntilWindow } from "../_shared/delivery.ts"
+import { saveSentMessage } from "../_shared/snapshots.ts"
+import { SendThrottle } from "../_shared/throttle.ts"
+import type { MessageAttachment, OutgoingMessage } from "../_shared/mime.ts"
+import { createTransport, type MailTransport, type SendResult } from "../_shared/transports/index.ts"
+import { isQuotaExceeded } from "../_shared/failures.ts"
+import { SenderPool, type PoolSender } from "../_shared/pool.ts"
+import { exhaustAccountQuota, reserveDailySend, type DailyLimit } from "../_shared/quota.ts"
+import { nextUtcMidnight } from "../_shared/warmup.ts"
+import { createUnsubscribeToken, loadSuppressedEmails } from "../_shared/unsubscribe.ts"
+import {
+  claimRecipients,
+  clearCampaignWaiting,
+  deferPendingRecipients,
+  getCampaignStatus,
+  holdRecipient,
+  markCampaignWaiting,
+  markFailed,
+  markSending,
+  markSent,
+  nextScheduledAttempt,
+  recentSends,
+  refreshCampaignProgress,
+  releaseLeases,
+  requeueRecipient,
+  skipRecipient,
+  triggerQueueWorker,
+  type QueuedRecipient,
+} from "../_shared/queue.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stop claiming new work well before the edge runtime's wall-clock limit
+const TIME_BUDGET_MS = Number(Deno.env.get('QUEUE_TIME_BUDGET_MS') ?? 100000)
+const MIN_BATCH_SIZE = 10
+const LEASE_SECONDS = 300
+
+interface QueueRequest {
+  // Omitted by the cron safety net, which sweeps every active campaign
+  campaignId?: string
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Campaign queue worker called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      throw new Error('Service role authorization required')
+    }
+
+    const { campaignId }: QueueRequest = await req.json().catch(() => ({}))
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    let campaignIds: string[]
+    if (campaignId) {
+      campaignIds = [campaignId]
+    } else {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('id')
+        .eq('status', 'active')
+
+      if (error) {
+        console.error('Error loading active campaigns:', error)
+        throw new Error('Failed to load active campaigns')
+      }
+      campaignIds = (data ?? []).map((campaign) => campaign.id)
+    }
+
+    // Respond right away so callers (the launcher, a previous worker run, cron) are not
+    // held open while this run works through its time budget.
+    EdgeRuntime.waitUntil(runQueue(supabase, campaignIds))
+
+    return new Response(JSON.stringify({ success: true, campaigns: campaignIds }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 202,
+    })
+
+  } catch (error) {
+    console.error('Error in process-campaign-queue function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+async function runQueue(supabase: SupabaseClient, campaignIds: string[]) {
+  const workerId = crypto.randomUUID()
+  const deadline = Date.now() + TIME_BUDGET_MS
+
+  for (const campaignId of campaignIds) {
+    try {
+      const remaining = await processCampaign(supabase, campaignId, workerId, deadline)
+      if (remaining > 0 && Date.now() >= deadline) {
+        console.log(`Campaign ${campaignId} has ${remaining} recipients left, handing off to a new worker`)
+        await triggerQueueWorker(supabase, campaignId)
+      }
+    } catch (error) {
+      console.error(`Queue worker failed for campaign ${campaignId}:`, error)
+    } finally {
+      await releaseLeases(supabase, workerId)
+    }
+  }
+}
+
+// Sends claimed recipients until the queue is empty or the time budget runs out.
+// Returns the number of recipients still waiting.
+async function processCampaign(
+  supabase: SupabaseClient,
+  campaignId: string,
+  workerId: string,
+  deadline: number
+): Promise<number> {
+  const initialStatus = await getCampaignStatus(supabase, campaignId)
+  if (initialStatus !== 'active') {
+    console.log(`Campaign ${campaignId} is ${initialStatus}, skipping`)
+    return 0
+  }
+
+  await clearCampaignWaiting(supabase, campaignId)
+  const context = await loadCampaignContext(supabase, campaignId)
+  const pool = new SenderPool(context.senders, context.senderStrategy)
+  const transports = new Map(context.senders.map((sender) => [sender, createTransport(sender.config)]))
+  const loadAttachments = createAttachmentLoader(supabase, context.attachments, context.attachmentColumn)
+  const throttle = new SendThrottle(context.throttle)
+  throttle.seed(await recentSends(supabase, campaignId))
+
+  const batchSize = Math.max(MIN_BATCH_SIZE, throttle.concurrency * 5)
+  let stopped = false
+
+  while (!stopped && Date.now() < deadline) {
+    const claimed = await claimRecipients(supabase, campaignId, workerId, batchSize, LEASE_SECONDS)
+    const batch = await holdOutsideWindow(supabase, context, await skipSuppressed(supabase, claimed, workerId), workerId)
+    if (claimed.length === 0) {
+      // Retried recipients may still be in backoff and others may wait for their delivery
+      // window. Short waits happen within this run's budget; anything later is left to the
+      // cron sweep rather than chaining idle workers for hours.
+      const nextAttempt = await nextScheduledAttempt(supabase, campaignId)
+      if (nextAttempt === null || nextAttempt > deadline) break
+      await sleep(Math.max(nextAttempt - Date.now(), 1000))
+      continue
+    }
+
+    // Each lane takes the next recipient whose domain is not at its limit, so one
+    // throttled domain does not hold up everybody else in the batch.
+    const lane = async () => {
+      while (!stopped && batch.length > 0 && Date.now() < deadline) {
+        const index = batch.findIndex((recipient) => throttle.domainWait(recipient.email) === 0)
+        if (index === -1) {
+          await sleep(Math.min(...batch.map((recipient) => throttle.domainWait(recipient.email)), deadline - Date.now()))
+          continue
+        }
+
+        const globalWait = throttle.globalWait()
+        if (globalWait > 0) {
+          await sleep(Math.min(globalWait, deadline - Date.now()))
+          continue
+        }
+
+        const [recipient] = batch.splice(index, 1)
+
+        // The window may have closed while this recipient waited in the batch
+        const windowWait = context.deliveryWindow
+          ? msUntilWindow(context.deliveryWindow, recipient.timezone)
+          : 0
+        if (windowWait !== 0) {
+          await holdUntilWindow(supabase, recipient, workerId, windowWait)
+          continue
+        }
+
+        throttle.record(recipient.email)
+
+        // Pause and cancel take effect between messages
+        const status = await getCampaignStatus(supabase, campaignId)
+        if (status !== 'active') {
+          console.log(`Campaign ${campaignId} is now ${status}, stopping`)
+          stopped = true
+          break
+        }
+
+        // Once every sender's allowance is used up, leftover recipients roll over to the next day
+        const now = new Date()
+        const sender = await reserveSender(supabase, pool, recipient.email, now)
+        if (!sender) {
+          await waitForNextDay(supabase, campaignId, pool.exhaustedBy, now)
+          stopped = true
+          break
+        }
+
+        const transport = transports.get(sender)!
+        if (!await sendToRecipient(supabase, context, pool, sender, transport, loadAttachments, recipient, workerId)) {
+          // The recipient is back in the queue for the next sender, if there is one
+          await exhaustAccountQuota(supabase, sender.limits, now)
+          pool.exhaust(sender, 'quota')
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: throttle.concurrency }, lane))
+    await refreshCampaignProgress(supabase, campaignId)
+  }
+
+  await releaseLeases(supabase, workerId)
+  return await refreshCampaignProgress(supabase, campaignId)
+}
+
+// The sender of the recipient's message, with one send taken from its daily allowances
+async function reserveSender(
+  supabase: SupabaseClient,
+  pool: SenderPool,
+  email: string,
+  now: Date
+): Promise<PoolSender | null> {
+  for (let sender = pool.pick(email); sender; sender = pool.pick(email)) {
+    const exhausted = await reserveDailySend(supabase, sender.limits, now)
+    if (!exhausted) return sender
+    console.log(`Daily ${exhausted === 'quota' ? 'quota' : 'warm-up cap'} of ${sender.config.senderEmail} reached`)
+    pool.exhaust(sender, exhausted)
+  }
+  return null
+}
+
+// Daily allowances reset at UTC midnight, when the cron sweep picks the campaign up again
+async function waitForNextDay(supabase: SupabaseClient, campaignId: string, limit: DailyLimit, now: Date) {
+  const until = nextUtcMidnight(now)
+  console.log(`Daily ${limit === 'quota' ? 'quota' : 'warm-up cap'} reached, deferring campaign ${campaignId} until ${new Date(until).toISOString()}`)
+  await deferPendingRecipients(supabase, campaignId, until)
+  await markCampaignWaiting(supabase, campaignId, until, limit)
+}
+
+// Addresses can be suppressed long after the campaign was queued (scheduled launches, daily caps,
+// retries), e.g. by an unsubscribe or a bounce webhook. Each claimed batch is checked again:
+// suppressed recipients are skipped and suppressed CC and BCC addresses dropped, as at launch.
+async function skipSuppressed(
+  supabase: SupabaseClient,
+  recipients: QueuedRecipient[],
+  workerId: string
+): Promise<QueuedRecipient[]> {
+  if (recipients.length === 0) return recipients
+
+  const suppressed = await loadSuppressedEmails(supabase, recipients[0].user_id, recipients.flatMap((recipient) =>
+    [recipient.email, ...(recipient.cc ?? []), ...(recipient.bcc ?? [])]))
+  if (suppressed.size === 0) return recipients
+
+  const allowed = (emails: string[] | null) => (emails ?? []).filter((email) => !suppressed.has(email.toLowerCase()))
+  const ready: QueuedRecipient[] = []
+  for (const recipient of recipients) {
+    if (suppressed.has(recipient.email.toLowerCase())) {
+      console.log(`Skipping ${recipient.email}, which was suppressed after the campaign was queued`)
+      await skipRecipient(supabase, recipient.id, workerId, 'On the suppression list')
+    } else {
+      ready.push({ ...recipient, cc: allowed(recipient.cc), bcc: allowed(recipient.bcc) })
+    }
+  }
+  return ready
+}
+
+// Puts recipients whose delivery window is closed back in the queue and returns the rest
+async function holdOutsideWindow(
+  supabase: SupabaseClient,
+  context: CampaignContext,
+  recipients: QueuedRecipient[],
+  workerId: string
+): Promise<QueuedRecipient[]> {
+  if (!context.deliveryWindow) return recipients
+
+  const ready: QueuedRecipient[] = []
+  for (const recipient of recipients) {
+    const wait = msUntilWindow(context.deliveryWindow, recipient.timezone)
+    if (wait === 0) {
+      ready.push(recipient)
+    } else {
+      await holdUntilWindow(supabase, recipient, workerId, wait)
+    }
+  }
+  return ready
+}
+
+async function holdUntilWindow(
+  supabase: SupabaseClient,
+  recipient: QueuedRecipient,
+  workerId: string,
+  wait: number | null
+) {
+  // A window without any days never opens; such campaigns are rejected at launch, so this
+  // only guards against hand-edited rows.
+  const until = Date.now() + (wait ?? 7 * 24 * 60 * 60 * 1000)
+  console.log(`Holding ${recipient.email} until its delivery window opens at ${new Date(until).toISOString()}`)
+  await holdRecipient(supabase, recipient.id, workerId, until)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(ms, 0)))
+}
+
+// Returns false when the provider refused the message because the sender's quota is used up
+async function sendToRecipient(
+  supabase: SupabaseClient,
+  context: CampaignContext,
+  pool: SenderPool,
+  sender: PoolSender,
+  transport: MailTransport,
+  loadAttachments: (row: Record<string, string>) => Promise<MessageAttachment[]>,
+  recipient: QueuedRecipient,
+  workerId: string
+): Promise<boolean> {
+  if (!await markSending(supabase, recipient, workerId, LEASE_SECONDS)) {
+    console.log(`Lost lease on recipient ${recipient.id}, skipping`)
+    return true
+  }
+
+  let message: OutgoingMessage
+  let result: SendResult
+  try {
+    message = await composeMessage(context, recipient, sender.config, loadAttachments, await createUnsubscribeToken(recipient.id))
+    result = await transport.send(message)
+  } catch (error) {
+    if (isQuotaExceeded(error)) {
+      console.log(`Provider quota of ${sender.config.senderEmail} exhausted while sending to ${recipient.email}:`, error instanceof Error ? error.message : String(error))
+      await requeueRecipient(supabase, recipient, workerId)
+      return false
+    }
+    console.error(`Failed to send email to ${recipient.email}:`, error)
+    pool.recordFailure(sender, error)
+    await markFailed(supabase, recipient, workerId, error)
+    return true
+  }
+
+  // The provider has the message now. A failed write must not mark it failed, or a retry would
+  // send it again; the row stays 'sending' and ends up as an unknown delivery instead.
+  pool.recordSuccess(sender)
+  try {
+    await markSent(supabase, recipient.id, workerId, result.messageId, { profileId: sender.profileId, email: sender.config.senderEmail })
+    await saveSentMessage(supabase, recipient, message, result)
+    console.log(`Email sent to ${recipient.email}:`, result.messageId)
+  } catch (error) {
+    console.error(`Email to ${recipient.email} was sent but could not be recorded:`, error)
+  }
+  return true
+}
+
+serve(handler)
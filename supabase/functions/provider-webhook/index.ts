@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { findRecipientByMessageId, recordRecipientEvent, type RecipientEventType } from "../_shared/events.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature',
+}
+
+// Webhooks older than this are rejected, so a captured request cannot be replayed later
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60
+
+const EVENT_TYPES: Record<string, RecipientEventType> = {
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+}
+
+interface ResendWebhook {
+  type: string
+  created_at: string
+  data: {
+    email_id: string
+    bounce?: { type?: string, subType?: string, message?: string }
+    click?: { link?: string, ipAddress?: string, userAgent?: string }
+    open?: { ipAddress?: string, userAgent?: string }
+  }
+}
+
+class SignatureError extends Error {}
+
+// Resend signs webhooks the Svix way: HMAC-SHA256 of "<id>.<timestamp>.<body>" under the
+// base64 part of the "whsec_" secret, sent as one or more "v1,<signature>" entries
+async function verifySignature(req: Request, body: string): Promise<string> {
+  const secret = Deno.env.get('RESEND_WEBHOOK_SECRET')
+  if (!secret) {
+    throw new Error('RESEND_WEBHOOK_SECRET is not configured')
+  }
+
+  const id = req.headers.get('svix-id')
+  const timestamp = req.headers.get('svix-timestamp')
+  const signatures = req.headers.get('svix-signature')
+  if (!id || !timestamp || !signatures) {
+    throw new SignatureError('Missing signature headers')
+  }
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TIMESTAMP_TOLERANCE_SECONDS) {
+    throw new SignatureError('Webhook timestamp is too old')
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    decodeBase64(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const expected = encodeBase64(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`))
+  )
+
+  const matches = signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',')
+    if (version !== 'v1' || signature?.length !== expected.length) return false
+    let difference = 0
+    for (let i = 0; i < expected.length; i++) {
+      difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i)
+    }
+    return difference === 0
+  })
+
+  if (!matches) {
+    throw new SignatureError('Invalid signature')
+  }
+
+  return id
+}
+
+// Receives Resend delivery, bounce, complaint, open and click webhooks and records them
+// against the recipient the email was sent to
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Provider webhook function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.text()
+    const deliveryId = await verifySignature(req, body)
+    const webhook: ResendWebhook = JSON.parse(body)
+
+    const type = EVENT_TYPES[webhook.type]
+    if (!type) {
+      console.log(`Ignoring ${webhook.type} webhook`)
+      return new Response(JSON.stringify({ success: true, ignored: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      })
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Test sends and one-off emails have no recipient row
+    const recipient = await findRecipientByMessageId(supabase, webhook.data.email_id)
+    if (!recipient) {
+      console.log(`No recipient for email ${webhook.data.email_id}, ignoring ${webhook.type}`)
+      return new Response(JSON.stringify({ success: true, ignored: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      })
+    }
+
+    const recorded = await recordRecipientEvent(supabase, recipient, {
+      type,
+      provider: 'resend',
+      providerEventId: deliveryId,
+      detail: webhook.data.bounce ?? webhook.data.click ?? webhook.data.open ?? {},
+      occurredAt: webhook.created_at,
+      // Resend reports "Permanent", "Transient" or "Undetermined"; only the first is a hard bounce
+      hardBounce: webhook.data.bounce?.type === 'Permanent',
+    })
+
+    console.log(`${recorded ? 'Recorded' : 'Already had'} ${type} event for recipient ${recipient.id}`)
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in provider-webhook function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof SignatureError ? 401 : 500,
+      }
+    )
+  }
+}
+
+serve(handler)
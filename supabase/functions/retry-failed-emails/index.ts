@@ -0,0 +1,152 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { backoffDelayMs, classifyFailure, MAX_ATTEMPTS } from "../_shared/failures.ts"
+import { refreshCampaignProgress, triggerQueueWorker } from "../_shared/queue.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RetryRequest {
+  campaignId: string
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Retry failed emails function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { campaignId }: RetryRequest = await req.json()
+    console.log('Retrying failed emails for campaign:', campaignId)
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const authHeader = req.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    if (!['active', 'paused', 'completed'].includes(campaign.status)) {
+      throw new Error(`Cannot retry emails of a campaign that is ${campaign.status}`)
+    }
+
+    const { data: failed, error: failedError } = await supabase
+      .from('recipients')
+      .select('id, attempts, failure_kind, error_message')
+      .eq('campaign_id', campaignId)
+      .eq('status', 'failed')
+
+    if (failedError) {
+      console.error('Error loading failed recipients:', failedError)
+      throw new Error('Failed to load failed recipients')
+    }
+
+    let skippedPermanent = 0
+    // Interrupted sends may already have been delivered, so they are never retried blindly
+    let skippedUnknown = 0
+    let skippedExhausted = 0
+    // Recipients with the same attempt count share the same backoff, so requeue them together
+    const byAttempts = new Map<number, string[]>()
+
+    for (const recipient of failed ?? []) {
+      // Rows that failed before failures were classified only have their error message
+      const kind = recipient.failure_kind ?? classifyFailure(new Error(recipient.error_message ?? '')).kind
+
+      if (kind === 'permanent') {
+        skippedPermanent++
+      } else if (kind === 'unknown') {
+        skippedUnknown++
+      } else if (recipient.attempts >= MAX_ATTEMPTS) {
+        skippedExhausted++
+      } else {
+        byAttempts.set(recipient.attempts, [...(byAttempts.get(recipient.attempts) ?? []), recipient.id])
+      }
+    }
+
+    let requeued = 0
+    for (const [attempts, ids] of byAttempts) {
+      const { error: requeueError } = await supabase
+        .from('recipients')
+        .update({
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + backoffDelayMs(attempts)).toISOString(),
+        })
+        .in('id', ids)
+        .eq('status', 'failed')
+
+      if (requeueError) {
+        console.error('Error requeueing recipients:', requeueError)
+        throw new Error('Failed to requeue recipients')
+      }
+
+      requeued += ids.length
+    }
+
+    if (requeued > 0) {
+      // A finished campaign goes back to sending; a paused one waits for resume
+      if (campaign.status === 'completed') {
+        await supabase
+          .from('campaigns')
+          .update({ status: 'active', completed_at: null })
+          .eq('id', campaignId)
+          .eq('status', 'completed')
+      }
+
+      await refreshCampaignProgress(supabase, campaignId)
+
+      if (campaign.status !== 'paused') {
+        EdgeRuntime.waitUntil(triggerQueueWorker(supabase, campaignId))
+      }
+    }
+
+    console.log(`Requeued ${requeued}, skipped ${skippedPermanent} permanent, ${skippedUnknown} unknown and ${skippedExhausted} exhausted`)
+    return new Response(JSON.stringify({
+      success: true,
+      requeued,
+      skippedPermanent,
+      skippedUnknown,
+      skippedExhausted
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in retry-failed-emails function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
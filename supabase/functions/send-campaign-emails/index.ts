@@ -1,28 +1,37 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { checkRecipientRow, recipientEmail, type RecipientAddressing } from "../_shared/addressing.ts"
+import { checkCampaignAttachments } from "../_shared/attachments.ts"
+import { loadCampaignContext, loadCsvRows } from "../_shared/campaign.ts"
+import { deliveryWindowProblem, resolveTimeZone } from "../_shared/delivery.ts"
+import { triggerQueueWorker } from "../_shared/queue.ts"
+import { loadSuppressedEmails } from "../_shared/unsubscribe.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Everything else (template, mappings, recipient list, SMTP config) is read from the
+// database, so the launch cannot be tampered with and works after a page reload.
 interface CampaignEmailRequest {
   campaignId: string
-  campaignData: {
-    template: any
-    csvData: any[]
-    placeholderMappings: Record<string, string>
-    smtpConfig: {
-      host: string
-      port: number
-      senderEmail: string
-      senderName: string
-      appPassword: string
-    }
+  // When set, recipients are enqueued now and sending starts at this instant
+  schedule?: {
+    scheduledAt: string
+    timezone: string
   }
 }
 
+// Launching starts a draft; scheduling also moves a scheduled campaign to its new time. Anything
+// further along (active, paused, finished) is left alone.
+const LAUNCHABLE_STATUSES = ['draft']
+const SCHEDULABLE_STATUSES = ['draft', 'scheduled']
+
+// The campaign is not in a state this request may change; answered with 409
+class StatusConflictError extends Error {}
+
 const handler = async (req: Request): Promise<Response> => {
   console.log('Campaign email function called')
   
@@ -31,8 +40,12 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { campaignId, campaignData }: CampaignEmailRequest = await req.json()
-    console.log('Starting campaign:', campaignId)
+    const { campaignId, schedule }: CampaignEmailRequest = await req.json()
+    console.log(schedule ? `Scheduling campaign for ${schedule.scheduledAt}:` : 'Starting campaign:', campaignId)
+
+    if (schedule && !(new Date(schedule.scheduledAt).getTime() > Date.now())) {
+      throw new Error('Scheduled time must be in the future')
+    }
 
     // Create Supabase client with service role for backend operations
     const supabase = createClient(
@@ -40,8 +53,6 @@ const handler = async (req: Request): Promise<Response> => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { template, csvData, placeholderMappings, smtpConfig } = campaignData
-
     // Get JWT token from request headers for user identification
     const authHeader = req.headers.get('authorization')
     const token = authHeader?.replace('Bearer ', '')
@@ -56,49 +67,164 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error('Invalid authorization token')
     }
 
-    // Insert recipients into database
-    const recipients = csvData.map((row: any) => ({
-      campaign_id: campaignId,
-      user_id: user.id,
-      email: row[placeholderMappings['{{email}}'] || 'email'] || row.email,
-      status: 'pending',
-      data: row
-    }))
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('status, csv_url, timezone_column, delivery_window, address_columns')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    const fromStatuses = schedule ? SCHEDULABLE_STATUSES : LAUNCHABLE_STATUSES
+    if (!fromStatuses.includes(campaign.status)) {
+      throw new StatusConflictError(`Cannot ${schedule ? 'schedule' : 'launch'} a campaign that is ${campaign.status}`)
+    }
+
+    const windowProblem = campaign.delivery_window ? deliveryWindowProblem(campaign.delivery_window) : null
+    if (windowProblem) {
+      throw new Error(windowProblem)
+    }
+
+    // Fails early when the template or SMTP settings are missing
+    const { placeholderMappings, attachments, attachmentColumn } = await loadCampaignContext(supabase, campaignId)
 
-    const { error: recipientsError } = await supabase
+    // A relaunch resumes the existing queue instead of enqueueing everyone again
+    const { count: queuedCount, error: queuedError } = await supabase
       .from('recipients')
-      .insert(recipients)
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
 
-    if (recipientsError) {
-      console.error('Error inserting recipients:', recipientsError)
-      throw new Error('Failed to insert recipients')
+    if (queuedError) {
+      console.error('Error checking existing recipients:', queuedError)
+      throw new Error('Failed to check existing recipients')
     }
 
-    // Update campaign status and counts
-    const { error: campaignUpdateError } = await supabase
+    let totalRecipients = queuedCount ?? 0
+    let skippedRecipients = 0
+    if (!queuedCount) {
+      if (!campaign.csv_url) {
+        throw new Error('Upload a recipient list before launching')
+      }
+
+      const csvData = await loadCsvRows(supabase, campaign.csv_url)
+      if (csvData.length === 0) {
+        throw new Error('The recipient list is empty')
+      }
+
+      checkCampaignAttachments(attachments, attachmentColumn, csvData)
+
+      // Every address is checked before anything is queued: the main one, then CC, BCC,
+      // Reply-To and sender from the mapped CSV columns
+      const addressing: RecipientAddressing[] = []
+      const addressErrors: string[] = []
+      for (const [index, row] of csvData.entries()) {
+        const email = recipientEmail(row, placeholderMappings)
+        const checked = checkRecipientRow(email, row, campaign.address_columns ?? {})
+        if (typeof checked === 'string') {
+          addressErrors.push(`row ${index + 1}${email ? ` (${email})` : ''}: ${checked}`)
+        } else {
+          addressing.push(checked)
+        }
+      }
+
+      if (addressErrors.length > 0) {
+        throw new Error(`${addressErrors.length} row(s) have invalid addresses. ${addressErrors.slice(0, 5).join('; ')}`)
+      }
+
+      // Suppressed recipients are recorded as skipped; suppressed CC and BCC addresses are dropped
+      const suppressed = await loadSuppressedEmails(supabase, user.id, [
+        ...csvData.map((row) => recipientEmail(row, placeholderMappings)),
+        ...addressing.flatMap((row) => [...row.cc, ...row.bcc]),
+      ])
+      const allowed = (emails: string[]) => emails.filter((email) => !suppressed.has(email))
+
+      // Insert recipients into database
+      const recipients = csvData.map((row, index) => {
+        const email = recipientEmail(row, placeholderMappings)
+        const skipped = suppressed.has(email.toLowerCase())
+        return {
+          campaign_id: campaignId,
+          user_id: user.id,
+          email,
+          status: skipped ? 'skipped' : 'pending',
+          error_message: skipped ? 'On the suppression list' : null,
+          position: index,
+          data: row,
+          timezone: campaign.timezone_column ? resolveTimeZone(row[campaign.timezone_column]) : null,
+          ...addressing[index],
+          cc: allowed(addressing[index].cc),
+          bcc: allowed(addressing[index].bcc)
+        }
+      })
+
+      // An overlapping launch may have enqueued the list in the meantime; its rows are kept, so
+      // every recipient is queued once
+      const { error: recipientsError } = await supabase
+        .from('recipients')
+        .upsert(recipients, { onConflict: 'campaign_id,position', ignoreDuplicates: true })
+
+      if (recipientsError) {
+        console.error('Error inserting recipients:', recipientsError)
+        throw new Error('Failed to insert recipients')
+      }
+
+      skippedRecipients = recipients.filter((recipient) => recipient.status === 'skipped').length
+      totalRecipients = recipients.length - skippedRecipients
+      if (skippedRecipients > 0) {
+        console.log(`Skipping ${skippedRecipients} suppressed recipient(s)`)
+      }
+    } else {
+      // Recipient files were checked at the first launch; the shared files may have changed since
+      checkCampaignAttachments(attachments, null, [])
+
+      const { count: skippedCount } = await supabase
+        .from('recipients')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'skipped')
+
+      skippedRecipients = skippedCount ?? 0
+      totalRecipients -= skippedRecipients
+    }
+
+    // Update campaign status and counts, guarded on the status so a campaign that started or
+    // finished in the meantime is not moved back
+    const { data: updated, error: campaignUpdateError } = await supabase
       .from('campaigns')
       .update({
-        status: 'active',
-        total_recipients: csvData.length,
-        sent_count: 0,
-        failed_count: 0
+        status: schedule ? 'scheduled' : 'active',
+        scheduled_at: schedule?.scheduledAt ?? null,
+        schedule_timezone: schedule?.timezone ?? null,
+        total_recipients: totalRecipients
       })
       .eq('id', campaignId)
+      .in('status', fromStatuses)
+      .select('id')
 
     if (campaignUpdateError) {
       console.error('Error updating campaign:', campaignUpdateError)
       throw new Error('Failed to update campaign')
     }
 
-    // Start background email sending process
-    EdgeRuntime.waitUntil(sendEmailsInBackground(campaignId, template, recipients, placeholderMappings, smtpConfig, supabase))
+    if (!updated?.length) {
+      throw new StatusConflictError('Campaign status changed in the meantime, please refresh')
+    }
+
+    // Hand the queue to the worker, which re-invokes itself until every recipient is processed
+    if (!schedule) {
+      EdgeRuntime.waitUntil(triggerQueueWorker(supabase, campaignId))
+    }
 
-    console.log('Campaign started successfully')
+    console.log(schedule ? 'Campaign scheduled successfully' : 'Campaign started successfully')
     return new Response(JSON.stringify({ 
       success: true, 
-      message: 'Campaign started successfully',
+      message: schedule ? 'Campaign scheduled successfully' : 'Campaign started successfully',
       campaignId,
-      totalRecipients: csvData.length
+      totalRecipients,
+      skippedRecipients
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
@@ -110,109 +236,10 @@ const handler = async (req: Request): Promise<Response> => {
       JSON.stringify({ error: error.message }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof StatusConflictError ? 409 : 500,
       }
     )
   }
 }
 
-async function sendEmailsInBackground(
-  campaignId: string,
-  template: any,
-  recipients: any[],
-  placeholderMappings: Record<string, string>,
-  smtpConfig: any,
-  supabase: any
-) {
-  console.log('Starting background email sending for campaign:', campaignId)
-  
-  let sentCount = 0
-  let failedCount = 0
-
-  for (const recipient of recipients) {
-    try {
-      // Replace placeholders in template
-      let personalizedSubject = template.subject
-      let personalizedBody = template.body
-
-      Object.entries(placeholderMappings).forEach(([placeholder, csvColumn]) => {
-        const value = recipient.data[csvColumn] || ''
-        const regex = new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
-        personalizedSubject = personalizedSubject.replace(regex, value)
-        personalizedBody = personalizedBody.replace(regex, value)
-      })
-
-      // Send individual email
-      const emailData = {
-        to: recipient.email,
-        subject: personalizedSubject,
-        html: personalizedBody,
-        smtp: smtpConfig
-      }
-
-      const { data: emailResult, error: emailError } = await supabase.functions.invoke('send-email', {
-        body: emailData
-      })
-
-      if (emailError) {
-        throw emailError
-      }
-
-      // Update recipient status to sent
-      await supabase
-        .from('recipients')
-        .update({
-          status: 'sent',
-          sent_at: new Date().toISOString()
-        })
-        .eq('id', recipient.id)
-
-      sentCount++
-      console.log(`Email sent to ${recipient.email} (${sentCount}/${recipients.length})`)
-
-      // Rate limiting - wait between emails
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-    } catch (error: any) {
-      console.error(`Failed to send email to ${recipient.email}:`, error)
-      
-      // Update recipient status to failed
-      await supabase
-        .from('recipients')
-        .update({
-          status: 'failed',
-          error_message: error.message
-        })
-        .eq('id', recipient.id)
-
-      failedCount++
-    }
-
-    // Update campaign progress every 10 emails
-    if ((sentCount + failedCount) % 10 === 0) {
-      await supabase
-        .from('campaigns')
-        .update({
-          sent_count: sentCount,
-          failed_count: failedCount
-        })
-        .eq('id', campaignId)
-    }
-  }
-
-  // Final campaign update
-  const isCompleted = sentCount + failedCount === recipients.length
-  await supabase
-    .from('campaigns')
-    .update({
-      status: isCompleted ? 'completed' : 'paused',
-      sent_count: sentCount,
-      failed_count: failedCount,
-      completed_at: isCompleted ? new Date().toISOString() : null
-    })
-    .eq('id', campaignId)
-
-  console.log(`Campaign ${campaignId} completed: ${sentCount} sent, ${failedCount} failed`)
-}
-
 serve(handler)
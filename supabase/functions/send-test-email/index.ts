@@ -1,6 +1,17 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { messageAddressing, resolveAddressing, type RecipientAddressing } from "../_shared/addressing.ts"
+import { loadSmtpConfig, renderTemplate, type CsvRow } from "../_shared/campaign.ts"
+import { loadSenderProfile, recordProfileTest } from "../_shared/profiles.ts"
+import type { MailAddress } from "../_shared/mime.ts"
+import { createTransport, type TransportConfig } from "../_shared/transports/index.ts"
+import {
+  TEST_UNSUBSCRIBE_TOKEN,
+  UNSUBSCRIBE_PLACEHOLDER,
+  unsubscribeHeaders,
+  unsubscribeUrl,
+} from "../_shared/unsubscribe.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,14 +20,36 @@ const corsHeaders = {
 
 interface TestEmailRequest {
   campaignId: string
-  testEmail: string
-  smtpConfig: {
-    host: string
-    port: number
-    senderEmail: string
-    senderName: string
-    appPassword: string
-  }
+  // A single address, as on the SMTP step. Without it the test goes to the user's seed list.
+  testEmail?: string
+  // CSV row to personalize with, exactly as a real send would
+  row?: CsvRow
+  // Wrap the email in a "Test Email" banner and prefix the subject with [TEST]; on by default
+  banner?: boolean
+  // Settings from the form, which may not be saved yet. Without an appPassword the
+  // campaign's stored (encrypted) password is used. Without smtpConfig or senderProfileId
+  // the campaign's saved settings are used.
+  smtpConfig?: TransportConfig
+  // Send through a saved sender profile instead; smtpConfig.senderName still overrides its name
+  senderProfileId?: string
+}
+
+function withBanner(subject: string, html: string, from: MailAddress): string {
+  return `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #e74c3c; margin: 0;">🧪 Test Email</h2>
+            <p style="margin: 10px 0 0 0; color: #666;">This is a test email from your campaign.</p>
+          </div>
+          <div style="background-color: white; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
+            <h3>Subject: ${subject}</h3>
+            <div style="line-height: 1.6;">${html}</div>
+          </div>
+          <div style="margin-top: 20px; text-align: center; color: #888; font-size: 12px;">
+            <p>This email was sent from ${from.name ?? ''} &lt;${from.email}&gt;</p>
+          </div>
+        </div>
+      `
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -27,20 +60,30 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { campaignId, testEmail, smtpConfig }: TestEmailRequest = await req.json()
-    console.log('Sending test email to:', testEmail)
+    const { campaignId, testEmail, row, banner = true, smtpConfig, senderProfileId }: TestEmailRequest = await req.json()
 
-    // Create Supabase client
+    // Service role, so the stored password can be decrypted; ownership is checked below
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
     // Get campaign template
     const { data: template, error: templateError } = await supabase
       .from('templates')
       .select('*')
       .eq('campaign_id', campaignId)
+      .eq('user_id', user.id)
       .single()
 
     if (templateError) {
@@ -48,40 +91,117 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error('Failed to fetch template')
     }
 
-    // Send test email using SMTP
-    const emailData = {
-      to: testEmail,
-      subject: `[TEST] ${template.subject}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
-            <h2 style="color: #e74c3c; margin: 0;">🧪 Test Email</h2>
-            <p style="margin: 10px 0 0 0; color: #666;">This is a test email from your campaign.</p>
-          </div>
-          <div style="background-color: white; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
-            <h3>Subject: ${template.subject}</h3>
-            <div style="white-space: pre-wrap; line-height: 1.6;">${template.body}</div>
-          </div>
-          <div style="margin-top: 20px; text-align: center; color: #888; font-size: 12px;">
-            <p>This email was sent from ${smtpConfig.senderName} &lt;${smtpConfig.senderEmail}&gt;</p>
-          </div>
-        </div>
-      `,
-      smtp: smtpConfig
+    let smtp: TransportConfig
+    if (senderProfileId) {
+      const profile = await loadSenderProfile(supabase, senderProfileId, user.id)
+      smtp = { ...profile, senderName: smtpConfig?.senderName || profile.senderName }
+    } else if (!smtpConfig) {
+      smtp = await loadSmtpConfig(supabase, campaignId)
+    } else {
+      smtp = { ...smtpConfig }
+      if (!smtp.appPassword && smtp.transport !== 'resend') {
+        smtp.appPassword = (await loadSmtpConfig(supabase, campaignId)).appPassword
+        if (!smtp.appPassword) {
+          throw new Error('No SMTP password is saved for this campaign')
+        }
+      }
     }
 
-    // Call the send-email function
-    const { data: emailResult, error: emailError } = await supabase.functions.invoke('send-email', {
-      body: emailData
-    })
+    // Without a row the raw template is sent, placeholders and all
+    let placeholderMappings: Record<string, string> = {}
+    let addressing: Partial<RecipientAddressing> = {}
+    if (row) {
+      const { data: mappings, error: mappingsError } = await supabase
+        .from('placeholder_mappings')
+        .select('placeholder, csv_column')
+        .eq('campaign_id', campaignId)
+
+      if (mappingsError) {
+        console.error('Placeholder mappings error:', mappingsError)
+        throw new Error('Failed to fetch placeholder mappings')
+      }
+
+      placeholderMappings = Object.fromEntries(
+        (mappings ?? []).map((mapping) => [mapping.placeholder, mapping.csv_column])
+      )
+
+      const { data: campaign } = await supabase
+        .from('campaigns')
+        .select('address_columns')
+        .eq('id', campaignId)
+        .single()
+
+      // The row's sender and Reply-To apply; its CC and BCC are left out so a test never reaches them
+      const { from_email, from_name, reply_to } = resolveAddressing(row, campaign?.address_columns ?? {})
+      addressing = { from_email, from_name, reply_to }
+    }
+
+    const { from, replyTo } = messageAddressing(addressing, { email: smtp.senderEmail, name: smtp.senderName })
+    // The link and headers work like a real send's, but the test link never unsubscribes anyone
+    const optOutUrl = unsubscribeUrl(TEST_UNSUBSCRIBE_TOKEN)
+    let { subject, html, text } = renderTemplate(template, placeholderMappings, row ?? {}, { [UNSUBSCRIBE_PLACEHOLDER]: optOutUrl })
+    if (banner) {
+      html = withBanner(subject, html, from)
+      text = `TEST EMAIL\n\n${text}`
+      subject = `[TEST] ${subject}`
+    }
+
+    let recipients: string[]
+    if (testEmail) {
+      recipients = [testEmail]
+    } else {
+      const { data: seeds, error: seedsError } = await supabase
+        .from('seed_addresses')
+        .select('email')
+        .eq('user_id', user.id)
+        .order('created_at')
+
+      if (seedsError) {
+        console.error('Seed addresses error:', seedsError)
+        throw new Error('Failed to fetch seed addresses')
+      }
+
+      recipients = (seeds ?? []).map((seed) => seed.email)
+      if (recipients.length === 0) {
+        throw new Error('Add at least one seed address to send test emails to')
+      }
+    }
+
+    console.log(`Sending test email to ${recipients.length} address(es)`)
+
+    // One message per address, like a real send, so every seed sees its own To header
+    const transport = createTransport(smtp)
+    const sent: string[] = []
+    const failed: { email: string, error: string }[] = []
+    for (const email of recipients) {
+      try {
+        await transport.send({
+          from,
+          to: [{ email }],
+          replyTo,
+          subject,
+          html,
+          text,
+          headers: unsubscribeHeaders(optOutUrl),
+        })
+        sent.push(email)
+      } catch (error) {
+        console.error(`Test email to ${email} failed:`, error)
+        failed.push({ email, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    // A test through a profile doubles as its health check
+    if (senderProfileId) {
+      await recordProfileTest(supabase, senderProfileId, failed.length === recipients.length ? failed[0].error : null)
+    }
 
-    if (emailError) {
-      console.error('Email sending error:', emailError)
-      throw emailError
+    if (sent.length === 0) {
+      throw new Error(failed[0].error)
     }
 
-    console.log('Test email sent successfully')
-    return new Response(JSON.stringify({ success: true, message: 'Test email sent successfully' }), {
+    console.log(`Test email sent to ${sent.length} address(es)`)
+    return new Response(JSON.stringify({ success: failed.length === 0, sent, failed }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
     })
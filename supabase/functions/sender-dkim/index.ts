@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { encryptSecret } from "../_shared/credentials.ts"
+import { describePrivateKey, signMessage, verifyMessage, type DkimCheck } from "../_shared/dkim.ts"
+import { buildMessage, createMessageId } from "../_shared/mime.ts"
+import { loadDkimSettings } from "../_shared/profiles.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DkimRequest {
+  action: 'set' | 'clear' | 'check'
+  senderProfileId: string
+  // For "set"
+  domain?: string
+  selector?: string
+  privateKey?: string
+}
+
+const DKIM_STATUS_COLUMNS = 'sender_profile_id, domain, selector, public_key, key_bits, last_checked_at, last_check_ok, last_check_error, updated_at'
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i
+const SELECTOR_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i
+
+// Stores DKIM keys for sender profiles encrypted and checks a signed message against the
+// published DNS record. Like SMTP passwords, the private key is sent here once and never read
+// back by the browser.
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Sender DKIM function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { action, senderProfileId, domain, selector, privateKey }: DkimRequest = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('sender_profiles')
+      .select('id, transport, email, sender_name')
+      .eq('id', senderProfileId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (profileError || !profile) {
+      throw new Error('Sender profile not found')
+    }
+
+    let check: DkimCheck | undefined
+    if (action === 'set') {
+      if (profile.transport === 'resend') {
+        throw new Error('Resend signs emails with the keys of your Resend domain')
+      }
+
+      const signingDomain = domain?.trim().toLowerCase() ?? ''
+      const keySelector = selector?.trim().toLowerCase() ?? ''
+      if (!DOMAIN_PATTERN.test(signingDomain)) {
+        throw new Error('Enter the domain the key signs for, such as example.com')
+      }
+      if (!SELECTOR_PATTERN.test(keySelector)) {
+        throw new Error('Selectors may only contain letters, digits, hyphens and dots')
+      }
+      if (!privateKey?.trim()) {
+        throw new Error('Private key is required')
+      }
+
+      const { publicKey, bits } = await describePrivateKey(privateKey.trim())
+      const { error: upsertError } = await supabase
+        .from('sender_dkim_keys')
+        .upsert({
+          sender_profile_id: profile.id,
+          user_id: user.id,
+          domain: signingDomain,
+          selector: keySelector,
+          ciphertext: await encryptSecret(privateKey.trim()),
+          public_key: publicKey,
+          key_bits: bits,
+          last_checked_at: null,
+          last_check_ok: null,
+          last_check_error: null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'sender_profile_id' })
+
+      if (upsertError) {
+        console.error('Error storing DKIM key:', upsertError)
+        throw new Error('Failed to store the DKIM key')
+      }
+    } else if (action === 'clear') {
+      const { error: deleteError } = await supabase
+        .from('sender_dkim_keys')
+        .delete()
+        .eq('sender_profile_id', profile.id)
+
+      if (deleteError) {
+        console.error('Error removing DKIM key:', deleteError)
+        throw new Error('Failed to remove the DKIM key')
+      }
+    } else if (action === 'check') {
+      check = await checkPublishedKey(supabase, profile)
+    } else {
+      throw new Error(`Unknown action: ${action}`)
+    }
+
+    const { data: dkim, error: statusError } = await supabase
+      .from('sender_dkim_keys')
+      .select(DKIM_STATUS_COLUMNS)
+      .eq('sender_profile_id', profile.id)
+      .maybeSingle()
+
+    if (statusError) {
+      console.error('Error loading DKIM status:', statusError)
+      throw new Error('Failed to load the DKIM key')
+    }
+
+    return new Response(JSON.stringify({ success: true, dkim, check }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in sender-dkim function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+// Signs a sample message the way the SMTP transport does and verifies it against DNS. The
+// outcome is recorded on the key and returned as a result, not an error.
+async function checkPublishedKey(
+  supabase: SupabaseClient,
+  profile: { id: string, email: string, sender_name: string }
+): Promise<DkimCheck> {
+  const settings = await loadDkimSettings(supabase, profile.id)
+  if (!settings) {
+    throw new Error('Upload a DKIM key first')
+  }
+
+  const from = { email: profile.email, name: profile.sender_name }
+  const sample = buildMessage({
+    from,
+    to: [from],
+    subject: 'DKIM check',
+    html: '<p>Signed to check the published DKIM record.</p>',
+  }, createMessageId(profile.email))
+
+  let check: DkimCheck
+  try {
+    check = await verifyMessage(await signMessage(sample, settings))
+  } catch (error) {
+    check = { ok: false, error: error instanceof Error ? error.message : String(error) }
+  }
+  console.log(`DKIM check for sender profile ${profile.id}:`, check.ok ? 'passed' : check.error)
+
+  const { error } = await supabase
+    .from('sender_dkim_keys')
+    .update({
+      last_checked_at: new Date().toISOString(),
+      last_check_ok: check.ok,
+      last_check_error: check.ok ? null : check.error,
+    })
+    .eq('sender_profile_id', profile.id)
+
+  if (error) {
+    console.error('Error recording DKIM check:', error)
+  }
+
+  return check
+}
+
+serve(handler)
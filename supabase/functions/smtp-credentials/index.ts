@@ -0,0 +1,140 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { migratePlaintextPassword, storeSmtpPassword, type CredentialOwner } from "../_shared/credentials.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CredentialsRequest {
+  action: 'set' | 'clear' | 'migrate'
+  // The password belongs to either a campaign's SMTP config or a sender profile
+  campaignId?: string
+  senderProfileId?: string
+  password?: string
+}
+
+// Stores SMTP passwords encrypted. The browser sends a password here once and afterwards only
+// sees whether one is set; "migrate" (service role only) encrypts legacy plaintext rows.
+const handler = async (req: Request): Promise<Response> => {
+  console.log('SMTP credentials function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { action, campaignId, senderProfileId, password }: CredentialsRequest = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    if (action === 'migrate') {
+      if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        throw new Error('Service role authorization required')
+      }
+
+      const { data: configs, error: configsError } = await supabase
+        .from('smtp_configs')
+        .select('id, user_id, password')
+        .not('password', 'is', null)
+
+      if (configsError) {
+        console.error('Error loading plaintext SMTP configs:', configsError)
+        throw new Error('Failed to load SMTP configs')
+      }
+
+      let migrated = 0
+      for (const config of configs ?? []) {
+        if (await migratePlaintextPassword(supabase, config)) migrated++
+      }
+
+      console.log(`Migrated ${migrated} plaintext SMTP password(s)`)
+      return new Response(JSON.stringify({ success: true, migrated }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      })
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    let owner: CredentialOwner
+    if (senderProfileId) {
+      const { data: profile, error: profileError } = await supabase
+        .from('sender_profiles')
+        .select('id')
+        .eq('id', senderProfileId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (profileError || !profile) {
+        throw new Error('Sender profile not found')
+      }
+      owner = { column: 'sender_profile_id', id: profile.id }
+    } else {
+      const { data: config, error: configError } = await supabase
+        .from('smtp_configs')
+        .select('id')
+        .eq('campaign_id', campaignId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (configError || !config) {
+        throw new Error('Save the SMTP configuration before setting its password')
+      }
+      owner = { column: 'smtp_config_id', id: config.id }
+    }
+
+    let status = { hasPassword: false, last4: null as string | null, updatedAt: null as string | null }
+
+    if (action === 'set') {
+      if (!password?.trim()) {
+        throw new Error('Password is required')
+      }
+
+      const { last4, updatedAt } = await storeSmtpPassword(supabase, owner, user.id, password.trim())
+      status = { hasPassword: true, last4, updatedAt }
+    } else if (action === 'clear') {
+      const { error: deleteError } = await supabase
+        .from('smtp_credentials')
+        .delete()
+        .eq(owner.column, owner.id)
+
+      if (deleteError) {
+        console.error('Error clearing SMTP credential:', deleteError)
+        throw new Error('Failed to clear SMTP password')
+      }
+    } else {
+      throw new Error(`Unknown action: ${action}`)
+    }
+
+    return new Response(JSON.stringify({ success: true, ...status }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in smtp-credentials function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,80 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { triggerQueueWorker } from "../_shared/queue.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Meant to run every minute from cron / pg_cron with the service role key
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Start scheduled campaigns function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      throw new Error('Service role authorization required')
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: due, error: dueError } = await supabase
+      .from('campaigns')
+      .select('id, scheduled_at')
+      .eq('status', 'scheduled')
+      .lte('scheduled_at', new Date().toISOString())
+
+    if (dueError) {
+      console.error('Error loading due campaigns:', dueError)
+      throw new Error('Failed to load due campaigns')
+    }
+
+    const started: string[] = []
+    for (const campaign of due ?? []) {
+      // Guarded on status so overlapping cron runs start each campaign once
+      const { data: updated, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ status: 'active' })
+        .eq('id', campaign.id)
+        .eq('status', 'scheduled')
+        .select('id')
+
+      if (updateError) {
+        console.error(`Error starting campaign ${campaign.id}:`, updateError)
+        continue
+      }
+
+      if (updated?.length) {
+        console.log(`Starting campaign ${campaign.id} scheduled for ${campaign.scheduled_at}`)
+        await triggerQueueWorker(supabase, campaign.id)
+        started.push(campaign.id)
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, started }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in start-scheduled-campaigns function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,88 @@
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { loadSenderProfile, recordProfileTest } from "../_shared/profiles.ts"
+import { createTransport } from "../_shared/transports/index.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ProfileTestRequest {
+  senderProfileId: string
+  // Defaults to the signed-in user's address
+  testEmail?: string
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Test sender profile function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { senderProfileId, testEmail }: ProfileTestRequest = await req.json()
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    const profile = await loadSenderProfile(supabase, senderProfileId, user.id)
+    const recipient = testEmail?.trim() || user.email
+    if (!recipient) {
+      throw new Error('Test email address is required')
+    }
+
+    console.log(`Testing sender profile ${senderProfileId} by sending to ${recipient}`)
+
+    // Send failures are recorded on the profile and reported as a normal result, not an error
+    let testError: string | null = null
+    try {
+      await createTransport(profile).send({
+        from: { email: profile.senderEmail, name: profile.senderName },
+        to: [{ email: recipient }],
+        subject: 'Sender profile test',
+        html: `<p>This test was sent through your sender profile as ${profile.senderName} &lt;${profile.senderEmail}&gt;. Everything is working.</p>`,
+      })
+    } catch (error) {
+      console.error('Sender profile test failed:', error)
+      testError = error instanceof Error ? error.message : String(error)
+    }
+
+    await recordProfileTest(supabase, senderProfileId, testError)
+
+    return new Response(JSON.stringify({
+      success: testError === null,
+      error: testError ?? undefined,
+      testedAt: new Date().toISOString(),
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in test-sender-profile function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
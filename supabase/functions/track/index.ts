@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { findRecipientById, recordRecipientEvent, type RecipientEventType } from "../_shared/events.ts"
+import { clickSignatureValue, openSignatureValue } from "../_shared/tracking.ts"
+import { signatureMatches } from "../_shared/unsubscribe.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Transparent 1x1 GIF
+const PIXEL = decodeBase64('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7')
+
+// Tracking must never get in the way of the reader, so failures are only logged
+async function record(req: Request, recipientId: string, type: RecipientEventType, detail: Record<string, unknown>) {
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const recipient = await findRecipientById(supabase, recipientId)
+    if (!recipient) {
+      console.log(`No recipient ${recipientId}, ignoring ${type}`)
+      return
+    }
+
+    await recordRecipientEvent(supabase, recipient, {
+      type,
+      provider: 'tracking',
+      detail: { ...detail, user_agent: req.headers.get('user-agent') ?? '' },
+    })
+    console.log(`Recorded ${type} for recipient ${recipientId}`)
+  } catch (error) {
+    console.error(`Error recording ${type}:`, error)
+  }
+}
+
+// Public endpoint behind the open pixel and rewritten links of campaigns with tracking on.
+// Opens always get the pixel; clicks are only redirected when the link's signature matches.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const type = params.get('type')
+    const recipientId = params.get('r') ?? ''
+    const signature = params.get('s') ?? ''
+
+    if (type === 'open') {
+      if (recipientId && await signatureMatches(openSignatureValue(recipientId), signature)) {
+        await record(req, recipientId, 'opened', {})
+      }
+      return new Response(PIXEL, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'image/gif',
+          'Cache-Control': 'no-store, max-age=0',
+        },
+        status: 200,
+      })
+    }
+
+    const url = params.get('u') ?? ''
+    if (type !== 'click' || !recipientId || !/^https?:\/\//i.test(url) ||
+        !await signatureMatches(clickSignatureValue(recipientId, url), signature)) {
+      return new Response('This link is incomplete or has been altered.', {
+        headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+        status: 400,
+      })
+    }
+
+    await record(req, recipientId, 'clicked', { url })
+    return new Response(null, {
+      headers: {
+        ...corsHeaders,
+        'Location': url,
+        'Cache-Control': 'no-store, max-age=0',
+      },
+      status: 302,
+    })
+
+  } catch (error) {
+    console.error('Error in track function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { escapeHtml } from "../_shared/content.ts"
+import { TEST_UNSUBSCRIBE_TOKEN, verifyUnsubscribeToken } from "../_shared/unsubscribe.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+function page(title: string, message: string, form = ''): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${title}</title>
+</head>
+<body style="font-family: Arial, sans-serif; background: #f8f9fa; margin: 0; padding: 48px 16px;">
+  <div style="max-width: 480px; margin: 0 auto; background: white; border: 1px solid #ddd; border-radius: 8px; padding: 32px; text-align: center;">
+    <h1 style="font-size: 22px; margin: 0 0 12px;">${title}</h1>
+    <p style="color: #555; line-height: 1.5;">${message}</p>
+    ${form}
+  </div>
+</body>
+</html>`
+  return new Response(html, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+    status: 200,
+  })
+}
+
+// Public opt-out endpoint behind {{unsubscribe_url}} and the List-Unsubscribe header. A GET
+// only shows a confirmation button, so link scanners cannot unsubscribe anyone; the button and
+// RFC 8058 one-click requests POST.
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Unsubscribe function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? ''
+
+    if (token === TEST_UNSUBSCRIBE_TOKEN) {
+      return page('Test email', 'This unsubscribe link came from a test send, so nothing was changed. In real emails it unsubscribes the recipient.')
+    }
+
+    const recipientId = await verifyUnsubscribeToken(token)
+    if (!recipientId) {
+      return page('Link not valid', 'This unsubscribe link is incomplete or has been altered. Please use the link from the email.')
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: recipient, error: recipientError } = await supabase
+      .from('recipients')
+      .select('email, user_id, campaign_id')
+      .eq('id', recipientId)
+      .single()
+
+    if (recipientError || !recipient) {
+      return page('Link expired', 'This email is no longer on file, so there is nothing to unsubscribe.')
+    }
+
+    const email = recipient.email.toLowerCase()
+
+    if (req.method !== 'POST') {
+      const form = `<form method="POST">
+      <button type="submit" style="background: #e74c3c; color: white; border: 0; border-radius: 6px; padding: 12px 24px; font-size: 16px; cursor: pointer;">Unsubscribe</button>
+    </form>`
+      return page('Unsubscribe', `Stop receiving these emails at <strong>${escapeHtml(email)}</strong>?`, form)
+    }
+
+    // Existing entries are kept as they are, so a repeated click is harmless
+    const { error: suppressError } = await supabase
+      .from('suppressions')
+      .upsert({
+        user_id: recipient.user_id,
+        email,
+        reason: 'unsubscribe',
+        campaign_id: recipient.campaign_id,
+      }, { onConflict: 'user_id,email', ignoreDuplicates: true })
+
+    if (suppressError) {
+      console.error('Error recording unsubscribe:', suppressError)
+      throw new Error('Failed to record unsubscribe')
+    }
+
+    console.log(`Unsubscribed recipient ${recipientId}`)
+
+    // One-click clients only look at the status code
+    if ((await req.text()).includes('List-Unsubscribe=One-Click')) {
+      return new Response(null, { headers: corsHeaders, status: 200 })
+    }
+
+    return page('You are unsubscribed', `<strong>${escapeHtml(email)}</strong> will not receive these emails any more.`)
+
+  } catch (error) {
+    console.error('Error in unsubscribe function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { loadSmtpConfig } from "../_shared/campaign.ts"
+import { loadSenderProfile, recordProfileTest } from "../_shared/profiles.ts"
+import { defaultSecurityForPort, diagnoseSmtpConnection, type TransportConfig } from "../_shared/transports/index.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VerifyConnectionRequest {
+  // Settings from the form, as for send-test-email. Without an appPassword the
+  // campaign's stored password is used.
+  campaignId?: string
+  smtpConfig?: TransportConfig
+  // Verify a saved sender profile instead
+  senderProfileId?: string
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log('Verify SMTP connection function called')
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { campaignId, smtpConfig, senderProfileId }: VerifyConnectionRequest = await req.json()
+
+    // Service role, so the stored password can be decrypted; ownership is checked below
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new Error('Authorization token required')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new Error('Invalid authorization token')
+    }
+
+    let smtp: TransportConfig
+    if (senderProfileId) {
+      smtp = await loadSenderProfile(supabase, senderProfileId, user.id)
+    } else if (smtpConfig) {
+      smtp = { ...smtpConfig }
+      if (!smtp.appPassword && campaignId) {
+        const { data: campaign } = await supabase
+          .from('campaigns')
+          .select('id')
+          .eq('id', campaignId)
+          .eq('user_id', user.id)
+          .single()
+
+        if (!campaign) {
+          throw new Error('Campaign not found')
+        }
+
+        smtp.appPassword = (await loadSmtpConfig(supabase, campaignId)).appPassword
+      }
+    } else {
+      throw new Error('smtpConfig or senderProfileId is required')
+    }
+
+    if ((smtp.transport ?? 'smtp') !== 'smtp') {
+      throw new Error('Only SMTP servers can be verified; Resend is reached through its API')
+    }
+
+    if (!smtp.host?.trim()) {
+      throw new Error('SMTP host is required')
+    }
+
+    console.log(`Verifying SMTP connection to ${smtp.host}:${smtp.port}`)
+
+    const diagnostic = await diagnoseSmtpConnection({
+      host: smtp.host.trim(),
+      port: smtp.port,
+      security: smtp.security ?? defaultSecurityForPort(smtp.port),
+      username: smtp.username || smtp.senderEmail,
+      password: smtp.appPassword,
+    })
+
+    if (senderProfileId) {
+      const failed = diagnostic.steps.find((step) => step.status === 'failed')
+      await recordProfileTest(supabase, senderProfileId, failed ? diagnostic.hint ?? failed.detail : null)
+    }
+
+    // A failed check is a normal result; the steps say where it stopped
+    return new Response(JSON.stringify(diagnostic), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in verify-smtp-connection function:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -0,0 +1,13 @@
+-- Let each campaign choose how its mail is delivered: its own SMTP server or the Resend API
+ALTER TABLE public.smtp_configs
+  ADD COLUMN transport TEXT NOT NULL DEFAULT 'smtp' CHECK (transport IN ('smtp', 'resend'));
+
+-- How the SMTP connection is secured: STARTTLS upgrade (587), implicit TLS (465) or plain (local sinks)
+ALTER TABLE public.smtp_configs
+  ADD COLUMN security TEXT NOT NULL DEFAULT 'starttls' CHECK (security IN ('starttls', 'tls', 'none'));
+
+-- Login name when it differs from the sender address (e.g. 'apikey' for SendGrid)
+ALTER TABLE public.smtp_configs ADD COLUMN username TEXT;
+
+-- Existing port 465 configs can only work with implicit TLS
+UPDATE public.smtp_configs SET security = 'tls' WHERE port = 465;
@@ -0,0 +1,51 @@
+-- Durable send queue on top of recipients: a worker leases a batch of pending rows,
+-- flips each to 'sending' right before it talks to the mail server and to 'sent'/'failed' after.
+ALTER TABLE public.recipients ADD COLUMN position INTEGER;
+ALTER TABLE public.recipients ADD COLUMN locked_by TEXT;
+ALTER TABLE public.recipients ADD COLUMN locked_until TIMESTAMPTZ;
+
+CREATE INDEX recipients_queue_idx ON public.recipients (campaign_id, status, position);
+
+CREATE OR REPLACE FUNCTION public.claim_recipients(
+  p_campaign_id UUID,
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.recipients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A row left in 'sending' after its lease expired may or may not have reached the
+  -- mail server. Retrying it could deliver twice, so it is failed for a human to review.
+  UPDATE public.recipients
+     SET status = 'failed',
+         error_message = 'Sending was interrupted; delivery status unknown',
+         locked_by = NULL,
+         locked_until = NULL
+   WHERE campaign_id = p_campaign_id
+     AND status = 'sending'
+     AND locked_until < now();
+
+  RETURN QUERY
+  UPDATE public.recipients r
+     SET locked_by = p_worker,
+         locked_until = now() + make_interval(secs => p_lease_seconds)
+   WHERE r.id IN (
+     SELECT id
+       FROM public.recipients
+      WHERE campaign_id = p_campaign_id
+        AND status = 'pending'
+        AND (locked_until IS NULL OR locked_until < now())
+      ORDER BY position NULLS LAST, created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING r.*;
+END;
+$$;
+
+-- Only the queue worker (service role) may claim rows
+REVOKE EXECUTE ON FUNCTION public.claim_recipients(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Per-recipient retry bookkeeping
+ALTER TABLE public.recipients ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.recipients ADD COLUMN error_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.recipients ADD COLUMN failure_kind TEXT CHECK (failure_kind IN ('transient', 'permanent', 'unknown'));
+ALTER TABLE public.recipients ADD COLUMN next_attempt_at TIMESTAMPTZ;
+
+-- Same as before, but requeued rows wait for their backoff and interrupted sends are
+-- flagged 'unknown' so a retry never picks them up automatically.
+CREATE OR REPLACE FUNCTION public.claim_recipients(
+  p_campaign_id UUID,
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.recipients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.recipients
+     SET status = 'failed',
+         failure_kind = 'unknown',
+         error_message = 'Sending was interrupted; delivery status unknown',
+         error_history = error_history || jsonb_build_object(
+           'at', now(),
+           'attempt', attempts,
+           'kind', 'unknown',
+           'message', 'Sending was interrupted; delivery status unknown'
+         ),
+         locked_by = NULL,
+         locked_until = NULL
+   WHERE campaign_id = p_campaign_id
+     AND status = 'sending'
+     AND locked_until < now();
+
+  RETURN QUERY
+  UPDATE public.recipients r
+     SET locked_by = p_worker,
+         locked_until = now() + make_interval(secs => p_lease_seconds)
+   WHERE r.id IN (
+     SELECT id
+       FROM public.recipients
+      WHERE campaign_id = p_campaign_id
+        AND status = 'pending'
+        AND (locked_until IS NULL OR locked_until < now())
+        AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+      ORDER BY position NULLS LAST, created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING r.*;
+END;
+$$;
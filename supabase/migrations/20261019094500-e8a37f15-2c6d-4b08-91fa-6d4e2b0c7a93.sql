@@ -0,0 +1,5 @@
+-- Per-campaign throughput: overall rate, parallel sends and per-recipient-domain caps
+-- (domain_limits maps a domain to messages per minute, e.g. {"gmail.com": 20})
+ALTER TABLE public.campaigns ADD COLUMN messages_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (messages_per_minute > 0);
+ALTER TABLE public.campaigns ADD COLUMN max_concurrency INTEGER NOT NULL DEFAULT 1 CHECK (max_concurrency BETWEEN 1 AND 20);
+ALTER TABLE public.campaigns ADD COLUMN domain_limits JSONB NOT NULL DEFAULT '{}'::jsonb;
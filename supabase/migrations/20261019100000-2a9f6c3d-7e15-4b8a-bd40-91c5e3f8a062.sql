@@ -0,0 +1,7 @@
+-- Scheduled launches: recipients are enqueued up front and the campaign waits in
+-- 'scheduled' until start-scheduled-campaigns flips it to 'active'.
+ALTER TABLE public.campaigns ADD COLUMN scheduled_at TIMESTAMPTZ;
+-- IANA zone the user picked, kept for displaying the launch time the way it was entered
+ALTER TABLE public.campaigns ADD COLUMN schedule_timezone TEXT;
+
+CREATE INDEX campaigns_scheduled_idx ON public.campaigns (scheduled_at) WHERE status = 'scheduled';
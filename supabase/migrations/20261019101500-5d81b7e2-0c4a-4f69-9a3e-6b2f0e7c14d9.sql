@@ -0,0 +1,9 @@
+-- Delivery windows: recipients are only sent to while the window is open in their local time.
+-- Shape: {"start": "09:00", "end": "11:00", "days": [1,2,3,4,5], "timezone": "Europe/Berlin"},
+-- where timezone applies to recipients without a valid zone of their own. NULL means no window.
+ALTER TABLE public.campaigns ADD COLUMN delivery_window JSONB;
+-- CSV column holding each recipient's IANA time zone
+ALTER TABLE public.campaigns ADD COLUMN timezone_column TEXT;
+
+-- Resolved when the recipient is enqueued; NULL falls back to the window's timezone
+ALTER TABLE public.recipients ADD COLUMN timezone TEXT;
@@ -0,0 +1,39 @@
+-- Encrypted SMTP passwords. Secrets are encrypted by the smtp-credentials edge function with
+-- SMTP_CREDENTIALS_KEY, which never leaves the edge runtime; the browser can only see whether
+-- a password is set, its last four characters and when it changed.
+CREATE TABLE public.smtp_credentials (
+  smtp_config_id UUID PRIMARY KEY REFERENCES public.smtp_configs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ciphertext TEXT NOT NULL,
+  last4 TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.smtp_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own smtp credential status" ON public.smtp_credentials
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Writes go through the edge function only, and the ciphertext is not readable from the client
+REVOKE ALL ON public.smtp_credentials FROM anon, authenticated;
+GRANT SELECT (smtp_config_id, user_id, last4, updated_at) ON public.smtp_credentials TO authenticated;
+
+-- smtp_configs.password is legacy plaintext. Existing values are moved into smtp_credentials by
+-- the smtp-credentials "migrate" action (or on first use by a sending function); new plaintext
+-- can no longer be written at all.
+CREATE OR REPLACE FUNCTION public.reject_plaintext_smtp_password()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.password IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.password IS DISTINCT FROM OLD.password) THEN
+    RAISE EXCEPTION 'SMTP passwords must be saved through the smtp-credentials function';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER smtp_configs_reject_plaintext_password
+  BEFORE INSERT OR UPDATE ON public.smtp_configs
+  FOR EACH ROW EXECUTE FUNCTION public.reject_plaintext_smtp_password();
@@ -0,0 +1,53 @@
+-- Account-level sender profiles that campaigns can reuse instead of repeating SMTP settings
+CREATE TABLE public.sender_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  transport TEXT NOT NULL DEFAULT 'smtp' CHECK (transport IN ('smtp', 'resend')),
+  host TEXT,
+  port INTEGER NOT NULL DEFAULT 587,
+  security TEXT NOT NULL DEFAULT 'starttls' CHECK (security IN ('starttls', 'tls', 'none')),
+  email TEXT NOT NULL,
+  username TEXT,
+  sender_name TEXT NOT NULL,
+  last_tested_at TIMESTAMPTZ,
+  last_test_ok BOOLEAN,
+  last_test_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.sender_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sender profiles" ON public.sender_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own sender profiles" ON public.sender_profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own sender profiles" ON public.sender_profiles
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own sender profiles" ON public.sender_profiles
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- A campaign either uses a profile (optionally overriding the sender name) or its own settings.
+-- Profiles in use cannot be deleted.
+ALTER TABLE public.smtp_configs
+  ADD COLUMN sender_profile_id UUID REFERENCES public.sender_profiles(id) ON DELETE RESTRICT;
+ALTER TABLE public.smtp_configs ALTER COLUMN host DROP NOT NULL;
+ALTER TABLE public.smtp_configs ALTER COLUMN port DROP NOT NULL;
+ALTER TABLE public.smtp_configs ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE public.smtp_configs ALTER COLUMN sender_name DROP NOT NULL;
+ALTER TABLE public.smtp_configs ADD CONSTRAINT smtp_configs_profile_or_settings
+  CHECK (sender_profile_id IS NOT NULL OR (email IS NOT NULL AND sender_name IS NOT NULL));
+
+-- Credentials now belong to either a campaign's smtp_configs row or a sender profile
+ALTER TABLE public.smtp_credentials DROP CONSTRAINT smtp_credentials_pkey;
+ALTER TABLE public.smtp_credentials ADD COLUMN id UUID PRIMARY KEY DEFAULT gen_random_uuid();
+ALTER TABLE public.smtp_credentials ALTER COLUMN smtp_config_id DROP NOT NULL;
+ALTER TABLE public.smtp_credentials ADD CONSTRAINT smtp_credentials_smtp_config_id_key UNIQUE (smtp_config_id);
+ALTER TABLE public.smtp_credentials
+  ADD COLUMN sender_profile_id UUID UNIQUE REFERENCES public.sender_profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.smtp_credentials ADD CONSTRAINT smtp_credentials_single_owner
+  CHECK ((smtp_config_id IS NULL) <> (sender_profile_id IS NULL));
+
+GRANT SELECT (id, sender_profile_id) ON public.smtp_credentials TO authenticated;
@@ -0,0 +1,17 @@
+-- Internal addresses that receive test sends, shared by all of a user's campaigns
+CREATE TABLE public.seed_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, email)
+);
+
+ALTER TABLE public.seed_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own seed addresses" ON public.seed_addresses
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own seed addresses" ON public.seed_addresses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own seed addresses" ON public.seed_addresses
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- How the template body is turned into HTML, and an optional hand-written plain-text part.
+-- Existing bodies were typed into a plain textarea, so they default to plain text.
+ALTER TABLE public.templates
+  ADD COLUMN body_format TEXT NOT NULL DEFAULT 'text' CHECK (body_format IN ('text', 'html', 'markdown')),
+  ADD COLUMN text_body TEXT;
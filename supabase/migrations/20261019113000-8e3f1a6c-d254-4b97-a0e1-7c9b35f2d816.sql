@@ -0,0 +1,24 @@
+-- Files attached to a campaign's emails. 'campaign' files go to every recipient; 'recipient'
+-- files come from an uploaded zip and are matched by the CSV column in campaigns.attachment_column.
+-- Rows are written by the campaign-attachments function after the file is checked.
+CREATE TABLE public.campaign_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('campaign', 'recipient')),
+  filename TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, kind, filename)
+);
+
+CREATE INDEX campaign_attachments_campaign_idx ON public.campaign_attachments (campaign_id);
+
+ALTER TABLE public.campaign_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own campaign attachments" ON public.campaign_attachments
+  FOR SELECT USING (auth.uid() = user_id);
+
+ALTER TABLE public.campaigns ADD COLUMN attachment_column TEXT;
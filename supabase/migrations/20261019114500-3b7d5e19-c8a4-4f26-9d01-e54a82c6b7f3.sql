@@ -0,0 +1,9 @@
+-- Optional CSV columns for per-row addressing: { cc, bcc, replyTo, fromName, fromEmail }
+ALTER TABLE public.campaigns ADD COLUMN address_columns JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Resolved from those columns when the campaign is queued, so the logs show who else got each email
+ALTER TABLE public.recipients ADD COLUMN cc TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.recipients ADD COLUMN bcc TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.recipients ADD COLUMN reply_to TEXT;
+ALTER TABLE public.recipients ADD COLUMN from_email TEXT;
+ALTER TABLE public.recipients ADD COLUMN from_name TEXT;
@@ -0,0 +1,21 @@
+-- Addresses a user must never email again, shared by all of their campaigns. Emails are
+-- stored lowercased.
+CREATE TABLE public.suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  reason TEXT NOT NULL CHECK (reason IN ('unsubscribe', 'manual')),
+  -- Campaign the opt-out came from, if any
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, email)
+);
+
+ALTER TABLE public.suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppressions" ON public.suppressions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own suppressions" ON public.suppressions
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND reason = 'manual');
+CREATE POLICY "Users can remove their own suppressions" ON public.suppressions
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,34 @@
+-- Id the provider gave each send: Resend's email id, or the Message-ID header for SMTP.
+-- Webhook events are matched to recipients through it.
+ALTER TABLE public.recipients ADD COLUMN provider_message_id TEXT;
+CREATE INDEX recipients_provider_message_idx ON public.recipients (provider_message_id);
+
+-- What happened to an email after it was handed off. Recipients move on from 'sent' to
+-- 'delivered', 'bounced' or 'complained' as these arrive; opens and clicks leave the status alone.
+CREATE TABLE public.recipient_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id UUID NOT NULL REFERENCES public.recipients(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('delivered', 'bounced', 'complained', 'opened', 'clicked')),
+  provider TEXT NOT NULL,
+  -- Delivery id of the webhook, so a redelivered event is stored once
+  provider_event_id TEXT,
+  detail JSONB NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_event_id)
+);
+
+CREATE INDEX recipient_events_recipient_idx ON public.recipient_events (recipient_id, occurred_at);
+CREATE INDEX recipient_events_campaign_idx ON public.recipient_events (campaign_id, type);
+
+ALTER TABLE public.recipient_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recipient events" ON public.recipient_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Hard bounces and complaints are suppressed automatically
+ALTER TABLE public.suppressions DROP CONSTRAINT suppressions_reason_check;
+ALTER TABLE public.suppressions ADD CONSTRAINT suppressions_reason_check
+  CHECK (reason IN ('unsubscribe', 'manual', 'bounce', 'complaint'));
@@ -0,0 +1,17 @@
+-- Optional first-party open and click tracking, chosen per campaign. Opens and clicks are stored
+-- in recipient_events with provider 'tracking'; a click's detail holds the original URL.
+ALTER TABLE public.campaigns
+  ADD COLUMN track_opens BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN track_clicks BOOLEAN NOT NULL DEFAULT false;
+
+-- Unique opens and clicks per campaign for the analytics page. security_invoker applies the
+-- caller's row level security, so users only see their own campaigns.
+CREATE VIEW public.campaign_engagement WITH (security_invoker = true) AS
+SELECT
+  campaign_id,
+  user_id,
+  COUNT(DISTINCT recipient_id) FILTER (WHERE type = 'opened') AS unique_opens,
+  COUNT(DISTINCT recipient_id) FILTER (WHERE type = 'clicked') AS unique_clicks,
+  COUNT(*) FILTER (WHERE type = 'clicked') AS total_clicks
+FROM public.recipient_events
+GROUP BY campaign_id, user_id;
@@ -0,0 +1,43 @@
+-- Exactly what went out to each recipient, written once by the queue worker when the provider
+-- accepts the email. content_hash is the SHA-256 of subject, HTML and text, so a copy can be
+-- checked against it later.
+CREATE TABLE public.sent_messages (
+  recipient_id UUID PRIMARY KEY REFERENCES public.recipients(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id TEXT,
+  from_email TEXT NOT NULL,
+  from_name TEXT,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  -- Extra headers such as List-Unsubscribe
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Filenames and sizes only; the files stay in storage
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  content_hash TEXT NOT NULL,
+  -- Final reply of the SMTP server or API that accepted the email
+  provider_response TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sent_messages_campaign_idx ON public.sent_messages (campaign_id);
+
+ALTER TABLE public.sent_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sent messages" ON public.sent_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Snapshots are a record of what was sent, so not even the service role may change them
+CREATE OR REPLACE FUNCTION public.reject_sent_message_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Sent message snapshots cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER sent_messages_immutable
+  BEFORE UPDATE ON public.sent_messages
+  FOR EACH ROW EXECUTE FUNCTION public.reject_sent_message_update();
@@ -0,0 +1,50 @@
+-- Warm-up plans ramp a new sender's daily volume, e.g. 50 a day doubling up to a target:
+-- {"startDate": "2026-10-19", "initialDaily": 50, "growthFactor": 2, "targetDaily": 2000}.
+-- A campaign that uses a sender profile follows the profile's plan, so every campaign sending
+-- through it shares one daily allowance.
+ALTER TABLE public.sender_profiles ADD COLUMN warmup JSONB;
+ALTER TABLE public.smtp_configs ADD COLUMN warmup JSONB;
+
+-- Emails handed to each sender per UTC day. sender_key is "profile:<id>" or "config:<id>".
+CREATE TABLE public.sender_daily_usage (
+  sender_key TEXT NOT NULL,
+  day DATE NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sent INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (sender_key, day)
+);
+
+ALTER TABLE public.sender_daily_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sender usage" ON public.sender_daily_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Takes one send from the sender's allowance for the day. Returns false once `p_cap` sends
+-- were taken, so concurrent workers and campaigns never overshoot the cap together.
+CREATE OR REPLACE FUNCTION public.reserve_daily_send(
+  p_user_id UUID,
+  p_sender_key TEXT,
+  p_day DATE,
+  p_cap INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.sender_daily_usage (sender_key, day, user_id)
+  VALUES (p_sender_key, p_day, p_user_id)
+  ON CONFLICT (sender_key, day) DO NOTHING;
+
+  UPDATE public.sender_daily_usage
+     SET sent = sent + 1
+   WHERE sender_key = p_sender_key
+     AND day = p_day
+     AND sent < p_cap;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_daily_send(UUID, TEXT, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
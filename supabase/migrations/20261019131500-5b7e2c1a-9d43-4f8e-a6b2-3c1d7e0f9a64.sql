@@ -0,0 +1,80 @@
+-- Most mailbox providers cap how many messages one account may send per day. NULL means the
+-- account has no known quota.
+ALTER TABLE public.sender_profiles ADD COLUMN daily_quota INTEGER CHECK (daily_quota > 0);
+ALTER TABLE public.smtp_configs ADD COLUMN daily_quota INTEGER CHECK (daily_quota > 0);
+
+-- Known defaults for accounts saved before quotas existed; these match the presets in
+-- src/lib/providers.ts
+UPDATE public.sender_profiles SET daily_quota = CASE lower(host)
+    WHEN 'smtp.gmail.com' THEN 500
+    WHEN 'smtp-mail.outlook.com' THEN 300
+    WHEN 'smtp.mail.yahoo.com' THEN 500
+    WHEN 'smtp.sendgrid.net' THEN 100
+  END
+  WHERE transport = 'smtp';
+
+UPDATE public.smtp_configs SET daily_quota = CASE lower(host)
+    WHEN 'smtp.gmail.com' THEN 500
+    WHEN 'smtp-mail.outlook.com' THEN 300
+    WHEN 'smtp.mail.yahoo.com' THEN 500
+    WHEN 'smtp.sendgrid.net' THEN 100
+  END
+  WHERE transport = 'smtp' AND sender_profile_id IS NULL;
+
+-- Set while a campaign's leftover recipients wait for a daily allowance to reset, so the UI
+-- can tell a waiting campaign from a stuck one
+ALTER TABLE public.campaigns ADD COLUMN waiting_until TIMESTAMPTZ;
+ALTER TABLE public.campaigns ADD COLUMN waiting_reason TEXT CHECK (waiting_reason IN ('warmup', 'quota'));
+
+-- A send can now count against two allowances, the sender's warm-up cap and the account's
+-- quota. Quota keys are "account:<user id>:<host>:<login>", so every config and profile using
+-- the same credentials shares one counter.
+DROP FUNCTION public.reserve_daily_send(UUID, TEXT, DATE, INTEGER);
+
+-- Takes one send from every listed allowance for the day, or from none of them. Returns NULL
+-- on success, otherwise the key whose cap is used up.
+CREATE OR REPLACE FUNCTION public.reserve_daily_send(
+  p_user_id UUID,
+  p_sender_keys TEXT[],
+  p_caps INTEGER[],
+  p_day DATE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exhausted TEXT;
+BEGIN
+  INSERT INTO public.sender_daily_usage (sender_key, day, user_id)
+  SELECT key, p_day, p_user_id FROM unnest(p_sender_keys) AS key
+  ON CONFLICT (sender_key, day) DO NOTHING;
+
+  -- Locked in key order so concurrent workers sharing an account cannot deadlock
+  PERFORM 1 FROM public.sender_daily_usage
+   WHERE sender_key = ANY(p_sender_keys) AND day = p_day
+   ORDER BY sender_key
+   FOR UPDATE;
+
+  SELECT usage.sender_key INTO v_exhausted
+    FROM public.sender_daily_usage usage
+    JOIN unnest(p_sender_keys, p_caps) AS allowance(key, cap) ON allowance.key = usage.sender_key
+   WHERE usage.day = p_day
+     AND usage.sent >= allowance.cap
+   LIMIT 1;
+
+  IF v_exhausted IS NOT NULL THEN
+    RETURN v_exhausted;
+  END IF;
+
+  UPDATE public.sender_daily_usage
+     SET sent = sent + 1
+   WHERE sender_key = ANY(p_sender_keys)
+     AND day = p_day;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_daily_send(UUID, TEXT[], INTEGER[], DATE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- A campaign that uses a sender profile can spread its sends over a pool of profiles. The
+-- pool includes the campaign's own profile (smtp_configs.sender_profile_id), which stays the
+-- sender for test sends. No rows means the campaign sends from that profile alone.
+CREATE TABLE public.campaign_senders (
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  sender_profile_id UUID NOT NULL REFERENCES public.sender_profiles(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Relative share of the sends under the weighted strategy
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (campaign_id, sender_profile_id)
+);
+
+ALTER TABLE public.campaign_senders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own campaign senders" ON public.campaign_senders
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own campaign senders" ON public.campaign_senders
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own campaign senders" ON public.campaign_senders
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own campaign senders" ON public.campaign_senders
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- round_robin takes turns, weighted follows campaign_senders.weight and domain keeps every
+-- recipient domain on the same sender
+ALTER TABLE public.smtp_configs ADD COLUMN sender_strategy TEXT NOT NULL DEFAULT 'round_robin'
+  CHECK (sender_strategy IN ('round_robin', 'weighted', 'domain'));
+
+-- Which sender delivered each message. The address is kept in case the profile is deleted.
+ALTER TABLE public.recipients
+  ADD COLUMN sender_profile_id UUID REFERENCES public.sender_profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.recipients ADD COLUMN sender_email TEXT;
@@ -0,0 +1,30 @@
+-- Dry runs render a campaign's messages into storage instead of sending them. Files go to
+-- <user>/<campaign>/dry-runs/<run id>/ in the campaigns bucket: one .eml per rendered row
+-- and a summary.json. Runs are written by the dry-run-campaign function only.
+CREATE TABLE public.campaign_dry_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  storage_path TEXT NOT NULL,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  -- CSV rows handled so far; a run that outlasts one invocation continues from here
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  rendered_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  invalid_count INTEGER NOT NULL DEFAULT 0,
+  -- { row, email, kind: 'skipped' | 'invalid', reason } for every row that was not rendered
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Rendered messages per sender address
+  sender_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX campaign_dry_runs_campaign_idx ON public.campaign_dry_runs (campaign_id, created_at DESC);
+
+ALTER TABLE public.campaign_dry_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dry runs" ON public.campaign_dry_runs
+  FOR SELECT USING (auth.uid() = user_id);
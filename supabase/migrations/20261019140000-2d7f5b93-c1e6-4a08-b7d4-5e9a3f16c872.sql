@@ -0,0 +1,4 @@
+-- The Date header of the sent email, so an export rebuilds the exact header. Set for SMTP
+-- sends, which write the header themselves; Resend stamps its own and exports fall back to
+-- sent_at.
+ALTER TABLE public.sent_messages ADD COLUMN message_date TIMESTAMPTZ;
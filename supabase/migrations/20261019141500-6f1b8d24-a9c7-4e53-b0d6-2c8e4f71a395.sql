@@ -0,0 +1,28 @@
+-- DKIM keys of sender profiles. The private key is encrypted by the sender-dkim edge function
+-- with SMTP_CREDENTIALS_KEY, like SMTP passwords; the browser can read everything else,
+-- including the public key it shows as the DNS record to publish.
+CREATE TABLE public.sender_dkim_keys (
+  sender_profile_id UUID PRIMARY KEY REFERENCES public.sender_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,
+  selector TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
+  -- Base64 SubjectPublicKeyInfo, the p= tag of the TXT record
+  public_key TEXT NOT NULL,
+  key_bits INTEGER NOT NULL,
+  -- Last check of a signed message against the published record
+  last_checked_at TIMESTAMPTZ,
+  last_check_ok BOOLEAN,
+  last_check_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sender_dkim_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own DKIM keys" ON public.sender_dkim_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Writes go through the edge function only, and the ciphertext is not readable from the client
+REVOKE ALL ON public.sender_dkim_keys FROM anon, authenticated;
+GRANT SELECT (sender_profile_id, user_id, domain, selector, public_key, key_bits, last_checked_at, last_check_ok, last_check_error, updated_at)
+  ON public.sender_dkim_keys TO authenticated;
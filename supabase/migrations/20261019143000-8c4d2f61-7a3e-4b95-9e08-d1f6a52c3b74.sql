@@ -0,0 +1,22 @@
+-- A campaign may only use a sender profile of the same user. The foreign key alone accepts any
+-- existing profile, and the functions read profiles with the service role.
+DROP POLICY "Users can create their own smtp configs" ON public.smtp_configs;
+DROP POLICY "Users can update their own smtp configs" ON public.smtp_configs;
+
+CREATE POLICY "Users can create their own smtp configs" ON public.smtp_configs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND (
+      sender_profile_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.sender_profiles p WHERE p.id = sender_profile_id AND p.user_id = auth.uid()
+      )
+    )
+  );
+CREATE POLICY "Users can update their own smtp configs" ON public.smtp_configs
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      sender_profile_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.sender_profiles p WHERE p.id = sender_profile_id AND p.user_id = auth.uid()
+      )
+    )
+  );
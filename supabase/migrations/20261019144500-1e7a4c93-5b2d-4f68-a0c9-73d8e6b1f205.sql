@@ -0,0 +1,17 @@
+-- Pool members must be the user's own sender profiles, like smtp_configs.sender_profile_id
+DROP POLICY "Users can create their own campaign senders" ON public.campaign_senders;
+DROP POLICY "Users can update their own campaign senders" ON public.campaign_senders;
+
+CREATE POLICY "Users can create their own campaign senders" ON public.campaign_senders
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.sender_profiles p WHERE p.id = sender_profile_id AND p.user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can update their own campaign senders" ON public.campaign_senders
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.sender_profiles p WHERE p.id = sender_profile_id AND p.user_id = auth.uid()
+    )
+  );
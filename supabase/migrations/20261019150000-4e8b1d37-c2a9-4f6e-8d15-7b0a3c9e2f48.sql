@@ -0,0 +1,51 @@
+-- Set when the provider refused a send over its quota on that day. Accounts without a
+-- configured quota have no cap to fill, so the refusal is remembered here instead, and every
+-- worker run that day stops sending through the account.
+ALTER TABLE public.sender_daily_usage ADD COLUMN quota_refused BOOLEAN NOT NULL DEFAULT false;
+
+-- A NULL cap now means the allowance is only used up once the provider has refused a send
+CREATE OR REPLACE FUNCTION public.reserve_daily_send(
+  p_user_id UUID,
+  p_sender_keys TEXT[],
+  p_caps INTEGER[],
+  p_day DATE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exhausted TEXT;
+BEGIN
+  INSERT INTO public.sender_daily_usage (sender_key, day, user_id)
+  SELECT key, p_day, p_user_id FROM unnest(p_sender_keys) AS key
+  ON CONFLICT (sender_key, day) DO NOTHING;
+
+  -- Locked in key order so concurrent workers sharing an account cannot deadlock
+  PERFORM 1 FROM public.sender_daily_usage
+   WHERE sender_key = ANY(p_sender_keys) AND day = p_day
+   ORDER BY sender_key
+   FOR UPDATE;
+
+  SELECT usage.sender_key INTO v_exhausted
+    FROM public.sender_daily_usage usage
+    JOIN unnest(p_sender_keys, p_caps) AS allowance(key, cap) ON allowance.key = usage.sender_key
+   WHERE usage.day = p_day
+     AND (usage.quota_refused OR usage.sent >= allowance.cap)
+   LIMIT 1;
+
+  IF v_exhausted IS NOT NULL THEN
+    RETURN v_exhausted;
+  END IF;
+
+  UPDATE public.sender_daily_usage
+     SET sent = sent + 1
+   WHERE sender_key = ANY(p_sender_keys)
+     AND day = p_day;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_daily_send(UUID, TEXT[], INTEGER[], DATE) FROM PUBLIC, anon, authenticated;
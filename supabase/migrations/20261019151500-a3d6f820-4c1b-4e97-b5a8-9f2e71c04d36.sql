@@ -0,0 +1,14 @@
+-- One row per CSV line: two overlapping launches of the same campaign could both find the queue
+-- empty and enqueue the whole list, so every recipient would be emailed twice. Launches insert
+-- with ON CONFLICT DO NOTHING against this index.
+
+-- Drop queued duplicates left by such launches, keeping the row that got furthest
+DELETE FROM public.recipients duplicate
+ USING public.recipients kept
+ WHERE duplicate.campaign_id = kept.campaign_id
+   AND duplicate.position = kept.position
+   AND duplicate.id <> kept.id
+   AND duplicate.status IN ('pending', 'skipped')
+   AND (kept.status NOT IN ('pending', 'skipped') OR kept.id < duplicate.id);
+
+CREATE UNIQUE INDEX recipients_campaign_position_key ON public.recipients (campaign_id, position);